@@ -1,4 +1,4 @@
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation, Location } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import { AuthProvider } from './contexts/AuthContext'
 import { Navbar } from './components/Navbar'
@@ -17,15 +17,28 @@ import { EmailConfirmationPage } from './pages/auth/EmailConfirmationPage'
 import { JobsPage } from './pages/applicant/JobsPage'
 import { JobDetailsPage } from './pages/applicant/JobDetailsPage'
 import { ApplicationsPage } from './pages/applicant/ApplicationsPage'
+import { SavedJobsPage } from './pages/applicant/SavedJobsPage'
+import { SavedSearchesPage } from './pages/applicant/SavedSearchesPage'
+import { CompanyProfilePage } from './pages/applicant/CompanyProfilePage'
 
 // Employer Pages
 import { DashboardPage } from './pages/employer/DashboardPage'
 import { CreateJobPage } from './pages/employer/CreateJobPage'
+import { ImportJobsPage } from './pages/employer/ImportJobsPage'
+import { EditJobPage } from './pages/employer/EditJobPage'
+import { PipelineSettingsPage } from './pages/employer/PipelineSettingsPage'
 import { JobApplicationsPage } from './pages/employer/JobApplicationsPage'
+import { CandidateSearchPage } from './pages/employer/CandidateSearchPage'
+import { CompanyPage } from './pages/employer/CompanyPage'
+import { AnalyticsPage } from './pages/employer/AnalyticsPage'
 
 // Componente envoltorio para manejar el estado de carga inicial
 function AppContent() {
   const { loading, isAuthenticated, profile } = useAuth()
+  const location = useLocation()
+  // Tras iniciar sesión se vuelve a la página que lo pidió (ProtectedRoute o JobDetailsPage)
+  const from = (location.state as { from?: Location } | null)?.from
+  const homePath = from || (profile?.user_type === 'employer' ? '/dashboard' : '/jobs')
 
   if (loading) {
     return <Loading message="Iniciando aplicación..." />
@@ -39,10 +52,10 @@ function AppContent() {
           {/* Public Routes */}
           <Route path="/" element={<HomePage />} />
           <Route path="/login" element={
-            isAuthenticated ? <Navigate to={profile?.user_type === 'employer' ? '/dashboard' : '/jobs'} replace /> : <LoginPage />
+            isAuthenticated ? <Navigate to={homePath} replace /> : <LoginPage />
           } />
           <Route path="/register" element={
-            isAuthenticated ? <Navigate to={profile?.user_type === 'employer' ? '/dashboard' : '/jobs'} replace /> : <RegisterPage />
+            isAuthenticated ? <Navigate to={homePath} replace /> : <RegisterPage />
           } />
           <Route path="/confirm-email" element={<EmailConfirmationPage />} />
 
@@ -53,20 +66,27 @@ function AppContent() {
             </ProtectedRoute>
           } />
 
+          {/* Public Job Board */}
+          <Route path="/jobs" element={<JobsPage />} />
+          <Route path="/jobs/:id" element={<JobDetailsPage />} />
+          <Route path="/companies/:slug" element={<CompanyProfilePage />} />
+
           {/* Applicant Routes */}
-          <Route path="/jobs" element={
+          <Route path="/applications" element={
             <ProtectedRoute requiredUserType="applicant">
-              <JobsPage />
+              <ApplicationsPage />
             </ProtectedRoute>
           } />
-          <Route path="/jobs/:id" element={
+
+          <Route path="/saved-jobs" element={
             <ProtectedRoute requiredUserType="applicant">
-              <JobDetailsPage />
+              <SavedJobsPage />
             </ProtectedRoute>
           } />
-          <Route path="/applications" element={
+
+          <Route path="/saved-searches" element={
             <ProtectedRoute requiredUserType="applicant">
-              <ApplicationsPage />
+              <SavedSearchesPage />
             </ProtectedRoute>
           } />
 
@@ -81,12 +101,43 @@ function AppContent() {
               <CreateJobPage />
             </ProtectedRoute>
           } />
+          <Route path="/import-jobs" element={
+            <ProtectedRoute requiredUserType="employer">
+              <ImportJobsPage />
+            </ProtectedRoute>
+          } />
+          <Route path="/edit-job/:id" element={
+            <ProtectedRoute requiredUserType="employer">
+              <EditJobPage />
+            </ProtectedRoute>
+          } />
           <Route path="/job-applications/:jobId" element={
             <ProtectedRoute requiredUserType="employer">
               <JobApplicationsPage />
             </ProtectedRoute>
           } />
 
+          <Route path="/pipeline-settings" element={
+            <ProtectedRoute requiredUserType="employer">
+              <PipelineSettingsPage />
+            </ProtectedRoute>
+          } />
+          <Route path="/candidates" element={
+            <ProtectedRoute requiredUserType="employer">
+              <CandidateSearchPage />
+            </ProtectedRoute>
+          } />
+          <Route path="/analytics" element={
+            <ProtectedRoute requiredUserType="employer">
+              <AnalyticsPage />
+            </ProtectedRoute>
+          } />
+          <Route path="/company" element={
+            <ProtectedRoute requiredUserType="employer">
+              <CompanyPage />
+            </ProtectedRoute>
+          } />
+
           {/* Catch-all route */}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
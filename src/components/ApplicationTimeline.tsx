@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react'
+import { supabase, Database } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { PipelineStage, getStageLabel, getApplicantStageLabel } from '../lib/pipeline'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+
+type ApplicationEvent = Database['public']['Tables']['application_events']['Row']
+
+interface ApplicationTimelineProps {
+  applicationId: string
+  stages: PipelineStage[]
+  audience: 'employer' | 'applicant'
+}
+
+export function ApplicationTimeline({ applicationId, stages, audience }: ApplicationTimelineProps) {
+  const { user } = useAuth()
+  const [events, setEvents] = useState<ApplicationEvent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadEvents()
+  }, [applicationId])
+
+  const loadEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('application_events')
+        .select('*')
+        .eq('application_id', applicationId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      setEvents(data || [])
+    } catch (error) {
+      console.error('Error loading application events:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const stageLabel = (key: string | null) => {
+    if (!key) return ''
+    return audience === 'employer' ? getStageLabel(stages, key) : getApplicantStageLabel(stages, key)
+  }
+
+  const describeEvent = (event: ApplicationEvent) => {
+    if (event.event_type === 'created') {
+      return 'Postulación enviada'
+    }
+    return `${stageLabel(event.from_status)} → ${stageLabel(event.to_status)}`
+  }
+
+  if (loading) {
+    return <div className="animate-pulse h-16 bg-gray-100 rounded"></div>
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">Sin movimientos registrados</p>
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map(event => (
+        <li key={event.id} className="mb-4 ml-4">
+          <div className="absolute w-2.5 h-2.5 bg-blue-600 rounded-full -left-[5px] mt-1.5"></div>
+          <p className="text-sm font-medium text-gray-900">{describeEvent(event)}</p>
+          <p className="text-xs text-gray-500">
+            {format(new Date(event.created_at), "d 'de' MMMM, yyyy HH:mm", { locale: es })}
+            {event.actor_id && event.actor_id === user?.id && ' · por ti'}
+          </p>
+          {event.note && (
+            <p className="mt-1 text-sm text-gray-600">{event.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import { PipelineStage, getStageBadgeClass } from '../lib/pipeline'
+import { User, Clock } from 'lucide-react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+
+interface BoardApplication {
+  id: string
+  status: string
+  created_at: string
+  applicant: {
+    full_name: string
+    email: string
+  }
+}
+
+interface ApplicationsBoardProps {
+  stages: PipelineStage[]
+  applications: BoardApplication[]
+  onMove: (applicationId: string, stageKey: string) => void
+  onSelect: (applicationId: string) => void
+  disabled?: boolean
+}
+
+export function ApplicationsBoard({ stages, applications, onMove, onSelect, disabled = false }: ApplicationsBoardProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const handleDrop = (stageKey: string) => {
+    const application = applications.find(app => app.id === draggedId)
+    if (application && application.status !== stageKey) {
+      onMove(application.id, stageKey)
+    }
+    setDraggedId(null)
+    setDropTarget(null)
+  }
+
+  return (
+    <div className="flex space-x-4 overflow-x-auto p-4">
+      {stages.map(stage => {
+        const stageApplications = applications.filter(app => app.status === stage.key)
+
+        return (
+          <div
+            key={stage.key}
+            onDragOver={(e) => {
+              if (disabled) return
+              e.preventDefault()
+              setDropTarget(stage.key)
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop(stage.key)
+            }}
+            className={`flex-shrink-0 w-64 rounded-lg p-3 transition-colors ${
+              dropTarget === stage.key ? 'bg-blue-50 ring-2 ring-blue-300' : 'bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStageBadgeClass(stage.category, stage.key)}`}>
+                {stage.label}
+              </span>
+              <span className="text-xs text-gray-500">{stageApplications.length}</span>
+            </div>
+
+            <div className="space-y-2 min-h-[4rem]">
+              {stageApplications.map(application => (
+                <div
+                  key={application.id}
+                  draggable={!disabled}
+                  onDragStart={() => setDraggedId(application.id)}
+                  onDragEnd={() => {
+                    setDraggedId(null)
+                    setDropTarget(null)
+                  }}
+                  onClick={() => onSelect(application.id)}
+                  className={`bg-white rounded-md shadow-sm p-3 cursor-grab hover:shadow-md transition-shadow ${
+                    draggedId === application.id ? 'opacity-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <User className="h-6 w-6 text-gray-400 bg-gray-100 rounded-full p-1 flex-shrink-0" />
+                    <div className="ml-2 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{application.applicant.full_name}</div>
+                      <div className="text-xs text-gray-500 truncate">{application.applicant.email}</div>
+                    </div>
+                  </div>
+                  <div className="mt-2 flex items-center text-xs text-gray-400">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {format(new Date(application.created_at), "d 'de' MMM", { locale: es })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  MessageTemplate,
+  TEMPLATE_PLACEHOLDERS,
+  DEFAULT_MESSAGE_TEMPLATES,
+  renderMessageTemplate,
+  fetchMessageTemplates,
+  createMessageTemplate,
+  deleteMessageTemplate,
+  sendBulkMessages
+} from '../lib/messages'
+import { Send, Save, Trash2, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface BulkMessageRecipient {
+  applicationId: string
+  name: string
+}
+
+interface BulkMessagePanelProps {
+  recipients: BulkMessageRecipient[]
+  jobTitle: string
+  onSent: () => void
+  onCancel: () => void
+}
+
+// Mensaje a varios candidatos a la vez, con plantillas de la empresa.
+// Los marcadores se reemplazan con los datos de cada candidato al enviar
+export function BulkMessagePanel({ recipients, jobTitle, onSent, onCancel }: BulkMessagePanelProps) {
+  const { user, company } = useAuth()
+  const [templates, setTemplates] = useState<MessageTemplate[]>([])
+  const [selectedTemplate, setSelectedTemplate] = useState('')
+  const [body, setBody] = useState('')
+  const [templateName, setTemplateName] = useState('')
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    if (!company) return
+
+    fetchMessageTemplates(company.company.id)
+      .then(setTemplates)
+      .catch(error => console.error('Error loading message templates:', error))
+  }, [company?.company.id])
+
+  const valuesFor = (recipient: BulkMessageRecipient) => ({
+    nombre: recipient.name,
+    empleo: jobTitle,
+    empresa: company?.company.name || '',
+  })
+
+  const applyTemplate = (value: string) => {
+    setSelectedTemplate(value)
+    const saved = templates.find(template => template.id === value)
+    const preset = DEFAULT_MESSAGE_TEMPLATES.find(template => template.name === value)
+    const template = saved || preset
+    if (template) setBody(template.body)
+  }
+
+  const insertPlaceholder = (key: string) => {
+    setBody(prev => `${prev}{{${key}}}`)
+  }
+
+  const handleSaveTemplate = async () => {
+    if (!user || !company || !templateName.trim() || !body.trim()) return
+
+    setSavingTemplate(true)
+    try {
+      const template = await createMessageTemplate(company.company.id, user.id, templateName, body)
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)))
+      setSelectedTemplate(template.id)
+      setTemplateName('')
+      toast.success('Plantilla guardada')
+    } catch (error) {
+      console.error('Error saving message template:', error)
+      toast.error((error as Error).message || 'Error al guardar la plantilla')
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
+  const handleDeleteTemplate = async (template: MessageTemplate) => {
+    if (!confirm(`¿Eliminar la plantilla "${template.name}"?`)) return
+
+    try {
+      await deleteMessageTemplate(template.id)
+      setTemplates(prev => prev.filter(t => t.id !== template.id))
+      setSelectedTemplate('')
+    } catch (error) {
+      console.error('Error deleting message template:', error)
+      toast.error('Error al eliminar la plantilla')
+    }
+  }
+
+  const handleSend = async () => {
+    if (!user || !body.trim() || sending) return
+
+    setSending(true)
+    try {
+      await sendBulkMessages(
+        user.id,
+        recipients.map(recipient => ({
+          applicationId: recipient.applicationId,
+          body: renderMessageTemplate(body, valuesFor(recipient))
+        }))
+      )
+      toast.success(`Mensaje enviado a ${recipients.length} candidato${recipients.length !== 1 ? 's' : ''}`)
+      onSent()
+    } catch (error) {
+      console.error('Error sending bulk messages:', error)
+      toast.error('Error al enviar los mensajes')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const savedTemplate = templates.find(template => template.id === selectedTemplate)
+
+  return (
+    <div className="px-4 py-4 border-b border-gray-200 sm:px-6 bg-blue-50">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-gray-900">
+          Mensaje para {recipients.length} candidato{recipients.length !== 1 ? 's' : ''}
+        </h4>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600" title="Cerrar">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-2">
+        <select
+          value={selectedTemplate}
+          onChange={(e) => applyTemplate(e.target.value)}
+          className="block flex-1 pl-3 pr-10 py-2 text-sm border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Sin plantilla</option>
+          {templates.length > 0 && (
+            <optgroup label="Plantillas de la empresa">
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label="Sugeridas">
+            {DEFAULT_MESSAGE_TEMPLATES.map(template => (
+              <option key={template.name} value={template.name}>{template.name}</option>
+            ))}
+          </optgroup>
+        </select>
+        {savedTemplate && (
+          <button
+            onClick={() => handleDeleteTemplate(savedTemplate)}
+            className="text-gray-400 hover:text-red-600"
+            title="Eliminar plantilla"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={4}
+        placeholder="Escribe el mensaje..."
+        className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600">
+        <span>Insertar:</span>
+        {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+          <button
+            key={placeholder.key}
+            onClick={() => insertPlaceholder(placeholder.key)}
+            title={placeholder.label}
+            className="px-2 py-0.5 rounded bg-white border border-gray-300 hover:bg-gray-50 font-mono"
+          >
+            {`{{${placeholder.key}}}`}
+          </button>
+        ))}
+      </div>
+
+      {body.trim() && recipients.length > 0 && (
+        <div className="mt-3 text-sm">
+          <p className="text-xs text-gray-500 mb-1">Vista previa para {recipients[0].name}:</p>
+          <p className="bg-white border border-gray-200 rounded-md px-3 py-2 text-gray-700 whitespace-pre-line">
+            {renderMessageTemplate(body, valuesFor(recipients[0]))}
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-3">
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Nombre de la plantilla"
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            onClick={handleSaveTemplate}
+            disabled={savingTemplate || !templateName.trim() || !body.trim()}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-1" />
+            Guardar plantilla
+          </button>
+        </div>
+        <button
+          onClick={handleSend}
+          disabled={sending || !body.trim() || recipients.length === 0}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {sending ? 'Enviando...' : 'Enviar a todos'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { Link } from 'react-router-dom'
+import { Building2 } from 'lucide-react'
+
+interface CompanyAccessNoticeProps {
+  // true si el usuario pertenece a una empresa pero su rol no le permite la acción
+  hasCompany: boolean
+}
+
+// Aviso para los empleadores que no pueden publicar ni editar empleos
+export function CompanyAccessNotice({ hasCompany }: CompanyAccessNoticeProps) {
+  return (
+    <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="bg-white shadow-lg rounded-lg p-8 text-center">
+        <Building2 className="mx-auto h-12 w-12 text-gray-400" />
+        <h1 className="mt-4 text-xl font-semibold text-gray-900">
+          {hasCompany ? 'Tu rol es de solo lectura' : 'Aún no perteneces a ninguna empresa'}
+        </h1>
+        <p className="mt-2 text-gray-600">
+          {hasCompany
+            ? 'Pide a un administrador de tu empresa que te asigne el rol de reclutador para gestionar empleos.'
+            : 'Registra tu empresa o acepta la invitación de un compañero para publicar empleos.'}
+        </p>
+        <Link
+          to={hasCompany ? '/dashboard' : '/company'}
+          className="mt-6 inline-flex items-center px-4 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 transition-colors"
+        >
+          {hasCompany ? 'Volver al Dashboard' : 'Configurar empresa'}
+        </Link>
+      </div>
+    </div>
+  )
+}
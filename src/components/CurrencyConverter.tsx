@@ -1,36 +1,50 @@
 import { useState, useEffect } from 'react'
 import { currencyService, SUPPORTED_CURRENCIES } from '../lib/currency'
+import { getSalaryPeriodSuffix } from '../lib/salary'
 import { ChevronDown } from 'lucide-react'
 
 interface CurrencyConverterProps {
   amount: number
+  // Extremo superior cuando el monto es un rango
+  maxAmount?: number
+  // Periodo de pago que se muestra tras el monto (hourly, monthly, yearly)
+  period?: string
   baseCurrency: string
   className?: string
 }
 
-export function CurrencyConverter({ amount, baseCurrency, className = '' }: CurrencyConverterProps) {
+export function CurrencyConverter({ amount, maxAmount, period, baseCurrency, className = '' }: CurrencyConverterProps) {
   const [selectedCurrency, setSelectedCurrency] = useState(baseCurrency)
   const [convertedAmount, setConvertedAmount] = useState(amount)
+  const [convertedMaxAmount, setConvertedMaxAmount] = useState(maxAmount)
   const [loading, setLoading] = useState(false)
   const [isOpen, setIsOpen] = useState(false)
 
   useEffect(() => {
     convertAmount()
-  }, [amount, baseCurrency, selectedCurrency])
+  }, [amount, maxAmount, baseCurrency, selectedCurrency])
 
   const convertAmount = async () => {
     if (selectedCurrency === baseCurrency) {
       setConvertedAmount(amount)
+      setConvertedMaxAmount(maxAmount)
       return
     }
 
     setLoading(true)
     try {
-      const converted = await currencyService.convertCurrency(amount, baseCurrency, selectedCurrency)
+      const [converted, convertedMax] = await Promise.all([
+        currencyService.convertCurrency(amount, baseCurrency, selectedCurrency),
+        maxAmount === undefined
+          ? Promise.resolve(undefined)
+          : currencyService.convertCurrency(maxAmount, baseCurrency, selectedCurrency)
+      ])
       setConvertedAmount(converted)
+      setConvertedMaxAmount(convertedMax)
     } catch (error) {
       console.error('Error converting currency:', error)
       setConvertedAmount(amount)
+      setConvertedMaxAmount(maxAmount)
     } finally {
       setLoading(false)
     }
@@ -43,7 +57,12 @@ export function CurrencyConverter({ amount, baseCurrency, className = '' }: Curr
           {loading ? (
             <span className="animate-pulse">Calculando...</span>
           ) : (
-            currencyService.formatCurrency(convertedAmount, selectedCurrency)
+            <>
+              {currencyService.formatCurrency(convertedAmount, selectedCurrency, convertedMaxAmount)}
+              {period && (
+                <span className="text-sm font-normal text-gray-500">{getSalaryPeriodSuffix(period)}</span>
+              )}
+            </>
           )}
         </span>
         
@@ -82,7 +101,7 @@ export function CurrencyConverter({ amount, baseCurrency, className = '' }: Curr
 
       {selectedCurrency !== baseCurrency && (
         <p className="text-xs text-gray-500 mt-1">
-          Convertido desde {currencyService.formatCurrency(amount, baseCurrency)} {baseCurrency}
+          Convertido desde {currencyService.formatCurrency(amount, baseCurrency, maxAmount)} {baseCurrency}
         </p>
       )}
     </div>
@@ -0,0 +1,366 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { jobSchema, defaultJobFormValues, JobFormData } from '../lib/jobs'
+import { SUPPORTED_CURRENCIES } from '../lib/currency'
+import { SALARY_PERIODS } from '../lib/salary'
+import { SkillPicker } from './SkillPicker'
+import { ScreeningQuestionsEditor, ScreeningQuestionErrors } from './ScreeningQuestionsEditor'
+import { Save, MapPin, Clock, Building2, CreditCard, CalendarClock, FileText } from 'lucide-react'
+
+interface JobFormProps {
+  defaultValues?: Partial<JobFormData>
+  onSubmit: (data: JobFormData) => Promise<void>
+  onCancel: () => void
+  // Si se indica, muestra el botón "Guardar borrador"
+  onSaveDraft?: (data: JobFormData) => Promise<void>
+  loading: boolean
+  submitLabel: string
+  loadingLabel: string
+}
+
+export function JobForm({
+  defaultValues,
+  onSubmit,
+  onCancel,
+  onSaveDraft,
+  loading,
+  submitLabel,
+  loadingLabel
+}: JobFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<JobFormData>({
+    resolver: zodResolver(jobSchema),
+    defaultValues: {
+      ...defaultJobFormValues,
+      ...defaultValues,
+    },
+  })
+
+  const salaryNegotiable = watch('salary_negotiable')
+  const requiredSkills = watch('required_skills')
+  const niceToHaveSkills = watch('nice_to_have_skills')
+  const screeningQuestions = watch('screening_questions')
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="px-6 py-8 space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Título del Puesto *
+        </label>
+        <input
+          {...register('title')}
+          type="text"
+          placeholder="ej. Desarrollador Frontend Senior"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        {errors.title && (
+          <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Ubicación *
+          </label>
+          <div className="relative">
+            <MapPin className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+            <input
+              {...register('location')}
+              type="text"
+              placeholder="ej. Madrid, España"
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {errors.location && (
+            <p className="mt-1 text-sm text-red-600">{errors.location.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Tipo de Empleo *
+          </label>
+          <div className="relative">
+            <Clock className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+            <select
+              {...register('job_type')}
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="full-time">Tiempo Completo</option>
+              <option value="part-time">Medio Tiempo</option>
+              <option value="contract">Contrato</option>
+              <option value="freelance">Freelance</option>
+            </select>
+          </div>
+          {errors.job_type && (
+            <p className="mt-1 text-sm text-red-600">{errors.job_type.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Salario mínimo {!salaryNegotiable && '*'}
+            </label>
+            <div className="relative">
+              <CreditCard className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+              <input
+                {...register('salary_min')}
+                type="number"
+                min="1"
+                step="1"
+                placeholder="40000"
+                disabled={salaryNegotiable}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+              />
+            </div>
+            {errors.salary_min && (
+              <p className="mt-1 text-sm text-red-600">{errors.salary_min.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Salario máximo {!salaryNegotiable && '*'}
+            </label>
+            <div className="relative">
+              <CreditCard className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+              <input
+                {...register('salary_max')}
+                type="number"
+                min="1"
+                step="1"
+                placeholder="50000"
+                disabled={salaryNegotiable}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Usa el mismo valor que el mínimo para un salario fijo</p>
+            {errors.salary_max && (
+              <p className="mt-1 text-sm text-red-600">{errors.salary_max.message}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Moneda *
+            </label>
+            <select
+              {...register('currency')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code} - {currency.name}
+                </option>
+              ))}
+            </select>
+            {errors.currency && (
+              <p className="mt-1 text-sm text-red-600">{errors.currency.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Periodo de pago *
+            </label>
+            <select
+              {...register('salary_period')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {SALARY_PERIODS.map((period) => (
+                <option key={period.value} value={period.value}>
+                  {period.label}
+                </option>
+              ))}
+            </select>
+            {errors.salary_period && (
+              <p className="mt-1 text-sm text-red-600">{errors.salary_period.message}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            {...register('salary_negotiable')}
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="ml-2 text-gray-600">Salario a convenir (no publicar cifras)</span>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Descripción del Puesto *
+        </label>
+        <textarea
+          {...register('description')}
+          rows={6}
+          placeholder="Describe las responsabilidades, el ambiente de trabajo, objetivos del puesto, etc."
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        {errors.description && (
+          <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Requisitos y Qualificaciones *
+        </label>
+        <textarea
+          {...register('requirements')}
+          rows={6}
+          placeholder="Lista los requisitos técnicos, experiencia, educación, habilidades necesarias, etc."
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        {errors.requirements && (
+          <p className="mt-1 text-sm text-red-600">{errors.requirements.message}</p>
+        )}
+      </div>
+
+      <div>
+        <SkillPicker
+          required={requiredSkills || []}
+          niceToHave={niceToHaveSkills || []}
+          onChange={(required, niceToHave) => {
+            setValue('required_skills', required, { shouldDirty: true })
+            setValue('nice_to_have_skills', niceToHave, { shouldDirty: true })
+          }}
+        />
+        <p className="mt-2 text-xs text-gray-500">
+          Se usan para calcular cuánto coincide cada candidato con el puesto
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Beneficios (Opcional)
+        </label>
+        <textarea
+          {...register('benefits')}
+          rows={4}
+          placeholder="Lista los beneficios que ofrece el puesto: seguro médico, bonos, horario flexible, etc."
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      <ScreeningQuestionsEditor
+        questions={screeningQuestions || []}
+        onChange={(questions) => setValue('screening_questions', questions, { shouldDirty: true })}
+        errors={errors.screening_questions as ScreeningQuestionErrors | undefined}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Nivel de Experiencia *
+          </label>
+          <div className="relative">
+            <Building2 className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+            <select
+              {...register('experience_level')}
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="entry">Principiante</option>
+              <option value="mid">Intermedio</option>
+              <option value="senior">Senior</option>
+              <option value="lead">Líder</option>
+            </select>
+          </div>
+          {errors.experience_level && (
+            <p className="mt-1 text-sm text-red-600">{errors.experience_level.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Trabajo Remoto
+          </label>
+          <div className="flex items-center">
+            <input
+              {...register('remote_work')}
+              type="checkbox"
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="ml-2 text-gray-600">Permitir trabajo remoto</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Publicar el (Opcional)
+          </label>
+          <div className="relative">
+            <CalendarClock className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+            <input
+              {...register('publish_at')}
+              type="datetime-local"
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Con una fecha futura la vacante queda programada</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Vence el (Opcional)
+          </label>
+          <div className="relative">
+            <CalendarClock className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+            <input
+              {...register('expires_at')}
+              type="datetime-local"
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {errors.expires_at && (
+            <p className="mt-1 text-sm text-red-600">{errors.expires_at.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 border border-gray-300 text-gray-700 font-medium rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        {onSaveDraft && (
+          <button
+            type="button"
+            onClick={handleSubmit(onSaveDraft)}
+            disabled={loading}
+            className="flex items-center space-x-2 px-6 py-3 border border-gray-300 text-gray-700 font-medium rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileText className="h-4 w-4" />
+            <span>Guardar borrador</span>
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Save className="h-4 w-4" />
+          <span>{loading ? loadingLabel : submitLabel}</span>
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,31 @@
+import { CurrencyConverter } from './CurrencyConverter'
+
+interface JobSalaryProps {
+  job: {
+    salary_min: number | null
+    salary_max: number | null
+    salary_period: string
+    salary_negotiable: boolean
+    currency: string
+  }
+  className?: string
+}
+
+// Salario de un empleo: rango convertible o "a convenir" si el empleador no publica cifras
+export function JobSalary({ job, className = '' }: JobSalaryProps) {
+  if (job.salary_negotiable || job.salary_min === null) {
+    return (
+      <span className={`font-semibold text-lg text-gray-600 ${className}`}>Salario a convenir</span>
+    )
+  }
+
+  return (
+    <CurrencyConverter
+      amount={job.salary_min}
+      maxAmount={job.salary_max ?? undefined}
+      period={job.salary_period}
+      baseCurrency={job.currency}
+      className={className}
+    />
+  )
+}
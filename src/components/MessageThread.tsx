@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  Message,
+  fetchApplicationMessages,
+  sendApplicationMessage,
+  markApplicationMessagesRead,
+  subscribeToMessages
+} from '../lib/messages'
+import { Send } from 'lucide-react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+
+interface MessageThreadProps {
+  applicationId: string
+  counterpartName: string
+  // Los miembros de solo lectura de la empresa ven los mensajes pero no escriben
+  readOnly?: boolean
+}
+
+export function MessageThread({ applicationId, counterpartName, readOnly = false }: MessageThreadProps) {
+  const { user } = useAuth()
+  const [messages, setMessages] = useState<Message[]>([])
+  const [body, setBody] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [sending, setSending] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    loadMessages()
+
+    const unsubscribe = subscribeToMessages(
+      `messages:${applicationId}`,
+      (message, eventType) => {
+        if (eventType === 'INSERT') {
+          setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
+          if (message.sender_id !== user?.id) {
+            markApplicationMessagesRead(applicationId).catch(error =>
+              console.error('Error marking messages as read:', error)
+            )
+          }
+        } else {
+          setMessages(prev => prev.map(m => (m.id === message.id ? message : m)))
+        }
+      },
+      applicationId
+    )
+
+    return unsubscribe
+  }, [applicationId])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [messages.length])
+
+  const loadMessages = async () => {
+    try {
+      setMessages(await fetchApplicationMessages(applicationId))
+      await markApplicationMessagesRead(applicationId)
+    } catch (error) {
+      console.error('Error loading messages:', error)
+      toast.error('Error al cargar los mensajes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !body.trim() || sending) return
+
+    setSending(true)
+    try {
+      const message = await sendApplicationMessage(applicationId, user.id, body)
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
+      setBody('')
+    } catch (error) {
+      console.error('Error sending message:', error)
+      toast.error('Error al enviar el mensaje')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white">
+      <div className="max-h-72 overflow-y-auto p-4 space-y-3">
+        {loading ? (
+          <div className="animate-pulse h-16 bg-gray-100 rounded"></div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center">
+            Aún no hay mensajes con {counterpartName}
+          </p>
+        ) : (
+          messages.map(message => {
+            const isOwn = message.sender_id === user?.id
+            return (
+              <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[75%] rounded-lg px-3 py-2 ${
+                  isOwn ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                }`}>
+                  <p className="text-sm whitespace-pre-line">{message.body}</p>
+                  <p className={`text-xs mt-1 ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>
+                    {format(new Date(message.created_at), "d MMM, HH:mm", { locale: es })}
+                    {isOwn && message.read_at && ' · Leído'}
+                  </p>
+                </div>
+              </div>
+            )
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {!readOnly && (
+        <form onSubmit={handleSend} className="flex items-center border-t border-gray-200 p-2 space-x-2">
+          <input
+            type="text"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={`Escribe un mensaje a ${counterpartName}...`}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={sending || !body.trim()}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,34 @@
+import { useState, useEffect } from 'react'
 import { Link, useNavigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { Briefcase, User, LogOut, Home, FileText, Building2 } from 'lucide-react'
+import { getUnreadMessageCount, subscribeToMessages } from '../lib/messages'
+import { NotificationBell } from './NotificationBell'
+import { Briefcase, User, LogOut, Home, FileText, Building, Building2, Bookmark, Users, BarChart3 } from 'lucide-react'
 import toast from 'react-hot-toast'
 
 export function Navbar() {
   const { user, profile, signOut } = useAuth()
   const navigate = useNavigate()
   const location = useLocation()
+  const [unreadMessages, setUnreadMessages] = useState(0)
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadMessages(0)
+      return
+    }
+
+    const loadUnreadMessages = async () => {
+      try {
+        setUnreadMessages(await getUnreadMessageCount())
+      } catch (error) {
+        console.error('Error loading unread messages:', error)
+      }
+    }
+
+    loadUnreadMessages()
+    return subscribeToMessages(`unread-messages:${user.id}`, () => loadUnreadMessages())
+  }, [user])
 
   const handleSignOut = async () => {
     try {
@@ -20,6 +42,15 @@ export function Navbar() {
 
   const isActive = (path: string) => location.pathname === path
 
+  const unreadBadge = unreadMessages > 0 && (
+    <span
+      className="ml-2 bg-red-600 text-white text-xs font-medium px-1.5 py-0.5 rounded-full"
+      title={`${unreadMessages} mensaje${unreadMessages !== 1 ? 's' : ''} sin leer`}
+    >
+      {unreadMessages}
+    </span>
+  )
+
   return (
     <nav className="bg-white shadow-lg sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -69,6 +100,18 @@ export function Navbar() {
                     >
                       <FileText className="h-4 w-4 inline mr-2" />
                       Mis Postulaciones
+                      {unreadBadge}
+                    </Link>
+                    <Link
+                      to="/saved-jobs"
+                      className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                        isActive('/saved-jobs')
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      <Bookmark className="h-4 w-4 inline mr-2" />
+                      Guardados
                     </Link>
                   </>
                 )}
@@ -85,10 +128,46 @@ export function Navbar() {
                     >
                       <Building2 className="h-4 w-4 inline mr-2" />
                       Dashboard
+                      {unreadBadge}
+                    </Link>
+                    <Link
+                      to="/candidates"
+                      className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                        isActive('/candidates')
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      <Users className="h-4 w-4 inline mr-2" />
+                      Candidatos
+                    </Link>
+                    <Link
+                      to="/analytics"
+                      className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                        isActive('/analytics')
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      <BarChart3 className="h-4 w-4 inline mr-2" />
+                      Analítica
+                    </Link>
+                    <Link
+                      to="/company"
+                      className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                        isActive('/company')
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      <Building className="h-4 w-4 inline mr-2" />
+                      Empresa
                     </Link>
                   </>
                 )}
 
+                <NotificationBell />
+
                 <Link
                   to="/profile"
                   className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -120,6 +199,17 @@ export function Navbar() {
               </>
             ) : (
               <>
+                <Link
+                  to="/jobs"
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    isActive('/jobs')
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-700 hover:text-blue-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <Briefcase className="h-4 w-4 inline mr-2" />
+                  Empleos
+                </Link>
                 <Link
                   to="/login"
                   className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 transition-colors"
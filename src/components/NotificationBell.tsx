@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { Notification } from '../lib/notifications'
+import { Bell } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { es } from 'date-fns/locale'
+
+export function NotificationBell() {
+  const { notifications, unreadNotificationCount, markNotificationRead, markAllNotificationsRead } = useAuth()
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Cerrar el menú al hacer clic fuera de él
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  const handleNotificationClick = async (notification: Notification) => {
+    await markNotificationRead(notification.id)
+    setIsOpen(false)
+    if (notification.link) {
+      navigate(notification.link)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-gray-700 hover:text-blue-600 hover:bg-gray-50 transition-colors"
+        title="Notificaciones"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadNotificationCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 bg-red-600 text-white text-xs font-medium min-w-[1.25rem] h-5 px-1 rounded-full flex items-center justify-center">
+            {unreadNotificationCount > 9 ? '9+' : unreadNotificationCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-md shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <span className="text-sm font-semibold text-gray-900">Notificaciones</span>
+            {unreadNotificationCount > 0 && (
+              <button
+                onClick={markAllNotificationsRead}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Marcar todas como leídas
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No tienes notificaciones</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleNotificationClick(notification)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${
+                    notification.read_at ? '' : 'bg-blue-50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                  <p className="text-sm text-gray-600">{notification.body}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: es })}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  Resume,
+  fetchResumes,
+  createResume,
+  renameResume,
+  setDefaultResume,
+  deleteResume,
+  extractResumeText,
+  getResumeSignedUrl,
+  formatFileSize,
+  MAX_RESUME_SIZE
+} from '../lib/resumes'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { FileText, Upload, Star, Pencil, Trash2, Check, X, Sparkles } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface ResumeManagerProps {
+  // Recibe el texto extraído del PDF para proponer datos del perfil
+  onTextExtracted?: (text: string) => void
+}
+
+// Lista de versiones de currículum del aspirante. Vive dentro del formulario
+// del perfil, así que todos los botones son type="button" y no hay <form> anidado.
+export function ResumeManager({ onTextExtracted }: ResumeManagerProps) {
+  const { user } = useAuth()
+  const [resumes, setResumes] = useState<Resume[]>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [newLabel, setNewLabel] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingLabel, setEditingLabel] = useState('')
+  const [extractingId, setExtractingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadResumes()
+    }
+  }, [user])
+
+  const loadResumes = async () => {
+    if (!user) return
+
+    try {
+      setResumes(await fetchResumes(user.id))
+    } catch (error) {
+      console.error('Error loading resumes:', error)
+      toast.error('Error al cargar tus currículums')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !user) return
+
+    if (file.type !== 'application/pdf') {
+      toast.error('Solo se permiten archivos PDF')
+      return
+    }
+
+    if (file.size > MAX_RESUME_SIZE) {
+      toast.error('El archivo no debe exceder los 5MB')
+      return
+    }
+
+    setUploading(true)
+    try {
+      // La primera versión subida queda como predeterminada
+      const resume = await createResume(user.id, file, newLabel, resumes.length === 0)
+      setNewLabel('')
+      await loadResumes()
+      toast.success('Currículum subido exitosamente')
+      handleExtract(resume.id)
+    } catch (error) {
+      console.error('Error uploading resume:', error)
+      toast.error((error as Error).message || 'Error al subir currículum')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  // La extracción es un extra: si falla, el currículum ya quedó subido
+  const handleExtract = async (resumeId: string) => {
+    setExtractingId(resumeId)
+    try {
+      const text = await extractResumeText(resumeId)
+      if (text) {
+        onTextExtracted?.(text)
+      } else {
+        toast.error('El PDF no contiene texto seleccionable')
+      }
+    } catch (error) {
+      console.error('Error extracting resume text:', error)
+      toast.error('No se pudo leer el texto del currículum')
+    } finally {
+      setExtractingId(null)
+    }
+  }
+
+  const handleView = async (resume: Resume) => {
+    try {
+      window.open(await getResumeSignedUrl(resume.file_path), '_blank', 'noopener,noreferrer')
+    } catch (error) {
+      console.error('Error opening resume:', error)
+      toast.error('No se pudo abrir el currículum')
+    }
+  }
+
+  const handleRename = async (resumeId: string) => {
+    if (!editingLabel.trim()) return
+
+    try {
+      await renameResume(resumeId, editingLabel)
+      setResumes(prev => prev.map(r => (r.id === resumeId ? { ...r, label: editingLabel.trim() } : r)))
+      setEditingId(null)
+    } catch (error) {
+      console.error('Error renaming resume:', error)
+      toast.error('Error al renombrar el currículum')
+    }
+  }
+
+  const handleSetDefault = async (resumeId: string) => {
+    try {
+      await setDefaultResume(resumeId)
+      setResumes(prev => prev.map(r => ({ ...r, is_default: r.id === resumeId })))
+      toast.success('Currículum predeterminado actualizado')
+    } catch (error) {
+      console.error('Error setting default resume:', error)
+      toast.error('Error al actualizar el currículum predeterminado')
+    }
+  }
+
+  const handleDelete = async (resume: Resume) => {
+    if (!confirm(`¿Eliminar "${resume.label}"?`)) return
+
+    try {
+      const deleted = await deleteResume(resume)
+      if (!deleted) {
+        toast.error('Este currículum está adjunto a una o más postulaciones y no se puede eliminar')
+        return
+      }
+      setResumes(prev => prev.filter(r => r.id !== resume.id))
+      toast.success('Currículum eliminado')
+    } catch (error) {
+      console.error('Error deleting resume:', error)
+      toast.error('Error al eliminar el currículum')
+    }
+  }
+
+  if (loading) {
+    return <div className="animate-pulse h-16 bg-gray-100 rounded-md"></div>
+  }
+
+  return (
+    <div className="space-y-3">
+      {resumes.length === 0 ? (
+        <p className="text-sm text-gray-500">No hay currículum subido</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {resumes.map(resume => (
+            <li key={resume.id} className="flex items-center justify-between px-3 py-2">
+              <div className="flex items-center min-w-0">
+                <FileText className={`h-5 w-5 mr-2 flex-shrink-0 ${resume.is_default ? 'text-green-600' : 'text-gray-400'}`} />
+                {editingId === resume.id ? (
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="text"
+                      autoFocus
+                      value={editingLabel}
+                      onChange={(e) => setEditingLabel(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          handleRename(resume.id)
+                        }
+                      }}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button type="button" onClick={() => handleRename(resume.id)} title="Guardar" className="p-1 text-green-600 hover:text-green-800">
+                      <Check className="h-4 w-4" />
+                    </button>
+                    <button type="button" onClick={() => setEditingId(null)} title="Cancelar" className="p-1 text-gray-400 hover:text-gray-600">
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="min-w-0">
+                    <button
+                      type="button"
+                      onClick={() => handleView(resume)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800 truncate"
+                    >
+                      {resume.label}
+                    </button>
+                    {resume.is_default && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                        Predeterminado
+                      </span>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(resume.created_at), "d 'de' MMMM, yyyy", { locale: es })} · {formatFileSize(resume.file_size)}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {editingId !== resume.id && (
+                <div className="flex items-center space-x-1">
+                  {onTextExtracted && (
+                    <button
+                      type="button"
+                      onClick={() => handleExtract(resume.id)}
+                      disabled={extractingId !== null}
+                      title="Sugerir habilidades y experiencia a partir de este currículum"
+                      className={`p-1 text-gray-400 hover:text-purple-600 disabled:opacity-50 ${extractingId === resume.id ? 'animate-pulse' : ''}`}
+                    >
+                      <Sparkles className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!resume.is_default && (
+                    <button
+                      type="button"
+                      onClick={() => handleSetDefault(resume.id)}
+                      title="Usar como predeterminado"
+                      className="p-1 text-gray-400 hover:text-yellow-500"
+                    >
+                      <Star className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(resume.id)
+                      setEditingLabel(resume.label)
+                    }}
+                    title="Renombrar"
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(resume)}
+                    title="Eliminar"
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="Nombre de la versión (ej. CV Frontend)"
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <label className="cursor-pointer">
+          <input
+            type="file"
+            accept=".pdf"
+            onChange={handleUpload}
+            className="sr-only"
+            disabled={uploading}
+          />
+          <div className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
+            <Upload className="h-4 w-4" />
+            <span>{uploading ? 'Subiendo...' : 'Subir PDF'}</span>
+          </div>
+        </label>
+      </div>
+    </div>
+  )
+}
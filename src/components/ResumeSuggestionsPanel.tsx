@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { ResumeSuggestions } from '../lib/resumeParsing'
+import { Sparkles, X } from 'lucide-react'
+
+interface ResumeSuggestionsPanelProps {
+  suggestions: ResumeSuggestions
+  onAcceptSkills: (skills: string[]) => void
+  onAcceptExperience: (experience: string) => void
+  onDismiss: () => void
+}
+
+// Propuestas extraídas del currículum; el usuario elige qué pasar al formulario del perfil
+export function ResumeSuggestionsPanel({
+  suggestions,
+  onAcceptSkills,
+  onAcceptExperience,
+  onDismiss
+}: ResumeSuggestionsPanelProps) {
+  const [selectedSkills, setSelectedSkills] = useState<string[]>(suggestions.skills)
+
+  const toggleSkill = (skill: string) => {
+    setSelectedSkills(prev =>
+      prev.includes(skill) ? prev.filter(s => s !== skill) : [...prev, skill]
+    )
+  }
+
+  const hasSuggestions = suggestions.skills.length > 0 || suggestions.experience
+
+  return (
+    <div className="rounded-md border border-purple-200 bg-purple-50 p-4">
+      <div className="flex items-start justify-between">
+        <h4 className="flex items-center text-sm font-medium text-purple-900">
+          <Sparkles className="h-4 w-4 mr-2" />
+          Sugerencias de tu currículum
+        </h4>
+        <button type="button" onClick={onDismiss} title="Descartar" className="text-purple-400 hover:text-purple-600">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {!hasSuggestions && (
+        <p className="mt-2 text-sm text-purple-800">
+          No encontramos secciones de habilidades o experiencia en el PDF. Puedes completarlas a mano.
+        </p>
+      )}
+
+      {suggestions.skills.length > 0 && (
+        <div className="mt-3">
+          <p className="text-sm text-purple-800 mb-2">Habilidades encontradas</p>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.skills.map(skill => (
+              <button
+                key={skill}
+                type="button"
+                onClick={() => toggleSkill(skill)}
+                className={`px-2 py-1 text-xs font-medium rounded-full border ${
+                  selectedSkills.includes(skill)
+                    ? 'bg-purple-600 border-purple-600 text-white'
+                    : 'bg-white border-purple-300 text-purple-700'
+                }`}
+              >
+                {skill}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => onAcceptSkills(selectedSkills)}
+            disabled={selectedSkills.length === 0}
+            className="mt-2 text-sm font-medium text-purple-700 hover:text-purple-900 disabled:opacity-50"
+          >
+            Agregar {selectedSkills.length} habilidad{selectedSkills.length !== 1 ? 'es' : ''} al perfil
+          </button>
+        </div>
+      )}
+
+      {suggestions.experience && (
+        <div className="mt-3">
+          <p className="text-sm text-purple-800 mb-2">Experiencia encontrada</p>
+          <p className="text-sm text-gray-700 bg-white rounded-md border border-purple-200 p-2 max-h-32 overflow-y-auto whitespace-pre-line">
+            {suggestions.experience}
+          </p>
+          <button
+            type="button"
+            onClick={() => onAcceptExperience(suggestions.experience)}
+            className="mt-2 text-sm font-medium text-purple-700 hover:text-purple-900"
+          >
+            Usar como experiencia del perfil
+          </button>
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-purple-700">
+        Las sugerencias se copian al formulario; recuerda guardar los cambios.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { saveJob, unsaveJob } from '../lib/savedJobs'
+import { Bookmark } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface SaveJobButtonProps {
+  jobId: string
+  saved: boolean
+  onChange: (saved: boolean) => void
+  showLabel?: boolean
+}
+
+export function SaveJobButton({ jobId, saved, onChange, showLabel = false }: SaveJobButtonProps) {
+  const { user } = useAuth()
+  const [toggling, setToggling] = useState(false)
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // El botón vive dentro de tarjetas que son enlaces
+    e.preventDefault()
+    e.stopPropagation()
+    if (!user || toggling) return
+
+    setToggling(true)
+    try {
+      if (saved) {
+        await unsaveJob(user.id, jobId)
+        toast.success('Empleo eliminado de guardados')
+      } else {
+        await saveJob(user.id, jobId)
+        toast.success('Empleo guardado')
+      }
+      onChange(!saved)
+    } catch (error) {
+      console.error('Error toggling saved job:', error)
+      toast.error('Error al actualizar empleos guardados')
+    } finally {
+      setToggling(false)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={toggling}
+      title={saved ? 'Quitar de guardados' : 'Guardar empleo'}
+      className={`inline-flex items-center p-2 rounded-md transition-colors disabled:opacity-50 ${
+        saved ? 'text-blue-600 hover:text-blue-800' : 'text-gray-400 hover:text-blue-600'
+      }`}
+    >
+      <Bookmark className={`h-5 w-5 ${saved ? 'fill-current' : ''}`} />
+      {showLabel && (
+        <span className="ml-1 text-sm font-medium">{saved ? 'Guardado' : 'Guardar'}</span>
+      )}
+    </button>
+  )
+}
@@ -0,0 +1,261 @@
+import {
+  SCREENING_QUESTION_TYPES,
+  YES_NO_OPTIONS,
+  ScreeningQuestionDraft,
+  ScreeningQuestionType,
+  emptyScreeningQuestion,
+  isChoiceQuestion,
+  supportsKnockout
+} from '../lib/screening'
+import { Plus, Trash2, ChevronUp, ChevronDown, X } from 'lucide-react'
+
+// Errores de validación de cada pregunta tal como los entrega react-hook-form
+export type ScreeningQuestionErrors = ({
+  label?: { message?: string }
+  options?: { message?: string }
+} | undefined)[]
+
+interface ScreeningQuestionsEditorProps {
+  questions: ScreeningQuestionDraft[]
+  onChange: (questions: ScreeningQuestionDraft[]) => void
+  errors?: ScreeningQuestionErrors
+}
+
+// Editor de las preguntas de filtro de un empleo. Las respuestas marcadas como
+// eliminatorias descartan automáticamente la postulación
+export function ScreeningQuestionsEditor({ questions, onChange, errors }: ScreeningQuestionsEditorProps) {
+  const update = (index: number, changes: Partial<ScreeningQuestionDraft>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)))
+  }
+
+  const remove = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index))
+  }
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= questions.length) return
+    const next = [...questions]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  // Al cambiar de tipo se reinician las opciones y respuestas eliminatorias
+  const changeType = (index: number, questionType: ScreeningQuestionType) => {
+    update(index, {
+      question_type: questionType,
+      options: isChoiceQuestion(questionType) ? ['', ''] : [],
+      rejected_answers: [],
+      min_number: null,
+    })
+  }
+
+  const toggleRejected = (index: number, value: string) => {
+    const rejected = questions[index].rejected_answers
+    update(index, {
+      rejected_answers: rejected.includes(value)
+        ? rejected.filter(answer => answer !== value)
+        : [...rejected, value]
+    })
+  }
+
+  const updateOption = (index: number, optionIndex: number, value: string) => {
+    const question = questions[index]
+    const previous = question.options[optionIndex]
+    update(index, {
+      options: question.options.map((option, i) => (i === optionIndex ? value : option)),
+      // La opción renombrada sigue siendo eliminatoria si lo era
+      rejected_answers: question.rejected_answers.map(answer => (answer === previous ? value : answer))
+    })
+  }
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index]
+    const removed = question.options[optionIndex]
+    update(index, {
+      options: question.options.filter((_, i) => i !== optionIndex),
+      rejected_answers: question.rejected_answers.filter(answer => answer !== removed)
+    })
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Preguntas de filtro (Opcional)
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange([...questions, emptyScreeningQuestion()])}
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Agregar pregunta
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Los candidatos las responden al postularse. Si eligen una respuesta eliminatoria,
+        la postulación se rechaza automáticamente.
+      </p>
+
+      {questions.length === 0 ? (
+        <p className="text-sm text-gray-500 border border-dashed border-gray-300 rounded-md px-4 py-6 text-center">
+          Esta vacante no tiene preguntas de filtro
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {questions.map((question, index) => {
+            const questionErrors = errors?.[index]
+            const options = question.question_type === 'yes_no'
+              ? YES_NO_OPTIONS
+              : question.options.filter(option => option.trim()).map(option => ({ value: option, label: option }))
+
+            return (
+              <div key={question.id || index} className="border border-gray-200 rounded-md p-4">
+                <div className="flex items-start space-x-3">
+                  <div className="flex-1 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div className="md:col-span-2">
+                        <input
+                          type="text"
+                          value={question.label}
+                          onChange={(e) => update(index, { label: e.target.value })}
+                          placeholder="ej. ¿Tienes permiso de trabajo en el país?"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        {questionErrors?.label && (
+                          <p className="mt-1 text-sm text-red-600">{questionErrors.label.message}</p>
+                        )}
+                      </div>
+                      <select
+                        value={question.question_type}
+                        onChange={(e) => changeType(index, e.target.value as ScreeningQuestionType)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {SCREENING_QUESTION_TYPES.map(type => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {isChoiceQuestion(question.question_type) && (
+                      <div className="space-y-2">
+                        {question.options.map((option, optionIndex) => (
+                          <div key={optionIndex} className="flex items-center space-x-2">
+                            <input
+                              type="text"
+                              value={option}
+                              onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                              placeholder={`Opción ${optionIndex + 1}`}
+                              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeOption(index, optionIndex)}
+                              className="text-gray-400 hover:text-red-600"
+                              title="Quitar opción"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => update(index, { options: [...question.options, ''] })}
+                          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Agregar opción
+                        </button>
+                        {questionErrors?.options && (
+                          <p className="text-sm text-red-600">{questionErrors.options.message}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {supportsKnockout(question.question_type) && (
+                      <div className="bg-red-50 rounded-md px-3 py-2">
+                        {question.question_type === 'number' ? (
+                          <label className="flex items-center text-sm text-red-800">
+                            <span className="mr-2">Descartar si la respuesta es menor que</span>
+                            <input
+                              type="number"
+                              value={question.min_number ?? ''}
+                              onChange={(e) => update(index, {
+                                min_number: e.target.value === '' ? null : Number(e.target.value)
+                              })}
+                              placeholder="Sin mínimo"
+                              className="w-28 px-2 py-1 text-sm border border-red-200 rounded-md focus:outline-none focus:ring-red-500 focus:border-red-500"
+                            />
+                          </label>
+                        ) : options.length > 0 ? (
+                          <div className="text-sm text-red-800">
+                            <span className="block mb-1">Descartar si responde:</span>
+                            <div className="flex flex-wrap gap-3">
+                              {options.map(option => (
+                                <label key={option.value} className="flex items-center">
+                                  <input
+                                    type="checkbox"
+                                    checked={question.rejected_answers.includes(option.value)}
+                                    onChange={() => toggleRejected(index, option.value)}
+                                    className="h-4 w-4 text-red-600 border-red-300 rounded focus:ring-red-500"
+                                  />
+                                  <span className="ml-1">{option.label}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-red-800">Agrega opciones para elegir las eliminatorias</p>
+                        )}
+                      </div>
+                    )}
+
+                    <label className="flex items-center text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={question.required}
+                        onChange={(e) => update(index, { required: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="ml-2">Respuesta obligatoria</span>
+                    </label>
+                  </div>
+
+                  <div className="flex flex-col items-center space-y-1">
+                    <button
+                      type="button"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Subir"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(index, 1)}
+                      disabled={index === questions.length - 1}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Bajar"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => remove(index)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Eliminar pregunta"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
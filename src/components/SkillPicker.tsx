@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react'
+import { Skill, fetchSkills } from '../lib/skills'
+import { normalizeSkillName } from '../lib/skillMatch'
+import { X, ArrowLeftRight } from 'lucide-react'
+
+interface SkillPickerProps {
+  required: string[]
+  niceToHave: string[]
+  onChange: (required: string[], niceToHave: string[]) => void
+}
+
+const MAX_SUGGESTIONS = 8
+
+// Selector de habilidades requeridas y deseables a partir de la taxonomía.
+// Una habilidad solo puede estar en una de las dos listas.
+export function SkillPicker({ required, niceToHave, onChange }: SkillPickerProps) {
+  const [skills, setSkills] = useState<Skill[]>([])
+
+  useEffect(() => {
+    fetchSkills()
+      .then(setSkills)
+      .catch(error => console.error('Error loading skills:', error))
+  }, [])
+
+  const selected = [...required, ...niceToHave]
+
+  const add = (skillId: string, list: 'required' | 'nice') => {
+    if (selected.includes(skillId)) return
+    if (list === 'required') {
+      onChange([...required, skillId], niceToHave)
+    } else {
+      onChange(required, [...niceToHave, skillId])
+    }
+  }
+
+  const remove = (skillId: string) => {
+    onChange(required.filter(id => id !== skillId), niceToHave.filter(id => id !== skillId))
+  }
+
+  // Pasa la habilidad a la otra lista
+  const move = (skillId: string) => {
+    if (required.includes(skillId)) {
+      onChange(required.filter(id => id !== skillId), [...niceToHave, skillId])
+    } else {
+      onChange([...required, skillId], niceToHave.filter(id => id !== skillId))
+    }
+  }
+
+  const available = skills.filter(skill => !selected.includes(skill.id))
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <SkillList
+        title="Habilidades requeridas"
+        chipClassName="bg-blue-100 text-blue-800"
+        ids={required}
+        skills={skills}
+        available={available}
+        onAdd={(id) => add(id, 'required')}
+        onRemove={remove}
+        onMove={move}
+        moveTitle="Marcar como deseable"
+      />
+      <SkillList
+        title="Habilidades deseables"
+        chipClassName="bg-gray-100 text-gray-800"
+        ids={niceToHave}
+        skills={skills}
+        available={available}
+        onAdd={(id) => add(id, 'nice')}
+        onRemove={remove}
+        onMove={move}
+        moveTitle="Marcar como requerida"
+      />
+    </div>
+  )
+}
+
+interface SkillListProps {
+  title: string
+  chipClassName: string
+  ids: string[]
+  skills: Skill[]
+  available: Skill[]
+  onAdd: (skillId: string) => void
+  onRemove: (skillId: string) => void
+  onMove: (skillId: string) => void
+  moveTitle: string
+}
+
+function SkillList({ title, chipClassName, ids, skills, available, onAdd, onRemove, onMove, moveTitle }: SkillListProps) {
+  const [query, setQuery] = useState('')
+
+  const normalizedQuery = normalizeSkillName(query)
+  const suggestions = normalizedQuery
+    ? available
+        .filter(skill =>
+          [skill.name, ...skill.aliases].some(name => normalizeSkillName(name).includes(normalizedQuery))
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+
+  const handleAdd = (skillId: string) => {
+    onAdd(skillId)
+    setQuery('')
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{title}</label>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {ids.map(id => (
+          <span key={id} className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${chipClassName}`}>
+            {skills.find(skill => skill.id === id)?.name || id}
+            <button type="button" onClick={() => onMove(id)} title={moveTitle} className="ml-1 opacity-60 hover:opacity-100">
+              <ArrowLeftRight className="h-3 w-3" />
+            </button>
+            <button type="button" onClick={() => onRemove(id)} title="Quitar" className="ml-1 opacity-60 hover:opacity-100">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {ids.length === 0 && <span className="text-sm text-gray-400">Ninguna</span>}
+      </div>
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              // Evita enviar el formulario del empleo
+              e.preventDefault()
+              if (suggestions[0]) handleAdd(suggestions[0].id)
+            }
+          }}
+          placeholder="Buscar habilidad (ej. JS, React)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+            {suggestions.map(skill => (
+              <li key={skill.id}>
+                <button
+                  type="button"
+                  onClick={() => handleAdd(skill.id)}
+                  className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  {skill.name}
+                  {skill.aliases.length > 0 && (
+                    <span className="ml-2 text-xs text-gray-400">{skill.aliases.join(', ')}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {normalizedQuery && suggestions.length === 0 && (
+          <p className="mt-1 text-xs text-gray-500">No hay habilidades que coincidan</p>
+        )}
+      </div>
+    </div>
+  )
+}
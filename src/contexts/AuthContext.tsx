@@ -1,5 +1,5 @@
-import React, { createContext, useContext, useEffect, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react'
+import { useNavigate, useLocation, Location } from 'react-router-dom'
 import { 
   supabase,
   AuthUser,
@@ -11,6 +11,15 @@ import {
   resetPassword,
   createUserProfile
 } from '../lib/supabase'
+import {
+  Notification,
+  fetchNotifications,
+  markNotificationRead as markNotificationReadInDb,
+  markAllNotificationsRead as markAllNotificationsReadInDb,
+  subscribeToNotifications
+} from '../lib/notifications'
+import { CompanyMembership, createCompany, fetchCompanyMembership } from '../lib/companies'
+import toast from 'react-hot-toast'
 
 export type Profile = {
   id: string
@@ -21,10 +30,16 @@ export type Profile = {
   location?: string
   skills?: string[]
   experience?: string
-  resume_url?: string
-  company_name?: string
-  company_description?: string
   avatar_url?: string
+  email_digest_events?: string[]
+  // Preferencias para los empleos recomendados
+  preferred_job_type?: 'full-time' | 'part-time' | 'contract' | 'freelance' | null
+  preferred_experience_level?: 'entry' | 'mid' | 'senior' | 'lead' | null
+  preferred_remote_work?: boolean | null
+  min_salary?: number | null
+  min_salary_currency?: string
+  min_salary_period?: 'hourly' | 'monthly' | 'yearly'
+  visible_to_recruiters?: boolean
   created_at?: string
   updated_at?: string
 }
@@ -32,10 +47,21 @@ export type Profile = {
 interface AuthContextType {
   user: AuthUser | null
   profile: Profile | null
+  // Empresa del empleador y su rol en ella (null si aún no pertenece a ninguna)
+  company: CompanyMembership | null
   loading: boolean
   error: string | null
   isAuthenticated: boolean
-  signUp: (email: string, password: string, userData: Partial<Profile>) => Promise<void>
+  notifications: Notification[]
+  unreadNotificationCount: number
+  markNotificationRead: (notificationId: string) => Promise<void>
+  markAllNotificationsRead: () => Promise<void>
+  signUp: (
+    email: string,
+    password: string,
+    userData: Partial<Profile>,
+    company?: { name: string; description: string }
+  ) => Promise<void>
   signIn: (email: string, password: string) => Promise<void>
   signOut: () => Promise<void>
   updateProfile: (updates: Partial<Profile>) => Promise<void>
@@ -57,10 +83,17 @@ export function useAuth() {
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null)
   const [profile, setProfile] = useState<Profile | null>(null)
+  const [company, setCompany] = useState<CompanyMembership | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadNotificationCount, setUnreadNotificationCount] = useState(0)
   const navigate = useNavigate()
+  const location = useLocation()
+  // La carga del perfil ocurre en callbacks de auth, así que leemos la ubicación actual desde una ref
+  const locationRef = useRef(location)
+  locationRef.current = location
 
   const clearError = () => setError(null)
 
@@ -81,13 +114,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         throw new Error('No se encontró el perfil del usuario')
       }
 
+      setCompany(data.user_type === 'employer' ? await fetchCompanyMembership(userId) : null)
       setProfile(data)
       setIsAuthenticated(true)
 
-      // Redirigir solo si estamos en la página de login o registro
+      // Redirigir solo si estamos en la página de login o registro,
+      // volviendo a la página que pidió iniciar sesión si la hay
       const currentPath = window.location.pathname
       if (currentPath === '/login' || currentPath === '/register') {
-        if (data.user_type === 'employer') {
+        const from = (locationRef.current.state as { from?: Location } | null)?.from
+        if (from) {
+          navigate(from, { replace: true })
+        } else if (data.user_type === 'employer') {
           navigate('/dashboard', { replace: true })
         } else {
           navigate('/jobs', { replace: true })
@@ -108,6 +146,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       await supabaseSignOut()
       setUser(null)
       setProfile(null)
+      setCompany(null)
       setIsAuthenticated(false)
       navigate('/login', { replace: true })
     } catch (error: any) {
@@ -129,6 +168,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         } else {
           setUser(null)
           setProfile(null)
+          setCompany(null)
           setIsAuthenticated(false)
         }
       } catch (error: any) {
@@ -148,6 +188,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       } else if (event === 'SIGNED_OUT') {
         setUser(null)
         setProfile(null)
+        setCompany(null)
         setIsAuthenticated(false)
       }
     })
@@ -157,13 +198,74 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [navigate])
 
+  // Efecto para cargar las notificaciones y recibirlas en tiempo real
+  useEffect(() => {
+    if (!user) {
+      setNotifications([])
+      setUnreadNotificationCount(0)
+      return
+    }
+
+    const loadNotifications = async () => {
+      try {
+        const result = await fetchNotifications(user.id)
+        setNotifications(result.notifications)
+        setUnreadNotificationCount(result.unreadCount)
+      } catch (error) {
+        console.error('Error al cargar las notificaciones:', error)
+      }
+    }
+
+    loadNotifications()
+
+    return subscribeToNotifications(user.id, (notification) => {
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)])
+      setUnreadNotificationCount(prev => prev + 1)
+      toast(notification.title, { icon: '🔔' })
+    })
+  }, [user?.id])
+
   const value = {
     user,
     profile,
+    company,
     loading,
     error,
     isAuthenticated,
-    signUp: async (email: string, password: string, userData: Partial<Profile>) => {
+    notifications,
+    unreadNotificationCount,
+    markNotificationRead: async (notificationId: string) => {
+      const notification = notifications.find(n => n.id === notificationId)
+      if (!notification || notification.read_at) return
+
+      try {
+        await markNotificationReadInDb(notificationId)
+        setNotifications(prev => prev.map(n =>
+          n.id === notificationId ? { ...n, read_at: new Date().toISOString() } : n
+        ))
+        setUnreadNotificationCount(prev => Math.max(0, prev - 1))
+      } catch (error) {
+        console.error('Error al marcar la notificación como leída:', error)
+      }
+    },
+    markAllNotificationsRead: async () => {
+      if (!user) return
+
+      try {
+        await markAllNotificationsReadInDb(user.id)
+        const readAt = new Date().toISOString()
+        setNotifications(prev => prev.map(n => ({ ...n, read_at: n.read_at || readAt })))
+        setUnreadNotificationCount(0)
+      } catch (error) {
+        console.error('Error al marcar las notificaciones como leídas:', error)
+      }
+    },
+    signUp: async (
+      email: string,
+      password: string,
+      userData: Partial<Profile>,
+      company?: { name: string; description: string }
+    ) => {
       try {
         setLoading(true)
         clearError()
@@ -174,6 +276,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           } catch (e: any) {
             if (!e.message?.includes('duplicate key')) throw e
           }
+          if (company) {
+            await createCompany(company.name, company.description)
+          }
           await loadUserProfile(user.id)
         }
       } catch (error: any) {
@@ -206,6 +311,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         clearError()
         await supabaseSignOut()
         setProfile(null)
+        setCompany(null)
         setUser(null)
         setIsAuthenticated(false)
         navigate('/login', { replace: true })
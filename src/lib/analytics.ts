@@ -0,0 +1,193 @@
+import { format, subDays, eachDayOfInterval, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { JobStatus } from './jobs'
+
+// Periodo y empleo de los reportes; las fechas van en formato yyyy-MM-dd
+export interface AnalyticsFilters {
+  from: string
+  to: string
+  jobId: string | null
+}
+
+export type ApplicationSource = 'direct' | 'invitation' | 'saved_search'
+
+export const APPLICATION_SOURCE_LABELS: Record<ApplicationSource, string> = {
+  direct: 'Directa',
+  invitation: 'Invitación',
+  saved_search: 'Búsqueda guardada',
+}
+
+// Filas que devuelven las funciones analytics_* (ver la migración wide_lens)
+export interface AnalyticsSummary {
+  views: number
+  applications: number
+  responded: number
+  avg_response_hours: number | null
+  hired: number
+  avg_days_to_hire: number | null
+}
+
+export interface DailyActivity {
+  day: string
+  job_id: string
+  views: number
+  applications: number
+}
+
+export interface FunnelStage {
+  stage_key: string
+  stage_label: string
+  category: string
+  stage_position: number
+  reached: number
+  current_count: number
+}
+
+export interface SourceBreakdown {
+  source: ApplicationSource
+  applications: number
+  hired: number
+}
+
+export interface JobComparison {
+  job_id: string
+  title: string
+  status: JobStatus
+  views: number
+  applications: number
+  responded: number
+  avg_response_hours: number | null
+  hired: number
+  avg_days_to_hire: number | null
+}
+
+export const ANALYTICS_PRESETS = [
+  { days: 7, label: 'Últimos 7 días' },
+  { days: 30, label: 'Últimos 30 días' },
+  { days: 90, label: 'Últimos 90 días' },
+]
+
+export const getPresetRange = (days: number) => ({
+  from: format(subDays(new Date(), days - 1), 'yyyy-MM-dd'),
+  to: format(new Date(), 'yyyy-MM-dd'),
+})
+
+const rangeParams = (companyId: string, filters: AnalyticsFilters) => ({
+  p_company_id: companyId,
+  p_from: filters.from,
+  p_to: filters.to,
+})
+
+export const fetchAnalyticsSummary = async (companyId: string, filters: AnalyticsFilters) => {
+  const { data, error } = await supabase
+    .rpc('analytics_summary', { ...rangeParams(companyId, filters), p_job_id: filters.jobId })
+    .single()
+
+  if (error) throw error
+  return data as AnalyticsSummary
+}
+
+export const fetchDailyActivity = async (companyId: string, filters: AnalyticsFilters) => {
+  const { data, error } = await supabase
+    .rpc('analytics_daily_activity', { ...rangeParams(companyId, filters), p_job_id: filters.jobId })
+
+  if (error) throw error
+  return (data || []) as DailyActivity[]
+}
+
+export const fetchFunnel = async (companyId: string, filters: AnalyticsFilters) => {
+  const { data, error } = await supabase
+    .rpc('analytics_funnel', { ...rangeParams(companyId, filters), p_job_id: filters.jobId })
+
+  if (error) throw error
+  return (data || []) as FunnelStage[]
+}
+
+export const fetchSourceBreakdown = async (companyId: string, filters: AnalyticsFilters) => {
+  const { data, error } = await supabase
+    .rpc('analytics_sources', { ...rangeParams(companyId, filters), p_job_id: filters.jobId })
+
+  if (error) throw error
+  return (data || []) as SourceBreakdown[]
+}
+
+export const fetchJobComparison = async (companyId: string, filters: AnalyticsFilters) => {
+  const { data, error } = await supabase
+    .rpc('analytics_job_comparison', rangeParams(companyId, filters))
+
+  if (error) throw error
+  return (data || []) as JobComparison[]
+}
+
+// Serie diaria de todo el periodo, incluidos los días sin actividad
+export const toDailySeries = (rows: DailyActivity[], filters: AnalyticsFilters) => {
+  const totals = new Map<string, { views: number; applications: number }>()
+  rows.forEach(row => {
+    const total = totals.get(row.day) || { views: 0, applications: 0 }
+    totals.set(row.day, {
+      views: total.views + row.views,
+      applications: total.applications + row.applications,
+    })
+  })
+
+  return eachDayOfInterval({ start: parseISO(filters.from), end: parseISO(filters.to) }).map(date => {
+    const day = format(date, 'yyyy-MM-dd')
+    return { day, ...(totals.get(day) || { views: 0, applications: 0 }) }
+  })
+}
+
+// Porcentaje con un decimal; null cuando no hay base para calcularlo
+export const toRate = (part: number, total: number) =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : null
+
+const VISITOR_ID_KEY = 'visitor_id'
+
+// Identificador anónimo del navegador para contar una visita por día sin sesión
+const getVisitorId = () => {
+  try {
+    let visitorId = localStorage.getItem(VISITOR_ID_KEY)
+    if (!visitorId) {
+      visitorId = crypto.randomUUID()
+      localStorage.setItem(VISITOR_ID_KEY, visitorId)
+    }
+    return visitorId
+  } catch {
+    return null
+  }
+}
+
+// Registra la visita a un empleo; un fallo no debe afectar a la página
+export const recordJobView = async (jobId: string) => {
+  const { error } = await supabase.rpc('record_job_view', {
+    p_job_id: jobId,
+    p_visitor_id: getVisitorId(),
+  })
+
+  if (error) console.error('Error recording job view:', error)
+}
+
+// Fila de la vista job_stats (ver las migraciones clear_count y plain_count)
+export interface JobStats {
+  job_id: string
+  company_id: string
+  views: number
+  unique_viewers: number
+  applications: number
+  view_to_apply_rate: number | null
+}
+
+export const fetchJobStats = async (jobIds: string[]): Promise<Record<string, JobStats>> => {
+  if (jobIds.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from('job_stats')
+    .select('*')
+    .in('job_id', jobIds)
+
+  if (error) throw error
+
+  return ((data || []) as JobStats[]).reduce((result, stats) => {
+    result[stats.job_id] = stats
+    return result
+  }, {} as Record<string, JobStats>)
+}
@@ -0,0 +1,126 @@
+import { format } from 'date-fns'
+import { CsvValue, downloadCsv, downloadFile } from './csv'
+import { createXlsx } from './xlsx'
+import { ZipEntry, createZip, toSafeFileName } from './zip'
+import { PipelineStage, getStageLabel } from './pipeline'
+import { ScreeningQuestion, ScreeningAnswer, formatScreeningAnswer } from './screening'
+import { downloadResumeFile } from './resumes'
+
+// Datos de la postulación que se exportan, tal como los carga JobApplicationsPage
+export interface ExportableApplication {
+  id: string
+  status: string
+  created_at: string
+  applicant: {
+    full_name: string
+    email: string
+    phone?: string
+    location?: string
+    skills?: string[]
+  }
+  resume: {
+    label: string
+    file_path: string
+  } | null
+}
+
+interface ExportContext {
+  jobTitle: string
+  stages: PipelineStage[]
+  questions: ScreeningQuestion[]
+  answers: Record<string, Record<string, ScreeningAnswer>>
+}
+
+// Una fila por postulación y una columna por pregunta de filtro
+const buildApplicationRows = (applications: ExportableApplication[], context: ExportContext) => {
+  const headers = [
+    'Nombre',
+    'Correo',
+    'Teléfono',
+    'Ubicación',
+    'Habilidades',
+    'Etapa',
+    'Fecha de postulación',
+    ...context.questions.map(question => question.label),
+  ]
+
+  const rows: CsvValue[][] = applications.map(app => [
+    app.applicant.full_name,
+    app.applicant.email,
+    app.applicant.phone,
+    app.applicant.location,
+    (app.applicant.skills || []).join(', '),
+    getStageLabel(context.stages, app.status),
+    format(new Date(app.created_at), 'yyyy-MM-dd HH:mm'),
+    ...context.questions.map(question => {
+      const answer = context.answers[app.id]?.[question.id]
+      return answer === undefined ? '' : formatScreeningAnswer(question, answer)
+    }),
+  ])
+
+  return { headers, rows }
+}
+
+// Nombre base de los archivos: título del empleo y fecha de la exportación
+const exportBaseName = (jobTitle: string) =>
+  `${toSafeFileName(jobTitle)} - postulaciones ${format(new Date(), 'yyyy-MM-dd')}`
+
+export const exportApplicationsCsv = (applications: ExportableApplication[], context: ExportContext) => {
+  const { headers, rows } = buildApplicationRows(applications, context)
+  downloadCsv(`${exportBaseName(context.jobTitle)}.csv`, headers, rows)
+}
+
+export const exportApplicationsXlsx = (applications: ExportableApplication[], context: ExportContext) => {
+  const { headers, rows } = buildApplicationRows(applications, context)
+  downloadFile(
+    `${exportBaseName(context.jobTitle)}.xlsx`,
+    createXlsx('Postulaciones', headers, rows),
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  )
+}
+
+const getExtension = (path: string) => {
+  const match = path.match(/\.([a-z0-9]+)$/i)
+  return match ? `.${match[1].toLowerCase()}` : ''
+}
+
+// Descarga los currículums y los empaqueta en un ZIP con el nombre de cada
+// candidato. Devuelve los nombres de los candidatos sin currículum o cuyo
+// archivo no se pudo descargar
+export const exportResumesZip = async (
+  applications: ExportableApplication[],
+  jobTitle: string,
+  onProgress?: (done: number, total: number) => void
+) => {
+  const withResume = applications.filter(app => app.resume)
+  const missing = applications.filter(app => !app.resume).map(app => app.applicant.full_name)
+  const usedNames = new Map<string, number>()
+  const entries: ZipEntry[] = []
+
+  for (const [index, app] of withResume.entries()) {
+    const resume = app.resume
+    if (!resume) continue
+
+    try {
+      const file = await downloadResumeFile(resume.file_path)
+      // Los homónimos se numeran para no sobrescribirse dentro del ZIP
+      const baseName = toSafeFileName(app.applicant.full_name)
+      const count = (usedNames.get(baseName) || 0) + 1
+      usedNames.set(baseName, count)
+      entries.push({
+        name: `${count > 1 ? `${baseName} (${count})` : baseName}${getExtension(resume.file_path)}`,
+        data: new Uint8Array(await file.arrayBuffer()),
+      })
+    } catch (error) {
+      console.error('Error downloading resume:', error)
+      missing.push(app.applicant.full_name)
+    }
+    onProgress?.(index + 1, withResume.length)
+  }
+
+  if (entries.length > 0) {
+    downloadFile(`${exportBaseName(jobTitle)} - CV.zip`, createZip(entries), 'application/zip')
+  }
+
+  return { included: entries.length, missing }
+}
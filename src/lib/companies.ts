@@ -0,0 +1,258 @@
+import { supabase, Database } from './supabase'
+import { JOB_COMPANY_EMBED, JobSearchResult, PUBLIC_JOB_COLUMNS } from './jobs'
+
+export type Company = Database['public']['Tables']['companies']['Row']
+export type CompanyRole = Database['public']['Tables']['company_members']['Row']['role']
+export type CompanyInvitation = Database['public']['Tables']['company_invitations']['Row']
+export type CompanyUpdate = Database['public']['Tables']['companies']['Update']
+
+// Empresa del usuario actual y su rol en ella
+export interface CompanyMembership {
+  company: Company
+  role: CompanyRole
+}
+
+export interface CompanyMember {
+  user_id: string
+  role: CompanyRole
+  created_at: string
+  full_name: string
+  email: string
+}
+
+export type PendingCompanyInvitation = CompanyInvitation & {
+  company: Pick<Company, 'id' | 'name'> | null
+}
+
+export const COMPANY_ROLE_LABELS: Record<CompanyRole, string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  recruiter: 'Reclutador',
+  viewer: 'Solo lectura'
+}
+
+export const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-500', '500+'] as const
+
+// Debe coincidir con companies_slug_format_check (migración bright_facade)
+export const COMPANY_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+const COMPANY_LOGOS_BUCKET = 'company-logos'
+
+export const MAX_COMPANY_LOGO_SIZE = 2 * 1024 * 1024
+
+// Código de Postgres para violación de unicidad
+const UNIQUE_VIOLATION = '23505'
+
+export const getCompanyPath = (slug: string) => `/companies/${slug}`
+
+// Roles que pueden publicar empleos y gestionar postulaciones
+export const canManageJobs = (role: CompanyRole | null | undefined) =>
+  role === 'owner' || role === 'admin' || role === 'recruiter'
+
+// Roles que pueden editar la empresa e invitar o gestionar miembros
+export const canManageCompany = (role: CompanyRole | null | undefined) =>
+  role === 'owner' || role === 'admin'
+
+export const fetchCompanyMembership = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('company_members')
+    .select('role, company:companies (*)')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  // La empresa puede venir como objeto o arreglo según cómo PostgREST infiera la relación
+  const company = (Array.isArray(data.company) ? data.company[0] : data.company) as Company | null
+  return company ? { company, role: data.role as CompanyRole } as CompanyMembership : null
+}
+
+// Datos públicos de la empresa para su página /companies/:slug
+export const fetchCompanyBySlug = async (slug: string) => {
+  const { data, error } = await supabase
+    .from('companies')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as Company | null
+}
+
+// Empleos activos de la empresa; solo se piden columnas públicas para que
+// funcione igual sin sesión
+export const fetchCompanyActiveJobs = async (companyId: string) => {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select(`${PUBLIC_JOB_COLUMNS}, ${JOB_COMPANY_EMBED}`)
+    .eq('company_id', companyId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as unknown as JobSearchResult[]
+}
+
+// Sube el logo a la carpeta de la empresa y devuelve su URL pública
+export const uploadCompanyLogo = async (companyId: string, file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'png'
+  const path = `${companyId}/logo_${Date.now()}.${extension}`
+
+  const { error } = await supabase.storage
+    .from(COMPANY_LOGOS_BUCKET)
+    .upload(path, file, { contentType: file.type })
+
+  if (error) throw error
+
+  return supabase.storage.from(COMPANY_LOGOS_BUCKET).getPublicUrl(path).data.publicUrl
+}
+
+export const createCompany = async (name: string, description: string) => {
+  const { data, error } = await supabase.rpc('create_company', {
+    p_name: name.trim(),
+    p_description: description.trim() || null
+  })
+
+  if (error) throw error
+  return data as string
+}
+
+export const updateCompany = async (companyId: string, updates: CompanyUpdate) => {
+  const { error } = await supabase
+    .from('companies')
+    .update(updates)
+    .eq('id', companyId)
+
+  if (error) {
+    // El único valor único editable es el slug
+    if (error.code === UNIQUE_VIOLATION) {
+      throw new Error('Esa dirección pública ya la usa otra empresa')
+    }
+    throw error
+  }
+}
+
+export const fetchCompanyMembers = async (companyId: string) => {
+  const { data, error } = await supabase
+    .from('company_members')
+    .select('user_id, role, created_at, profile:profiles (full_name, email)')
+    .eq('company_id', companyId)
+    .order('created_at')
+
+  if (error) throw error
+
+  return (data || []).map(member => {
+    const profile = (Array.isArray(member.profile) ? member.profile[0] : member.profile) as
+      { full_name: string; email: string } | null
+    return {
+      user_id: member.user_id,
+      role: member.role,
+      created_at: member.created_at,
+      full_name: profile?.full_name || 'Usuario',
+      email: profile?.email || ''
+    } as CompanyMember
+  })
+}
+
+export const updateMemberRole = async (companyId: string, userId: string, role: CompanyRole) => {
+  const { error } = await supabase
+    .from('company_members')
+    .update({ role })
+    .eq('company_id', companyId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+export const removeCompanyMember = async (companyId: string, userId: string) => {
+  const { error } = await supabase
+    .from('company_members')
+    .delete()
+    .eq('company_id', companyId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+export const fetchCompanyInvitations = async (companyId: string) => {
+  const { data, error } = await supabase
+    .from('company_invitations')
+    .select('*')
+    .eq('company_id', companyId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as CompanyInvitation[]
+}
+
+// Devuelve false si ya había una invitación pendiente para ese correo.
+// El correo lo envía la función edge `send-company-invitation`; si falla,
+// la invitación sigue siendo válida y el invitado la ve al iniciar sesión
+export const inviteToCompany = async (
+  companyId: string,
+  invitedBy: string,
+  email: string,
+  role: CompanyInvitation['role']
+) => {
+  const { data, error } = await supabase
+    .from('company_invitations')
+    .insert({
+      company_id: companyId,
+      email: email.trim().toLowerCase(),
+      role,
+      invited_by: invitedBy
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return false
+    throw error
+  }
+
+  const { error: mailError } = await supabase.functions.invoke('send-company-invitation', {
+    body: { invitation_id: (data as CompanyInvitation).id }
+  })
+  if (mailError) {
+    console.error('Error sending company invitation email:', mailError)
+  }
+
+  return true
+}
+
+export const deleteCompanyInvitation = async (invitationId: string) => {
+  const { error } = await supabase
+    .from('company_invitations')
+    .delete()
+    .eq('id', invitationId)
+
+  if (error) throw error
+}
+
+// Invitaciones pendientes dirigidas al correo del usuario actual (RLS las filtra)
+export const fetchMyCompanyInvitations = async (email: string) => {
+  const { data, error } = await supabase
+    .from('company_invitations')
+    .select('*, company:companies (id, name)')
+    .eq('email', email.trim().toLowerCase())
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return (data || []).map(invitation => ({
+    ...invitation,
+    company: Array.isArray(invitation.company) ? invitation.company[0] : invitation.company
+  })) as PendingCompanyInvitation[]
+}
+
+export const acceptCompanyInvitation = async (invitationId: string) => {
+  const { data, error } = await supabase.rpc('accept_company_invitation', {
+    p_invitation_id: invitationId
+  })
+
+  if (error) throw error
+  return data as string
+}
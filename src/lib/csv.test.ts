@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { toCsv } from './csv'
+
+describe('toCsv', () => {
+  it('neutraliza los textos que una hoja de cálculo ejecutaría como fórmula', () => {
+    const values = ['=HYPERLINK("http://x","y")', '+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd']
+    const csv = toCsv(['valor'], values.map(value => [value]))
+
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      `"'=HYPERLINK(""http://x"",""y"")"`,
+      "'+1",
+      "'-2+3",
+      "'@SUM(A1)",
+      "'\tcmd",
+      `"'\rcmd"`,
+    ])
+  })
+
+  it('deja igual los números y los textos comunes', () => {
+    expect(toCsv(['a', 'b', 'c'], [[-5, 'Ana, María', 'ana@example.com']])).toBe(
+      'a,b,c\r\n-5,"Ana, María",ana@example.com'
+    )
+  })
+})
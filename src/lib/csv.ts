@@ -0,0 +1,30 @@
+export type CsvValue = string | number | boolean | null | undefined
+
+// Excel y Sheets ejecutan como fórmula el texto que empieza con estos caracteres
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+// Los textos que parecen fórmulas llevan un apóstrofo delante para que se
+// muestren tal cual. Las celdas con comas, comillas o saltos de línea van entre comillas
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' && FORMULA_PREFIXES.some(prefix => value.startsWith(prefix))
+    ? `'${value}`
+    : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n')
+
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// El BOM hace que Excel reconozca los acentos del archivo
+export const downloadCsv = (filename: string, headers: string[], rows: CsvValue[][]) =>
+  downloadFile(filename, '\uFEFF' + toCsv(headers, rows), 'text/csv;charset=utf-8')
@@ -100,14 +100,20 @@ class CurrencyService {
   async convertCurrency(amount: number, fromCurrency: string, toCurrency: string): Promise<number> {
     if (fromCurrency === toCurrency) return amount
 
+    // El cache guarda las tasas de una sola moneda base, así que se convierte
+    // con tasas cruzadas para no depender de qué base se descargó primero
     const rates = await this.getRates(fromCurrency)
-    const rate = rates[toCurrency]
-    
-    if (!rate) {
+    const fromRate = rates[fromCurrency]
+    const toRate = rates[toCurrency]
+
+    if (!fromRate) {
+      throw new Error(`Tasa de cambio no disponible para ${fromCurrency}`)
+    }
+    if (!toRate) {
       throw new Error(`Tasa de cambio no disponible para ${toCurrency}`)
     }
 
-    return amount * rate
+    return amount * (toRate / fromRate)
   }
 
   getCurrencySymbol(currency: string): string {
@@ -131,12 +137,18 @@ class CurrencyService {
     return symbols[currency] || currency
   }
 
-  formatCurrency(amount: number, currency: string): string {
+  // Con maxAmount distinto de amount se formatea como rango "$1.000 - $2.000"
+  formatCurrency(amount: number, currency: string, maxAmount?: number): string {
     const symbol = this.getCurrencySymbol(currency)
-    return `${symbol}${amount.toLocaleString('es-ES', { 
+    const format = (value: number) => `${symbol}${value.toLocaleString('es-ES', {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     })}`
+
+    if (maxAmount === undefined || Math.round(maxAmount) === Math.round(amount)) {
+      return format(amount)
+    }
+    return `${format(amount)} - ${format(maxAmount)}`
   }
 }
 
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest'
+import { buildSkillIndex } from './skillMatch'
+import { SkillCatalog } from './skills'
+import { buildImportRows, guessColumnMapping, parseCsv } from './jobImport'
+
+// El módulo importa el cliente de Supabase, que exige las variables de entorno
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const BASE_HEADERS = ['title', 'description', 'requirements', 'location']
+const BASE_CELLS = [
+  'Desarrollador Frontend',
+  'Buscamos una persona para construir y mantener las interfaces de nuestra plataforma.',
+  'Dos años de experiencia con React',
+  'Bogotá',
+]
+
+// Importa una sola fila con los campos obligatorios más las columnas indicadas
+const importRow = (extra: Record<string, string>, catalog: SkillCatalog | null = null) => {
+  const headers = [...BASE_HEADERS, ...Object.keys(extra)]
+  const table = { headers, rows: [[...BASE_CELLS, ...Object.values(extra)]] }
+  return buildImportRows(table, guessColumnMapping(headers), catalog)[0]
+}
+
+describe('parseCsv', () => {
+  it('respeta los separadores, saltos de línea y comillas dentro de un campo entre comillas', () => {
+    const csv = 'titulo,descripcion\r\n"Analista, datos","Primera línea\nsegunda ""línea"""\r\n'
+    expect(parseCsv(csv)).toEqual({
+      headers: ['titulo', 'descripcion'],
+      rows: [['Analista, datos', 'Primera línea\nsegunda "línea"']],
+    })
+  })
+
+  it('detecta el punto y coma que usa Excel en español', () => {
+    expect(parseCsv('titulo;salario\nAnalista;1.500,50')).toEqual({
+      headers: ['titulo', 'salario'],
+      rows: [['Analista', '1.500,50']],
+    })
+  })
+
+  it('quita la marca BOM y omite las filas vacías', () => {
+    expect(parseCsv('\uFEFF title ,location\n\nAnalista,Lima\n,\n')).toEqual({
+      headers: ['title', 'location'],
+      rows: [['Analista', 'Lima']],
+    })
+  })
+})
+
+describe('guessColumnMapping', () => {
+  it('reconoce nombres, etiquetas y alias sin importar acentos, mayúsculas ni guiones', () => {
+    expect(guessColumnMapping(['Puesto', 'Descripción', 'REQUISITOS', 'Ciudad', 'salary_from', 'Salary-To', 'Otra'])).toEqual({
+      title: 0,
+      description: 1,
+      requirements: 2,
+      location: 3,
+      salary_min: 4,
+      salary_max: 5,
+    })
+  })
+
+  it('no asigna la misma columna a dos campos', () => {
+    expect(guessColumnMapping(['Salario', 'Salario máximo'])).toEqual({ salary_min: 0, salary_max: 1 })
+  })
+})
+
+describe('buildImportRows', () => {
+  it('lee cifras con separadores de miles y decimales de distintos formatos', () => {
+    expect(importRow({ salary_min: '1.500.000', salary_max: '2.500.000' }).data).toMatchObject({
+      salary_min: 1500000,
+      salary_max: 2500000,
+    })
+    expect(importRow({ salary_min: '2.500,75', salary_max: '$ 3,000.50' }).data).toMatchObject({
+      salary_min: 2500.75,
+      salary_max: 3000.5,
+    })
+  })
+
+  it('separa un rango "mín - máx" escrito en una sola columna', () => {
+    expect(importRow({ salary: '1.000.000 - 2.000.000' }).data).toMatchObject({
+      salary_min: 1000000,
+      salary_max: 2000000,
+    })
+    expect(importRow({ salary: '30000 to 45000' }).data).toMatchObject({ salary_min: 30000, salary_max: 45000 })
+  })
+
+  it('toma una sola cifra como salario fijo y sin cifras lo deja a convenir', () => {
+    expect(importRow({ salary: '2500' }).data).toMatchObject({ salary_min: 2500, salary_max: 2500 })
+    expect(importRow({}).data).toMatchObject({ salary_negotiable: true })
+  })
+
+  it('informa las cifras que no son números', () => {
+    expect(importRow({ salary_min: 'mucho', salary_max: '2000' }).errors).toEqual(['Salario mínimo: "mucho" no es un número'])
+  })
+
+  it('rechaza una habilidad requerida y deseable a la vez', () => {
+    const skills = [
+      { id: 'react', name: 'React', aliases: ['ReactJS'], category: 'frontend' },
+      { id: 'typescript', name: 'TypeScript', aliases: ['TS'], category: 'frontend' },
+    ]
+    const catalog = {
+      skills,
+      index: buildSkillIndex(skills),
+      byId: new Map(skills.map(skill => [skill.id, skill])),
+    }
+
+    const row = importRow({ salary: '2500', skills: 'React, TypeScript', deseables: 'reactjs' }, catalog)
+    expect(row.data).toBeNull()
+    expect(row.errors).toEqual(['Habilidades deseables: React ya está en las habilidades requeridas'])
+  })
+})
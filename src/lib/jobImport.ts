@@ -0,0 +1,462 @@
+import { format } from 'date-fns'
+import { supabase } from './supabase'
+import { JobFormData, JobStatus, jobSchema, defaultJobFormValues, jobFormToRecord, resolveJobStatus } from './jobs'
+import { SkillCatalog } from './skills'
+import { normalizeSkillName, resolveSkills } from './skillMatch'
+import { CsvValue, downloadCsv } from './csv'
+
+// Columnas de jobs que se pueden importar, con los encabezados que suelen
+// traer las exportaciones de otros portales y ATS
+export type ImportField =
+  | 'title'
+  | 'description'
+  | 'requirements'
+  | 'benefits'
+  | 'location'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_period'
+  | 'salary_negotiable'
+  | 'currency'
+  | 'job_type'
+  | 'experience_level'
+  | 'remote_work'
+  | 'required_skills'
+  | 'nice_to_have_skills'
+  | 'publish_at'
+  | 'expires_at'
+
+interface ImportFieldDefinition {
+  key: ImportField
+  label: string
+  required: boolean
+  aliases: string[]
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'title', label: 'Título', required: true, aliases: ['titulo', 'puesto', 'cargo', 'job title', 'position', 'name'] },
+  { key: 'description', label: 'Descripción', required: true, aliases: ['descripcion', 'job description', 'summary'] },
+  { key: 'requirements', label: 'Requisitos', required: true, aliases: ['qualifications', 'requisitos minimos'] },
+  { key: 'benefits', label: 'Beneficios', required: false, aliases: ['beneficios', 'perks'] },
+  { key: 'location', label: 'Ubicación', required: true, aliases: ['ubicacion', 'ciudad', 'city', 'job location', 'lugar'] },
+  { key: 'salary_min', label: 'Salario mínimo', required: false, aliases: ['salario minimo', 'salario', 'salary', 'min salary', 'salary from', 'base salary'] },
+  { key: 'salary_max', label: 'Salario máximo', required: false, aliases: ['salario maximo', 'max salary', 'salary to'] },
+  { key: 'salary_period', label: 'Periodo de pago', required: false, aliases: ['periodo', 'periodo de pago', 'salary type', 'salary period', 'pay period'] },
+  { key: 'salary_negotiable', label: 'Salario a convenir', required: false, aliases: ['a convenir', 'negociable', 'negotiable'] },
+  { key: 'currency', label: 'Moneda', required: false, aliases: ['moneda', 'salary currency'] },
+  { key: 'job_type', label: 'Tipo de empleo', required: false, aliases: ['tipo', 'tipo de empleo', 'jobtype', 'type', 'employment type'] },
+  { key: 'experience_level', label: 'Nivel de experiencia', required: false, aliases: ['experiencia', 'nivel', 'experience', 'seniority'] },
+  { key: 'remote_work', label: 'Trabajo remoto', required: false, aliases: ['remoto', 'remote', 'remotetype', 'remote type'] },
+  { key: 'required_skills', label: 'Habilidades requeridas', required: false, aliases: ['habilidades', 'skills', 'required skills'] },
+  { key: 'nice_to_have_skills', label: 'Habilidades deseables', required: false, aliases: ['deseables', 'nice to have', 'preferred skills'] },
+  { key: 'publish_at', label: 'Fecha de publicación', required: false, aliases: ['publicacion', 'fecha', 'date', 'posted', 'posted at', 'start date'] },
+  { key: 'expires_at', label: 'Fecha de vencimiento', required: false, aliases: ['vencimiento', 'expiration', 'expiration date', 'expires', 'valid through', 'close date'] },
+]
+
+// Un insert de Supabase con miles de filas es lento y difícil de corregir
+export const MAX_IMPORT_ROWS = 500
+
+// Datos del archivo ya leídos: encabezados y celdas en texto
+export interface ImportTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// Índice de la columna del archivo asignada a cada campo
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export interface ImportRow {
+  // Número de fila en el archivo, contando el encabezado como la primera
+  line: number
+  data: JobFormData | null
+  errors: string[]
+  // Habilidades que no están en la taxonomía y se omiten
+  unknownSkills: string[]
+}
+
+const normalizeHeader = (header: string) =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// CSV con comillas dobles; el separador es la coma o el punto y coma que usa
+// Excel en configuración regional española
+export const parseCsv = (text: string): ImportTable => {
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.split(/\r?\n/, 1)[0]
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ','
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+
+  const [headers = [], ...rows] = records.filter(row => row.some(value => value.trim() !== ''))
+  return { headers: headers.map(header => header.trim()), rows }
+}
+
+const toCellText = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.map(toCellText).join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Las claves de todos los objetos forman los encabezados
+const tableFromRecords = (records: Record<string, unknown>[]): ImportTable => {
+  const headers: string[] = []
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!headers.includes(key)) headers.push(key)
+    }
+  }
+  return { headers, rows: records.map(record => headers.map(header => toCellText(record[header]))) }
+}
+
+// Acepta un arreglo de empleos o un objeto con el arreglo en `jobs`
+export const parseJson = (text: string): ImportTable => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('El archivo JSON no es válido')
+  }
+
+  const records = Array.isArray(parsed) ? parsed : (parsed as { jobs?: unknown } | null)?.jobs
+  if (!Array.isArray(records) || records.some(record => typeof record !== 'object' || record === null || Array.isArray(record))) {
+    throw new Error('El JSON debe ser una lista de empleos o un objeto con la lista en "jobs"')
+  }
+  return tableFromRecords(records as Record<string, unknown>[])
+}
+
+// Feed XML al estilo de los agregadores de empleo: un elemento <job> por
+// vacante (o <item> en feeds RSS) con un elemento hijo por campo
+export const parseXmlFeed = (text: string): ImportTable => {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('El archivo XML no es válido')
+  }
+
+  let jobs = Array.from(document.getElementsByTagName('job'))
+  if (jobs.length === 0) jobs = Array.from(document.getElementsByTagName('item'))
+  if (jobs.length === 0) {
+    throw new Error('El feed XML no contiene elementos <job>')
+  }
+
+  return tableFromRecords(jobs.map(job => {
+    const record: Record<string, string> = {}
+    for (const child of Array.from(job.children)) {
+      // Los campos repetidos (por ejemplo varias <skill>) se juntan en una lista
+      const value = child.textContent?.trim() || ''
+      record[child.tagName] = record[child.tagName] ? `${record[child.tagName]}, ${value}` : value
+    }
+    return record
+  }))
+}
+
+// El formato se elige por la extensión del archivo
+export const parseImportFile = async (file: File): Promise<ImportTable> => {
+  const text = await file.text()
+  const extension = file.name.split('.').pop()?.toLowerCase()
+
+  const table = extension === 'json'
+    ? parseJson(text)
+    : extension === 'xml'
+      ? parseXmlFeed(text)
+      : extension === 'csv' || extension === 'txt'
+        ? parseCsv(text)
+        : null
+
+  if (!table) throw new Error('Formato no admitido. Usa un archivo CSV, JSON o XML')
+  if (table.rows.length === 0) throw new Error('El archivo no contiene empleos')
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`El archivo tiene ${table.rows.length} empleos; el máximo por importación es ${MAX_IMPORT_ROWS}`)
+  }
+  return table
+}
+
+// Asigna cada campo a la primera columna cuyo encabezado coincide con su
+// nombre, su etiqueta o alguno de sus alias
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader)
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalizeHeader)
+    const index = normalized.findIndex((header, i) => !used.has(i) && candidates.includes(header))
+    if (index !== -1) {
+      mapping[field.key] = index
+      used.add(index)
+    }
+  }
+  return mapping
+}
+
+// Valores en español o inglés para los campos con opciones fijas
+const OPTION_ALIASES = {
+  salary_period: {
+    hourly: ['hourly', 'hour', 'hora', 'por hora'],
+    monthly: ['monthly', 'month', 'mes', 'mensual', 'por mes'],
+    yearly: ['yearly', 'year', 'annual', 'annually', 'ano', 'anual', 'por ano'],
+  },
+  job_type: {
+    'full-time': ['full time', 'fulltime', 'tiempo completo', 'jornada completa', 'permanent'],
+    'part-time': ['part time', 'parttime', 'medio tiempo', 'tiempo parcial', 'jornada parcial'],
+    contract: ['contract', 'contractor', 'contrato', 'temporary', 'temporal'],
+    freelance: ['freelance', 'freelancer', 'independiente', 'por proyecto'],
+  },
+  experience_level: {
+    entry: ['entry', 'entry level', 'junior', 'jr', 'trainee', 'inicial', 'sin experiencia'],
+    mid: ['mid', 'mid level', 'intermediate', 'semi senior', 'semisenior', 'ssr', 'intermedio'],
+    senior: ['senior', 'sr', 'experto'],
+    lead: ['lead', 'principal', 'manager', 'lider', 'jefe'],
+  },
+}
+
+const toOption = <T extends string>(value: string, options: Record<T, string[]>) => {
+  const normalized = normalizeHeader(value)
+  return (Object.keys(options) as T[]).find(option =>
+    normalizeHeader(option) === normalized || options[option].includes(normalized)
+  )
+}
+
+const TRUE_VALUES = ['si', 'yes', 'true', '1', 'x', 'remote', 'remoto', 'fully remote']
+const FALSE_VALUES = ['no', 'false', '0', 'onsite', 'on site', 'presencial', '']
+
+const toBoolean = (value: string) => {
+  const normalized = normalizeHeader(value)
+  if (TRUE_VALUES.includes(normalized)) return true
+  if (FALSE_VALUES.includes(normalized)) return false
+  return undefined
+}
+
+// Cifras como "1.500.000", "1,500.50" o "$ 2.500": el último separador es el
+// decimal salvo que le sigan exactamente tres dígitos
+const toNumber = (value: string) => {
+  const cleaned = value.replace(/[^\d.,]/g, '')
+  if (!cleaned) return undefined
+
+  const lastSeparator = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','))
+  const separatorCount = (cleaned.match(/[.,]/g) || []).length
+  const mixed = cleaned.includes('.') && cleaned.includes(',')
+  const decimals = lastSeparator === -1 ? '' : cleaned.slice(lastSeparator + 1)
+  const hasDecimals = lastSeparator !== -1 && (mixed || (separatorCount === 1 && decimals.length !== 3))
+
+  const integer = hasDecimals ? cleaned.slice(0, lastSeparator) : cleaned
+  const number = Number(`${integer.replace(/[.,]/g, '')}${hasDecimals ? `.${decimals}` : ''}`)
+  return Number.isFinite(number) ? number : undefined
+}
+
+const splitList = (value: string) =>
+  value.split(/[,;|\n]/).map(item => item.trim()).filter(Boolean)
+
+// Fecha del archivo en el formato de <input type="datetime-local"> que espera el esquema
+const toDateTimeInput = (value: string) => {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : format(date, "yyyy-MM-dd'T'HH:mm")
+}
+
+const getFieldLabel = (key: string) =>
+  IMPORT_FIELDS.find(field => field.key === key)?.label || key
+
+// Convierte cada fila del archivo en datos del formulario de empleos y la
+// valida con el mismo esquema que CreateJobPage. Los campos sin columna o
+// vacíos toman los valores por defecto del formulario
+export const buildImportRows = (table: ImportTable, mapping: ColumnMapping, catalog: SkillCatalog | null): ImportRow[] =>
+  table.rows.map((cells, index) => {
+    const errors: string[] = []
+    // Campos cuyo valor no se pudo convertir; el esquema no repite el error
+    const invalidFields = new Set<string>()
+    const invalid = (field: ImportField, message: string) => {
+      invalidFields.add(field)
+      errors.push(`${getFieldLabel(field)}: ${message}`)
+    }
+    const unknownSkills: string[] = []
+    const cell = (field: ImportField) => {
+      const column = mapping[field]
+      return column === undefined ? '' : (cells[column] || '').trim()
+    }
+
+    const values: Record<string, unknown> = { ...defaultJobFormValues }
+    const setText = (field: ImportField) => {
+      const value = cell(field)
+      if (value) values[field] = value
+    }
+
+    setText('title')
+    setText('description')
+    setText('requirements')
+    setText('benefits')
+    setText('location')
+
+    const salaryMin = cell('salary_min')
+    const salaryMax = cell('salary_max')
+    // Los feeds suelen traer el rango en una sola columna: "1000 - 2000",
+    const range = !salaryMax ? salaryMin.match(/^(.*\d.*?)(?:\s*[-–]\s*|\s+(?:a|to)\s+)(.*\d.*)$/i) : null
+    // y una sola cifra se toma como salario fijo
+    const salary = {
+      salary_min: range ? range[1] : salaryMin,
+      salary_max: range ? range[2] : salaryMax || salaryMin,
+    }
+    for (const field of ['salary_min', 'salary_max'] as const) {
+      const value = salary[field]
+      if (!value) continue
+      const parsed = toNumber(value)
+      if (parsed === undefined) {
+        invalid(field, `"${value}" no es un número`)
+      } else {
+        values[field] = parsed
+      }
+    }
+
+    if (cell('currency')) values.currency = cell('currency').toUpperCase()
+
+    for (const field of ['salary_period', 'job_type', 'experience_level'] as const) {
+      const value = cell(field)
+      if (!value) continue
+      const option = toOption<string>(value, OPTION_ALIASES[field])
+      if (option) {
+        values[field] = option
+      } else {
+        invalid(field, `"${value}" no es un valor válido`)
+      }
+    }
+
+    for (const field of ['salary_negotiable', 'remote_work'] as const) {
+      const value = cell(field)
+      if (!value) continue
+      const parsed = toBoolean(value)
+      if (parsed === undefined) {
+        invalid(field, `"${value}" no es sí o no`)
+      } else {
+        values[field] = parsed
+      }
+    }
+    // Sin cifras de salario se entiende que es a convenir
+    if (mapping.salary_negotiable === undefined && !salary.salary_min && !salary.salary_max) values.salary_negotiable = true
+
+    for (const field of ['required_skills', 'nice_to_have_skills'] as const) {
+      const names = splitList(cell(field))
+      if (names.length === 0 || !catalog) continue
+      values[field] = resolveSkills(names, catalog.index)
+      unknownSkills.push(...names.filter(name => !catalog.index.has(normalizeSkillName(name))))
+    }
+    // El trigger validate_job_skills rechazaría la fila y con ella toda la importación
+    const required = values.required_skills as string[]
+    const repeated = (values.nice_to_have_skills as string[]).filter(id => required.includes(id))
+    if (repeated.length > 0) {
+      const names = repeated.map(id => catalog?.byId.get(id)?.name || id).join(', ')
+      invalid('nice_to_have_skills', `${names} ya está en las habilidades requeridas`)
+    }
+
+    for (const field of ['publish_at', 'expires_at'] as const) {
+      const value = cell(field)
+      if (!value) continue
+      const date = toDateTimeInput(value)
+      if (date) {
+        values[field] = date
+      } else {
+        invalid(field, `"${value}" no es una fecha válida`)
+      }
+    }
+
+    const result = jobSchema.safeParse(values)
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = String(issue.path[0] ?? '')
+        if (invalidFields.has(field)) continue
+        errors.push(field ? `${getFieldLabel(field)}: ${issue.message}` : issue.message)
+      }
+    }
+
+    return {
+      line: index + 2,
+      data: result.success && errors.length === 0 ? result.data : null,
+      errors,
+      unknownSkills,
+    }
+  })
+
+// Inserta todos los empleos en una sola operación; si alguno falla no se
+// guarda ninguno. Con asDraft quedan como borradores para revisarlos antes
+export const importJobs = async (
+  companyId: string,
+  employerId: string,
+  jobs: JobFormData[],
+  asDraft: boolean
+) => {
+  const { data, error } = await supabase
+    .from('jobs')
+    .insert(jobs.map(job => ({
+      company_id: companyId,
+      employer_id: employerId,
+      ...jobFormToRecord(job),
+      status: asDraft ? 'draft' as JobStatus : resolveJobStatus('published', job.publish_at),
+    })))
+    .select('id')
+
+  if (error) throw error
+  return data?.length || 0
+}
+
+// Archivo de ejemplo con los encabezados que se reconocen automáticamente
+export const downloadImportTemplate = () => {
+  const headers = IMPORT_FIELDS.map(field => field.key)
+  const example: CsvValue[] = [
+    'Desarrollador Frontend',
+    'Buscamos una persona para construir y mantener las interfaces de nuestra plataforma de pagos.',
+    'Dos años de experiencia con React y TypeScript',
+    'Seguro médico y horario flexible',
+    'Bogotá, Colombia',
+    4000000,
+    6000000,
+    'monthly',
+    'no',
+    'COP',
+    'full-time',
+    'mid',
+    'sí',
+    'React, TypeScript',
+    'Tailwind CSS',
+    '',
+    '',
+  ]
+  downloadCsv('plantilla_empleos.csv', headers, [example])
+}
@@ -0,0 +1,323 @@
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { supabase, Database } from './supabase'
+import { SalaryPeriod, SALARY_PERIODS, buildSalaryRangeCondition } from './salary'
+import { SUPPORTED_CURRENCIES } from './currency'
+import { screeningQuestionDraftSchema } from './screening'
+
+// Esquema compartido por los formularios de creación y edición de empleos
+export const jobSchema = z
+  .object({
+    title: z.string().min(5, 'El título debe tener al menos 5 caracteres'),
+    description: z.string().min(50, 'La descripción debe tener al menos 50 caracteres'),
+    requirements: z.string().min(20, 'Los requisitos deben tener al menos 20 caracteres'),
+    benefits: z.string().optional(),
+    location: z.string().min(3, 'La ubicación es requerida'),
+    salary_min: z.coerce.number().optional(),
+    salary_max: z.coerce.number().optional(),
+    salary_period: z.enum(['hourly', 'monthly', 'yearly'], {
+      required_error: 'Selecciona el periodo de pago',
+    }),
+    salary_negotiable: z.boolean().default(false),
+    currency: z
+      .string()
+      .min(1, 'Selecciona una moneda')
+      .refine(code => SUPPORTED_CURRENCIES.some(currency => currency.code === code), 'Moneda no admitida'),
+    job_type: z.enum(['full-time', 'part-time', 'contract', 'freelance'], {
+      required_error: 'Selecciona el tipo de empleo',
+    }),
+    experience_level: z.enum(['entry', 'mid', 'senior', 'lead'], {
+      required_error: 'Selecciona el nivel de experiencia',
+    }),
+    remote_work: z.boolean().default(false),
+    // Ids de la taxonomía de habilidades (tabla skills)
+    required_skills: z.array(z.string()).default([]),
+    nice_to_have_skills: z.array(z.string()).default([]),
+    // Se guardan aparte con saveScreeningQuestions
+    screening_questions: z.array(screeningQuestionDraftSchema).default([]),
+    // Fechas en formato de <input type="datetime-local">; vacío significa "sin fecha"
+    publish_at: z.string().optional(),
+    expires_at: z.string().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.expires_at) {
+      const expiresAt = new Date(data.expires_at)
+      const startsAt = data.publish_at ? new Date(data.publish_at) : new Date()
+      if (expiresAt <= startsAt) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['expires_at'],
+          message: 'La fecha de vencimiento debe ser posterior a la publicación',
+        })
+      }
+    }
+
+    // Un salario a convenir no lleva cifras
+    if (data.salary_negotiable) return
+
+    if (!data.salary_min || data.salary_min < 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['salary_min'],
+        message: 'El salario mínimo debe ser mayor a 0',
+      })
+    } else if (!data.salary_max || data.salary_max < data.salary_min) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['salary_max'],
+        message: 'El salario máximo no puede ser menor al mínimo',
+      })
+    }
+  })
+
+export type JobFormData = z.infer<typeof jobSchema>
+
+export type JobRow = Database['public']['Tables']['jobs']['Row']
+export type JobStatus = JobRow['status']
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: 'Borrador',
+  scheduled: 'Programado',
+  published: 'Publicado',
+  paused: 'Pausado',
+  closed: 'Cerrado',
+  expired: 'Vencido',
+}
+
+export const JOB_STATUS_BADGE_CLASSES: Record<JobStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  published: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  closed: 'bg-red-100 text-red-800',
+  expired: 'bg-orange-100 text-orange-800',
+}
+
+// Estado con el que se guarda un empleo publicado o programado según su fecha
+// de publicación; los borradores y los empleos pausados, cerrados o vencidos
+// solo cambian de estado desde el dashboard
+export const resolveJobStatus = (current: JobStatus, publishAt?: string): JobStatus => {
+  if (current !== 'published' && current !== 'scheduled') return current
+  return publishAt && new Date(publishAt) > new Date() ? 'scheduled' : 'published'
+}
+
+// Fecha de la base de datos en el formato de <input type="datetime-local">
+const toDateTimeInput = (value: string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : ''
+
+// Empleo tal como lo devuelve searchJobs, con el nombre de la empresa dueña
+export type JobSearchResult = Omit<JobRow, 'employer_id' | 'updated_at'> & {
+  employer?: { company_name: string | null; company_slug?: string | null } | null
+}
+
+export const defaultJobFormValues: Partial<JobFormData> = {
+  currency: 'USD',
+  salary_period: 'monthly',
+  salary_negotiable: false,
+  job_type: 'full-time',
+  experience_level: 'mid',
+  remote_work: false,
+  required_skills: [],
+  nice_to_have_skills: [],
+  screening_questions: [],
+}
+
+// Convierte una fila de la tabla jobs en valores para el formulario
+export const jobToFormValues = (job: JobRow): Partial<JobFormData> => ({
+  title: job.title,
+  description: job.description,
+  requirements: job.requirements,
+  benefits: job.benefits || '',
+  location: job.location,
+  salary_min: job.salary_min ?? undefined,
+  salary_max: job.salary_max ?? undefined,
+  salary_period: job.salary_period,
+  salary_negotiable: job.salary_negotiable,
+  currency: job.currency,
+  job_type: job.job_type,
+  experience_level: job.experience_level,
+  remote_work: !!job.remote_work,
+  required_skills: job.required_skills || [],
+  nice_to_have_skills: job.nice_to_have_skills || [],
+  publish_at: toDateTimeInput(job.publish_at),
+  expires_at: toDateTimeInput(job.expires_at),
+})
+
+// Valores del formulario listos para guardar; un salario a convenir se guarda sin cifras
+// y las preguntas de filtro no son columnas de jobs
+export const jobFormToRecord = (data: JobFormData) => {
+  const record: Partial<JobFormData> = { ...data }
+  delete record.screening_questions
+
+  return {
+    ...(record as Omit<JobFormData, 'screening_questions'>),
+    salary_min: data.salary_negotiable ? null : data.salary_min,
+    salary_max: data.salary_negotiable ? null : data.salary_max,
+    publish_at: data.publish_at ? new Date(data.publish_at).toISOString() : null,
+    expires_at: data.expires_at ? new Date(data.expires_at).toISOString() : null,
+  }
+}
+
+// Cierra la vacante y rechaza las postulaciones en proceso; cada candidato
+// recibe la notificación de cambio de estado. Devuelve cuántas se rechazaron
+export const closeJob = async (jobId: string, message?: string) => {
+  const { data, error } = await supabase.rpc('close_job', {
+    p_job_id: jobId,
+    p_message: message?.trim() || null,
+  })
+
+  if (error) throw error
+  return data as number
+}
+
+export type JobSortOption = 'newest' | 'salary_desc' | 'salary_asc' | 'relevance'
+
+export interface JobSearchFilters {
+  searchTerm: string
+  location: string
+  jobType: string
+  experienceLevel: string
+  remoteWork: boolean | ''
+  // Rango salarial buscado, en la moneda y periodo elegidos
+  salaryMin: string
+  salaryMax: string
+  salaryCurrency: string
+  salaryPeriod: SalaryPeriod
+  sort: JobSortOption
+}
+
+export const JOBS_PAGE_SIZE = 10
+
+export const emptyJobSearchFilters: JobSearchFilters = {
+  searchTerm: '',
+  location: '',
+  jobType: '',
+  experienceLevel: '',
+  remoteWork: '',
+  salaryMin: '',
+  salaryMax: '',
+  salaryCurrency: 'USD',
+  salaryPeriod: 'monthly',
+  sort: 'newest',
+}
+
+const SORT_OPTIONS: JobSortOption[] = ['newest', 'salary_desc', 'salary_asc', 'relevance']
+
+// Los montos de distintas monedas o periodos no se pueden ordenar entre sí, así
+// que al ordenar por salario solo se listan los de la moneda y periodo elegidos
+export const isSalarySort = (sort: JobSortOption) => sort === 'salary_desc' || sort === 'salary_asc'
+
+// Lee los filtros de búsqueda desde la query string
+// (?q=&location=&type=&level=&remote=&smin=&smax=&scur=&speriod=&sort=&page=)
+export const parseJobSearchParams = (params: URLSearchParams) => {
+  const sort = params.get('sort') as JobSortOption
+  const remote = params.get('remote')
+  const salaryPeriod = params.get('speriod') as SalaryPeriod
+  const page = parseInt(params.get('page') || '1', 10)
+
+  const filters: JobSearchFilters = {
+    searchTerm: params.get('q') || '',
+    location: params.get('location') || '',
+    jobType: params.get('type') || '',
+    experienceLevel: params.get('level') || '',
+    remoteWork: remote === 'true' ? true : remote === 'false' ? false : '',
+    salaryMin: params.get('smin') || '',
+    salaryMax: params.get('smax') || '',
+    salaryCurrency: params.get('scur') || 'USD',
+    salaryPeriod: SALARY_PERIODS.some(p => p.value === salaryPeriod) ? salaryPeriod : 'monthly',
+    sort: SORT_OPTIONS.includes(sort) ? sort : 'newest',
+  }
+
+  return { filters, page: Number.isNaN(page) || page < 1 ? 1 : page }
+}
+
+// Serializa los filtros omitiendo los valores vacíos para mantener URLs cortas
+export const buildJobSearchParams = (filters: JobSearchFilters, page = 1) => {
+  const params = new URLSearchParams()
+  if (filters.searchTerm) params.set('q', filters.searchTerm)
+  if (filters.location) params.set('location', filters.location)
+  if (filters.jobType) params.set('type', filters.jobType)
+  if (filters.experienceLevel) params.set('level', filters.experienceLevel)
+  if (filters.remoteWork !== '') params.set('remote', String(filters.remoteWork))
+  if (filters.salaryMin) params.set('smin', filters.salaryMin)
+  if (filters.salaryMax) params.set('smax', filters.salaryMax)
+  const usesSalaryUnits = !!(filters.salaryMin || filters.salaryMax) || isSalarySort(filters.sort)
+  if (usesSalaryUnits && filters.salaryCurrency !== 'USD') {
+    params.set('scur', filters.salaryCurrency)
+  }
+  if (usesSalaryUnits && filters.salaryPeriod !== 'monthly') {
+    params.set('speriod', filters.salaryPeriod)
+  }
+  if (filters.sort !== 'newest') params.set('sort', filters.sort)
+  if (page > 1) params.set('page', String(page))
+  return params
+}
+
+// Columnas de jobs que pueden leer los visitantes sin cuenta (ver migración open_window)
+export const PUBLIC_JOB_COLUMNS =
+  'id, company_id, title, description, requirements, benefits, location, salary_min, salary_max, salary_period, salary_negotiable, currency, job_type, experience_level, remote_work, required_skills, nice_to_have_skills, status, expires_at, is_active, created_at'
+
+// Empresa dueña del empleo con el nombre que esperan las páginas (employer.company_name)
+// y el slug de su página pública
+export const JOB_COMPANY_EMBED = 'employer:companies!jobs_company_id_fkey (company_name:name, company_slug:slug)'
+
+// Busca empleos activos aplicando filtros, orden y paginación en el servidor.
+// Los visitantes anónimos solo pueden leer las columnas públicas, así que no
+// usan search_jobs y la relevancia cae a fecha.
+export const searchJobs = async (filters: JobSearchFilters, page: number, anonymous = false) => {
+  const from = (page - 1) * JOBS_PAGE_SIZE
+  const to = from + JOBS_PAGE_SIZE - 1
+  const searchTerm = filters.searchTerm.trim()
+
+  let query = anonymous
+    ? supabase
+        .from('jobs')
+        .select(`${PUBLIC_JOB_COLUMNS}, ${JOB_COMPANY_EMBED}`, { count: 'exact' })
+        .eq('is_active', true)
+    : supabase.rpc('search_jobs', { search_term: searchTerm }, { count: 'exact' })
+
+  if (anonymous && searchTerm) {
+    query = query.textSearch('search_vector', searchTerm, { type: 'websearch', config: 'spanish' })
+  }
+  if (filters.location) query = query.ilike('location', `%${filters.location.trim()}%`)
+  if (filters.jobType) query = query.eq('job_type', filters.jobType)
+  if (filters.experienceLevel) query = query.eq('experience_level', filters.experienceLevel)
+  if (filters.remoteWork !== '') query = query.eq('remote_work', filters.remoteWork)
+
+  const salaryMin = parseFloat(filters.salaryMin)
+  const salaryMax = parseFloat(filters.salaryMax)
+  if (!Number.isNaN(salaryMin) || !Number.isNaN(salaryMax)) {
+    query = query.or(await buildSalaryRangeCondition({
+      min: Number.isNaN(salaryMin) ? null : salaryMin,
+      max: Number.isNaN(salaryMax) ? null : salaryMax,
+      currency: filters.salaryCurrency,
+      period: filters.salaryPeriod,
+    }))
+  }
+  if (isSalarySort(filters.sort)) {
+    query = query.eq('currency', filters.salaryCurrency).eq('salary_period', filters.salaryPeriod)
+  }
+
+  let results = anonymous
+    ? query
+    : query.select(`*, ${JOB_COMPANY_EMBED}`)
+
+  // search_jobs ya devuelve los resultados por relevancia y luego por fecha
+  if (filters.sort === 'newest' || (anonymous && filters.sort === 'relevance')) {
+    results = results.order('created_at', { ascending: false })
+  } else if (filters.sort === 'salary_desc') {
+    results = results.order('salary_max', { ascending: false, nullsFirst: false })
+  } else if (filters.sort === 'salary_asc') {
+    results = results.order('salary_min', { ascending: true, nullsFirst: false })
+  }
+
+  const { data, count, error } = await results.range(from, to)
+  if (error) throw error
+
+  return { jobs: (data || []) as JobSearchResult[], total: count || 0 }
+}
+
+// Enlace para compartir un empleo: la función edge job-meta sirve las etiquetas
+// Open Graph a las redes sociales y redirige a /jobs/:id
+export const getJobShareUrl = (jobId: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/job-meta?id=${jobId}`
@@ -0,0 +1,156 @@
+import { supabase, Database } from './supabase'
+
+export type Message = Database['public']['Tables']['messages']['Row']
+export type MessageTemplate = Database['public']['Tables']['message_templates']['Row']
+
+export const fetchApplicationMessages = async (applicationId: string): Promise<Message[]> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+export const sendApplicationMessage = async (
+  applicationId: string,
+  senderId: string,
+  body: string
+): Promise<Message> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({ application_id: applicationId, sender_id: senderId, body: body.trim() })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Envía un mensaje a cada postulación en una sola inserción
+export const sendBulkMessages = async (
+  senderId: string,
+  messages: { applicationId: string; body: string }[]
+) => {
+  const { error } = await supabase
+    .from('messages')
+    .insert(messages.map(message => ({
+      application_id: message.applicationId,
+      sender_id: senderId,
+      body: message.body.trim()
+    })))
+
+  if (error) throw error
+}
+
+export const markApplicationMessagesRead = async (applicationId: string) => {
+  const { error } = await supabase.rpc('mark_application_messages_read', {
+    p_application_id: applicationId
+  })
+  if (error) throw error
+}
+
+export const getUnreadMessageCount = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('unread_message_count')
+  if (error) throw error
+  return data || 0
+}
+
+// Suscripción a los cambios de mensajes visibles para el usuario (RLS filtra los eventos)
+export const subscribeToMessages = (
+  channelName: string,
+  callback: (message: Message, eventType: 'INSERT' | 'UPDATE') => void,
+  applicationId?: string
+) => {
+  const channel = supabase
+    .channel(channelName)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'messages',
+        ...(applicationId ? { filter: `application_id=eq.${applicationId}` } : {})
+      },
+      (payload) => {
+        if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+          callback(payload.new as Message, payload.eventType)
+        }
+      }
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+// Marcadores que se reemplazan en las plantillas al enviar
+export const TEMPLATE_PLACEHOLDERS = [
+  { key: 'nombre', label: 'Nombre del candidato' },
+  { key: 'empleo', label: 'Título del empleo' },
+  { key: 'empresa', label: 'Nombre de la empresa' },
+]
+
+export const renderMessageTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder)
+
+// Plantillas de partida cuando la empresa aún no ha guardado las suyas
+export const DEFAULT_MESSAGE_TEMPLATES = [
+  {
+    name: 'Seguimos en contacto',
+    body: 'Hola {{nombre}}, gracias por postularte a {{empleo}}. Estamos revisando las postulaciones y te escribiremos pronto con novedades.',
+  },
+  {
+    name: 'Agendar entrevista',
+    body: 'Hola {{nombre}}, nos gustaría conversar contigo sobre la vacante de {{empleo}} en {{empresa}}. ¿Qué días y horarios te vienen bien esta semana?',
+  },
+  {
+    name: 'Proceso cerrado',
+    body: 'Hola {{nombre}}, gracias por tu interés en {{empleo}}. En esta ocasión seguimos con otros perfiles, pero guardaremos tus datos para futuras vacantes en {{empresa}}.',
+  },
+]
+
+// Código de Postgres para violación de unicidad
+const UNIQUE_VIOLATION = '23505'
+
+export const fetchMessageTemplates = async (companyId: string): Promise<MessageTemplate[]> => {
+  const { data, error } = await supabase
+    .from('message_templates')
+    .select('*')
+    .eq('company_id', companyId)
+    .order('name')
+
+  if (error) throw error
+  return data || []
+}
+
+export const createMessageTemplate = async (
+  companyId: string,
+  createdBy: string,
+  name: string,
+  body: string
+): Promise<MessageTemplate> => {
+  const { data, error } = await supabase
+    .from('message_templates')
+    .insert({ company_id: companyId, created_by: createdBy, name: name.trim(), body: body.trim() })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) throw new Error('Ya existe una plantilla con ese nombre')
+    throw error
+  }
+  return data
+}
+
+export const deleteMessageTemplate = async (templateId: string) => {
+  const { error } = await supabase
+    .from('message_templates')
+    .delete()
+    .eq('id', templateId)
+
+  if (error) throw error
+}
@@ -0,0 +1,48 @@
+// Etiquetas <title>, description y Open Graph de la página actual.
+// Las plataformas que no ejecutan JavaScript leen las de la función edge job-meta.
+export interface PageMeta {
+  title: string
+  description: string
+  url?: string
+}
+
+export const DEFAULT_PAGE_TITLE = 'Plataforma de Bolsa de Trabajo Profesional'
+export const DEFAULT_PAGE_DESCRIPTION = 'Encuentra empleo o publica tus vacantes en EmpleosPro'
+
+const META_DESCRIPTION_LENGTH = 160
+
+// Resume un texto largo para usarlo como descripción en una sola línea
+export const toMetaDescription = (text: string) => {
+  const singleLine = text.replace(/\s+/g, ' ').trim()
+  return singleLine.length > META_DESCRIPTION_LENGTH
+    ? `${singleLine.slice(0, META_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+    : singleLine
+}
+
+const setMetaTag = (attribute: 'name' | 'property', key: string, content: string) => {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`)
+  if (!element) {
+    element = document.createElement('meta')
+    element.setAttribute(attribute, key)
+    document.head.appendChild(element)
+  }
+  element.content = content
+}
+
+// Aplica las etiquetas y devuelve una función que restaura el título por defecto
+export const setPageMeta = ({ title, description, url = window.location.href }: PageMeta) => {
+  document.title = `${title} | EmpleosPro`
+  setMetaTag('name', 'description', description)
+  setMetaTag('property', 'og:title', title)
+  setMetaTag('property', 'og:description', description)
+  setMetaTag('property', 'og:url', url)
+  setMetaTag('property', 'og:type', 'website')
+
+  return () => {
+    document.title = DEFAULT_PAGE_TITLE
+    setMetaTag('name', 'description', DEFAULT_PAGE_DESCRIPTION)
+    setMetaTag('property', 'og:title', DEFAULT_PAGE_TITLE)
+    setMetaTag('property', 'og:description', DEFAULT_PAGE_DESCRIPTION)
+    setMetaTag('property', 'og:url', window.location.origin)
+  }
+}
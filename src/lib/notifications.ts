@@ -0,0 +1,94 @@
+import { supabase, Database } from './supabase'
+
+export type Notification = Database['public']['Tables']['notifications']['Row']
+
+// Tipos de notificación que el usuario puede elegir recibir por correo
+export const EMAIL_DIGEST_EVENTS = [
+  {
+    type: 'application_received',
+    label: 'Nuevas postulaciones a mis empleos',
+    userType: 'employer'
+  },
+  {
+    type: 'application_status_changed',
+    label: 'Cambios de estado en mis postulaciones',
+    userType: 'applicant'
+  },
+  {
+    type: 'saved_search_match',
+    label: 'Nuevos empleos para mis búsquedas guardadas',
+    userType: 'applicant'
+  },
+  {
+    type: 'job_invitation',
+    label: 'Invitaciones de empleadores para postularme',
+    userType: 'applicant'
+  }
+] as const
+
+const NOTIFICATIONS_LIMIT = 20
+
+export const fetchNotifications = async (userId: string) => {
+  const [{ data, error }, { count, error: countError }] = await Promise.all([
+    supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATIONS_LIMIT),
+    supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null)
+  ])
+
+  if (error) throw error
+  if (countError) throw countError
+
+  return { notifications: (data || []) as Notification[], unreadCount: count || 0 }
+}
+
+export const markNotificationRead = async (notificationId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .is('read_at', null)
+
+  if (error) throw error
+}
+
+export const markAllNotificationsRead = async (userId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null)
+
+  if (error) throw error
+}
+
+// Suscripción a las notificaciones nuevas del usuario
+export const subscribeToNotifications = (
+  userId: string,
+  callback: (notification: Notification) => void
+) => {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${userId}`
+      },
+      (payload) => callback(payload.new as Notification)
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
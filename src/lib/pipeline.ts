@@ -0,0 +1,113 @@
+import { supabase } from './supabase'
+
+export type StageCategory = 'open' | 'hired' | 'rejected' | 'withdrawn'
+
+export interface PipelineStage {
+  id?: string
+  company_id?: string | null
+  key: string
+  label: string
+  applicant_label: string
+  category: StageCategory
+  position: number
+}
+
+// Etapas del sistema: no se pueden eliminar porque la aplicación depende de ellas
+export const SYSTEM_STAGE_KEYS = ['pending', 'hired', 'rejected', 'withdrawn']
+
+// Copia local del conjunto por defecto sembrado en la migración, usada como respaldo
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { key: 'pending', label: 'Nueva', applicant_label: 'Recibida', category: 'open', position: 0 },
+  { key: 'screening', label: 'Filtro inicial', applicant_label: 'En revisión', category: 'open', position: 1 },
+  { key: 'phone_interview', label: 'Entrevista telefónica', applicant_label: 'En entrevistas', category: 'open', position: 2 },
+  { key: 'technical_interview', label: 'Entrevista técnica', applicant_label: 'En entrevistas', category: 'open', position: 3 },
+  { key: 'offer', label: 'Oferta', applicant_label: 'Oferta en curso', category: 'open', position: 4 },
+  { key: 'hired', label: 'Contratado', applicant_label: '¡Contratado!', category: 'hired', position: 5 },
+  { key: 'rejected', label: 'Rechazado', applicant_label: 'No seleccionada', category: 'rejected', position: 6 },
+  { key: 'withdrawn', label: 'Retirada', applicant_label: 'Retirada', category: 'withdrawn', position: 7 },
+]
+
+const sortStages = (stages: PipelineStage[]) =>
+  [...stages].sort((a, b) => a.position - b.position)
+
+// Carga las etapas de una empresa o, si no las ha personalizado, las del sistema
+export const loadPipelineStages = async (companyId: string): Promise<PipelineStage[]> => {
+  const stagesByCompany = await loadPipelineStagesForCompanies([companyId])
+  return stagesByCompany[companyId]
+}
+
+// Carga las etapas de varias empresas en una sola consulta
+export const loadPipelineStagesForCompanies = async (
+  companyIds: string[]
+): Promise<{ [companyId: string]: PipelineStage[] }> => {
+  const ids = Array.from(new Set(companyIds))
+  let query = supabase.from('pipeline_stages').select('*')
+  query = ids.length > 0
+    ? query.or(`company_id.is.null,company_id.in.(${ids.join(',')})`)
+    : query.is('company_id', null)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const rows = (data || []) as PipelineStage[]
+  const defaults = rows.filter(stage => !stage.company_id)
+  const fallback = sortStages(defaults.length > 0 ? defaults : DEFAULT_PIPELINE_STAGES)
+
+  return ids.reduce((result, id) => {
+    const own = rows.filter(stage => stage.company_id === id)
+    result[id] = own.length > 0 ? sortStages(own) : fallback
+    return result
+  }, {} as { [companyId: string]: PipelineStage[] })
+}
+
+// Reemplaza las etapas de la empresa en una sola transacción. La base de datos
+// rechaza el cambio si quita una etapa que todavía usan sus postulaciones
+export const savePipelineStages = async (companyId: string, stages: PipelineStage[]) => {
+  const { error } = await supabase.rpc('save_pipeline_stages', {
+    p_company_id: companyId,
+    p_stages: stages.map(stage => ({
+      key: stage.key,
+      label: stage.label.trim(),
+      applicant_label: stage.applicant_label.trim(),
+      category: stage.category,
+    }))
+  })
+
+  if (error) throw error
+}
+
+const findStage = (stages: PipelineStage[], key: string) =>
+  stages.find(stage => stage.key === key) ||
+  DEFAULT_PIPELINE_STAGES.find(stage => stage.key === key)
+
+export const getStageLabel = (stages: PipelineStage[], key: string) =>
+  findStage(stages, key)?.label || key
+
+export const getApplicantStageLabel = (stages: PipelineStage[], key: string) =>
+  findStage(stages, key)?.applicant_label || key
+
+export const getStageCategory = (stages: PipelineStage[], key: string): StageCategory =>
+  findStage(stages, key)?.category || 'open'
+
+export const getStageBadgeClass = (category: StageCategory, key?: string) => {
+  if (key === 'pending') return 'bg-yellow-100 text-yellow-800'
+  switch (category) {
+    case 'hired':
+      return 'bg-green-100 text-green-800'
+    case 'rejected':
+      return 'bg-red-100 text-red-800'
+    case 'withdrawn':
+      return 'bg-gray-100 text-gray-800'
+    default:
+      return 'bg-blue-100 text-blue-800'
+  }
+}
+
+// Genera una clave estable a partir del nombre visible de una etapa nueva
+export const stageKeyFromLabel = (label: string) =>
+  label
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
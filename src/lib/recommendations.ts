@@ -0,0 +1,218 @@
+import { supabase } from './supabase'
+import { Profile } from '../contexts/AuthContext'
+import { JOB_COMPANY_EMBED, JobSearchResult } from './jobs'
+import { SalaryPeriod, normalizeSalary } from './salary'
+import { loadSkillCatalog, resolveProfileSkills } from './skills'
+import { computeSkillMatch } from './skillMatch'
+
+// Empleos activos más recientes entre los que se eligen las recomendaciones
+const RECOMMENDATION_POOL_SIZE = 200
+export const RECOMMENDATIONS_LIMIT = 20
+
+const RECENT_DAYS = 7
+
+// Puntos máximos de cada criterio
+const WEIGHTS = {
+  skills: 40,
+  location: 15,
+  remote: 10,
+  jobType: 10,
+  experienceLevel: 10,
+  history: 5,
+  salary: 15,
+  recent: 5
+}
+
+// Los empleos por debajo del salario mínimo no se descartan, pero bajan mucho
+const BELOW_MIN_SALARY_PENALTY = 30
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  'full-time': 'tiempo completo',
+  'part-time': 'medio tiempo',
+  contract: 'contrato',
+  freelance: 'freelance'
+}
+
+const EXPERIENCE_LEVEL_LABELS: Record<string, string> = {
+  entry: 'principiante',
+  mid: 'intermedio',
+  senior: 'senior',
+  lead: 'líder'
+}
+
+export interface RecommendationContext {
+  candidateSkillIds: string[]
+  location: string | null
+  preferredJobType: string | null
+  preferredExperienceLevel: string | null
+  preferredRemoteWork: boolean | null
+  minSalary: number | null
+  // Tipos y niveles de los empleos a los que ya se postuló
+  appliedJobTypes: string[]
+  appliedExperienceLevels: string[]
+  // Salario máximo de cada empleo expresado en la moneda y periodo del mínimo del aspirante
+  convertedSalaries: Map<string, number>
+  now: Date
+}
+
+export interface Recommendation {
+  job: JobSearchResult
+  score: number
+  reasons: string[]
+}
+
+// Sin acentos ni mayúsculas para comparar ubicaciones escritas a mano
+const normalizeLocation = (location: string) =>
+  location
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+
+// Primera parte de "Ciudad, País"
+const getCity = (location: string) => normalizeLocation(location.split(',')[0])
+
+// Puntúa un empleo para el aspirante y explica por qué se recomienda
+export const scoreJob = (job: JobSearchResult, context: RecommendationContext) => {
+  let score = 0
+  const reasons: string[] = []
+
+  const skillMatch = computeSkillMatch(job, context.candidateSkillIds)
+  if (skillMatch && skillMatch.matchedCount > 0) {
+    score += (skillMatch.score / 100) * WEIGHTS.skills
+    reasons.push(`coincides con ${skillMatch.matchedCount} de ${skillMatch.totalCount} habilidades`)
+  }
+
+  const city = context.location ? getCity(context.location) : ''
+  if (city && normalizeLocation(job.location).includes(city)) {
+    score += WEIGHTS.location
+    reasons.push(`está en ${job.location}`)
+  }
+
+  if (job.remote_work && context.preferredRemoteWork) {
+    score += WEIGHTS.remote
+    reasons.push('permite trabajo remoto')
+  } else if (!job.remote_work && context.preferredRemoteWork === false) {
+    score += WEIGHTS.remote
+    reasons.push('es presencial, como prefieres')
+  }
+
+  if (context.preferredJobType && job.job_type === context.preferredJobType) {
+    score += WEIGHTS.jobType
+    reasons.push(`es de ${JOB_TYPE_LABELS[job.job_type]}, como buscas`)
+  }
+
+  if (context.preferredExperienceLevel && job.experience_level === context.preferredExperienceLevel) {
+    score += WEIGHTS.experienceLevel
+    reasons.push(`es para nivel ${EXPERIENCE_LEVEL_LABELS[job.experience_level]}`)
+  }
+
+  // El historial solo suma cuando no hay una preferencia explícita que ya lo cubra
+  const similarType = !context.preferredJobType && context.appliedJobTypes.includes(job.job_type)
+  const similarLevel =
+    !context.preferredExperienceLevel && context.appliedExperienceLevels.includes(job.experience_level)
+  if (similarType || similarLevel) {
+    score += WEIGHTS.history
+    reasons.push('se parece a empleos a los que te postulaste')
+  }
+
+  const convertedSalary = context.convertedSalaries.get(job.id)
+  if (context.minSalary && convertedSalary !== undefined) {
+    if (convertedSalary >= context.minSalary) {
+      score += WEIGHTS.salary
+      reasons.push('paga al menos tu salario mínimo')
+    } else {
+      score -= BELOW_MIN_SALARY_PENALTY
+    }
+  }
+
+  const ageInDays = (context.now.getTime() - new Date(job.created_at).getTime()) / (24 * 60 * 60 * 1000)
+  if (ageInDays <= RECENT_DAYS) {
+    score += WEIGHTS.recent
+  }
+
+  return { score: Math.round(score), reasons }
+}
+
+// Ordena por puntuación; solo se recomiendan empleos con al menos un motivo
+export const rankJobs = (jobs: JobSearchResult[], context: RecommendationContext, limit = RECOMMENDATIONS_LIMIT) =>
+  jobs
+    .map(job => ({ job, ...scoreJob(job, context) }))
+    .filter(recommendation => recommendation.reasons.length > 0 && recommendation.score > 0)
+    .sort((a, b) => b.score - a.score || b.job.created_at.localeCompare(a.job.created_at))
+    .slice(0, limit)
+
+// Convierte el salario máximo de cada empleo a la moneda y periodo del mínimo del aspirante
+const convertJobSalaries = async (jobs: JobSearchResult[], currency: string, period: SalaryPeriod) => {
+  const salaries = new Map<string, number>()
+
+  for (const job of jobs) {
+    if (job.salary_negotiable || job.salary_max === null) continue
+    try {
+      const converted = await normalizeSalary(
+        job.salary_max,
+        { currency: job.currency, period: job.salary_period },
+        { currency, period }
+      )
+      salaries.set(job.id, converted)
+    } catch (error) {
+      console.warn(`Sin tasa de cambio para ${job.currency}, se omite el salario del empleo ${job.id}`, error)
+    }
+  }
+
+  return salaries
+}
+
+// Carga los empleos activos a los que el aspirante no se ha postulado y los ordena
+export const loadRecommendations = async (profile: Profile): Promise<Recommendation[]> => {
+  const [jobsResult, applicationsResult, catalog] = await Promise.all([
+    supabase
+      .from('jobs')
+      .select(`*, ${JOB_COMPANY_EMBED}`)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(RECOMMENDATION_POOL_SIZE),
+    supabase
+      .from('applications')
+      .select('job_id, jobs (job_type, experience_level)')
+      .eq('applicant_id', profile.id),
+    loadSkillCatalog()
+  ])
+
+  if (jobsResult.error) throw jobsResult.error
+  if (applicationsResult.error) throw applicationsResult.error
+
+  // El empleo puede venir como objeto o arreglo según cómo PostgREST infiera la relación
+  const applications = (applicationsResult.data || []).map(app => ({
+    job_id: app.job_id as string,
+    job: (Array.isArray(app.jobs) ? app.jobs[0] : app.jobs) as { job_type: string; experience_level: string } | null
+  }))
+  const appliedJobIds = new Set(applications.map(app => app.job_id))
+  const jobs = ((jobsResult.data || []) as JobSearchResult[]).filter(job => !appliedJobIds.has(job.id))
+
+  const minSalaryCurrency = profile.min_salary_currency || 'USD'
+  const minSalaryPeriod = profile.min_salary_period || 'monthly'
+
+  const context: RecommendationContext = {
+    candidateSkillIds: resolveProfileSkills(profile.skills, catalog),
+    location: profile.location || null,
+    preferredJobType: profile.preferred_job_type || null,
+    preferredExperienceLevel: profile.preferred_experience_level || null,
+    preferredRemoteWork: profile.preferred_remote_work ?? null,
+    minSalary: profile.min_salary || null,
+    appliedJobTypes: applications.flatMap(app => (app.job ? [app.job.job_type] : [])),
+    appliedExperienceLevels: applications.flatMap(app => (app.job ? [app.job.experience_level] : [])),
+    convertedSalaries: profile.min_salary
+      ? await convertJobSalaries(jobs, minSalaryCurrency, minSalaryPeriod)
+      : new Map(),
+    now: new Date()
+  }
+
+  return rankJobs(jobs, context)
+}
+
+// "Coincides con 5 de 7 habilidades · está en Madrid" con la primera letra en mayúscula
+export const formatRecommendationReasons = (reasons: string[]) => {
+  const text = reasons.join(' · ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
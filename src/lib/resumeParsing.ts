@@ -0,0 +1,117 @@
+// Sugerencias de perfil a partir del texto plano de un currículum.
+// Busca las secciones de habilidades y experiencia por sus encabezados más
+// comunes en español e inglés; si no las encuentra no sugiere nada.
+
+export interface ResumeSuggestions {
+  skills: string[]
+  experience: string
+}
+
+const SKILLS_HEADINGS = [
+  'habilidades',
+  'habilidades técnicas',
+  'competencias',
+  'conocimientos',
+  'tecnologías',
+  'herramientas',
+  'skills',
+  'technical skills'
+]
+
+const EXPERIENCE_HEADINGS = [
+  'experiencia',
+  'experiencia laboral',
+  'experiencia profesional',
+  'historial laboral',
+  'experience',
+  'work experience',
+  'professional experience'
+]
+
+// Encabezados que cierran una sección aunque no nos interesen
+const OTHER_HEADINGS = [
+  'educación',
+  'formación',
+  'formación académica',
+  'estudios',
+  'idiomas',
+  'certificaciones',
+  'cursos',
+  'proyectos',
+  'referencias',
+  'perfil',
+  'resumen',
+  'sobre mí',
+  'contacto',
+  'intereses',
+  'education',
+  'languages',
+  'certifications',
+  'projects',
+  'references',
+  'summary',
+  'profile',
+  'contact',
+  'interests'
+]
+
+const MAX_SKILL_LENGTH = 40
+const MAX_EXPERIENCE_LENGTH = 2000
+
+const normalizeHeading = (line: string) =>
+  line
+    .toLowerCase()
+    .replace(/[:•\-–—_*#]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+const isHeadingOf = (line: string, headings: string[]) => headings.includes(normalizeHeading(line))
+
+const isAnyHeading = (line: string) =>
+  isHeadingOf(line, SKILLS_HEADINGS) ||
+  isHeadingOf(line, EXPERIENCE_HEADINGS) ||
+  isHeadingOf(line, OTHER_HEADINGS)
+
+// Devuelve las líneas entre un encabezado de la lista y el siguiente encabezado
+const extractSection = (lines: string[], headings: string[]) => {
+  const start = lines.findIndex(line => isHeadingOf(line, headings))
+  if (start === -1) return []
+
+  const section: string[] = []
+  for (const line of lines.slice(start + 1)) {
+    if (isAnyHeading(line)) break
+    section.push(line)
+  }
+  return section
+}
+
+export const suggestProfileFromResume = (text: string): ResumeSuggestions => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+
+  const skills = extractSection(lines, SKILLS_HEADINGS)
+    .flatMap(line => line.split(/[,;•·|]/))
+    .map(skill => skill.replace(/^[\s\-–—*]+/, '').trim())
+    .filter(skill => skill.length > 1 && skill.length <= MAX_SKILL_LENGTH)
+
+  const experience = extractSection(lines, EXPERIENCE_HEADINGS)
+    .join('\n')
+    .slice(0, MAX_EXPERIENCE_LENGTH)
+
+  // Sin duplicados, respetando el orden del currículum
+  const uniqueSkills = skills.filter(
+    (skill, index) => skills.findIndex(s => s.toLowerCase() === skill.toLowerCase()) === index
+  )
+
+  return { skills: uniqueSkills, experience }
+}
+
+// Une las habilidades actuales del perfil (separadas por comas) con las aceptadas
+export const mergeSkills = (current: string, accepted: string[]) => {
+  const existing = current.split(',').map(s => s.trim()).filter(Boolean)
+  const lowerExisting = existing.map(s => s.toLowerCase())
+  const added = accepted.filter(skill => !lowerExisting.includes(skill.toLowerCase()))
+  return [...existing, ...added].join(', ')
+}
@@ -0,0 +1,146 @@
+import { supabase, Database } from './supabase'
+
+export type Resume = Database['public']['Tables']['resumes']['Row']
+
+const RESUMES_BUCKET = 'resumes'
+
+// Las URLs firmadas se piden justo antes de abrir el archivo, así que basta con poco tiempo
+const SIGNED_URL_EXPIRES_IN = 60
+
+export const MAX_RESUME_SIZE = 5 * 1024 * 1024
+
+// Código de Postgres para violación de clave foránea
+const FOREIGN_KEY_VIOLATION = '23503'
+
+export const fetchResumes = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('*')
+    .eq('user_id', userId)
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as Resume[]
+}
+
+// Sube un currículum a la carpeta privada del usuario y registra la versión
+export const createResume = async (userId: string, file: File, label: string, isDefault: boolean) => {
+  const path = `${userId}/resume_${Date.now()}.pdf`
+
+  const { error: uploadError } = await supabase.storage
+    .from(RESUMES_BUCKET)
+    .upload(path, file, { contentType: 'application/pdf' })
+
+  if (uploadError) throw uploadError
+
+  const { data, error } = await supabase
+    .from('resumes')
+    .insert({
+      user_id: userId,
+      label: label.trim() || file.name.replace(/\.pdf$/i, ''),
+      file_path: path,
+      file_size: file.size,
+      is_default: isDefault
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Sin fila que lo referencie, el archivo quedaría huérfano
+    await supabase.storage.from(RESUMES_BUCKET).remove([path])
+    throw error
+  }
+
+  return data as Resume
+}
+
+export const renameResume = async (resumeId: string, label: string) => {
+  const { error } = await supabase
+    .from('resumes')
+    .update({ label: label.trim() })
+    .eq('id', resumeId)
+
+  if (error) throw error
+}
+
+// Un trigger desmarca el predeterminado anterior
+export const setDefaultResume = async (resumeId: string) => {
+  const { error } = await supabase
+    .from('resumes')
+    .update({ is_default: true })
+    .eq('id', resumeId)
+
+  if (error) throw error
+}
+
+// Devuelve false si la versión está adjunta a alguna postulación y no se puede eliminar
+export const deleteResume = async (resume: Resume) => {
+  const { error } = await supabase
+    .from('resumes')
+    .delete()
+    .eq('id', resume.id)
+
+  if (error) {
+    if (error.code === FOREIGN_KEY_VIOLATION) return false
+    throw error
+  }
+
+  const { error: storageError } = await supabase.storage
+    .from(RESUMES_BUCKET)
+    .remove([resume.file_path])
+
+  if (storageError) console.error('Error deleting resume file:', storageError)
+  return true
+}
+
+// Extrae el texto del PDF en la función edge, que además lo guarda para las búsquedas
+export const extractResumeText = async (resumeId: string) => {
+  const { data, error } = await supabase.functions.invoke<{ text: string }>('extract-resume-text', {
+    body: { resume_id: resumeId }
+  })
+
+  if (error) throw error
+  return data?.text || ''
+}
+
+// Busca en el texto de los currículums indicados y devuelve los ids que coinciden
+export const searchResumes = async (resumeIds: string[], term: string) => {
+  if (resumeIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('id')
+    .in('id', resumeIds)
+    .textSearch('search_vector', term, { type: 'websearch', config: 'spanish' })
+
+  if (error) throw error
+  return (data || []).map(resume => resume.id as string)
+}
+
+// Genera una URL temporal; storage solo la firma para el dueño o para
+// empleadores con una postulación que adjunta ese archivo
+export const getResumeSignedUrl = async (path: string, download = false) => {
+  const { data, error } = await supabase.storage
+    .from(RESUMES_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_EXPIRES_IN, download ? { download: true } : undefined)
+
+  if (error) throw error
+  return data.signedUrl
+}
+
+// Descarga el archivo de un currículum; mismas reglas de acceso que getResumeSignedUrl
+export const downloadResumeFile = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(RESUMES_BUCKET)
+    .download(path)
+
+  if (error) throw error
+  return data
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,66 @@
+import { currencyService, SUPPORTED_CURRENCIES } from './currency'
+
+export type SalaryPeriod = 'hourly' | 'monthly' | 'yearly'
+
+export const SALARY_PERIODS: { value: SalaryPeriod; label: string; suffix: string }[] = [
+  { value: 'hourly', label: 'Por hora', suffix: '/hora' },
+  { value: 'monthly', label: 'Mensual', suffix: '/mes' },
+  { value: 'yearly', label: 'Anual', suffix: '/año' }
+]
+
+// Jornada completa de 40 horas durante 52 semanas
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hourly: 2080,
+  monthly: 12,
+  yearly: 1
+}
+
+export const getSalaryPeriodSuffix = (period: string) =>
+  SALARY_PERIODS.find(p => p.value === period)?.suffix || ''
+
+// Convierte un monto a otra moneda y otro periodo de pago
+export const normalizeSalary = async (
+  amount: number,
+  from: { currency: string; period: SalaryPeriod },
+  to: { currency: string; period: SalaryPeriod }
+) => {
+  const periodAmount = (amount * PERIODS_PER_YEAR[from.period]) / PERIODS_PER_YEAR[to.period]
+  return currencyService.convertCurrency(periodAmount, from.currency, to.currency)
+}
+
+export interface SalaryRangeFilter {
+  min: number | null
+  max: number | null
+  currency: string
+  period: SalaryPeriod
+}
+
+// Construye la condición `or` de PostgREST para filtrar rangos salariales en el
+// servidor: el rango buscado se expresa en cada moneda y periodo, y un empleo
+// coincide si su rango se solapa con él. Los salarios a convenir no tienen
+// cifras y quedan fuera; las monedas sin tasa de cambio también.
+export const buildSalaryRangeCondition = async (filter: SalaryRangeFilter) => {
+  const clauses: string[] = []
+
+  for (const { code } of SUPPORTED_CURRENCIES) {
+    for (const { value: period } of SALARY_PERIODS) {
+      const target = { currency: code, period }
+      try {
+        const conditions = [`currency.eq.${code}`, `salary_period.eq.${period}`]
+        if (filter.min !== null) {
+          const min = await normalizeSalary(filter.min, filter, target)
+          conditions.push(`salary_max.gte.${Math.floor(min)}`)
+        }
+        if (filter.max !== null) {
+          const max = await normalizeSalary(filter.max, filter, target)
+          conditions.push(`salary_min.lte.${Math.ceil(max)}`)
+        }
+        clauses.push(`and(${conditions.join(',')})`)
+      } catch (error) {
+        console.warn(`Sin tasa de cambio para ${code}, se omite del filtro de salario`, error)
+      }
+    }
+  }
+
+  return clauses.join(',')
+}
@@ -0,0 +1,41 @@
+import { supabase } from './supabase'
+
+export const fetchSavedJobIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('saved_jobs')
+    .select('job_id')
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return new Set((data || []).map(row => row.job_id as string))
+}
+
+export const isJobSaved = async (userId: string, jobId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('saved_jobs')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('job_id', jobId)
+    .maybeSingle()
+
+  if (error) throw error
+  return !!data
+}
+
+export const saveJob = async (userId: string, jobId: string) => {
+  const { error } = await supabase
+    .from('saved_jobs')
+    .insert({ user_id: userId, job_id: jobId })
+
+  if (error && !error.message.includes('duplicate key')) throw error
+}
+
+export const unsaveJob = async (userId: string, jobId: string) => {
+  const { error } = await supabase
+    .from('saved_jobs')
+    .delete()
+    .eq('user_id', userId)
+    .eq('job_id', jobId)
+
+  if (error) throw error
+}
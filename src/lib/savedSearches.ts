@@ -0,0 +1,53 @@
+import { supabase, Database } from './supabase'
+import { JobSearchFilters, emptyJobSearchFilters, buildJobSearchParams } from './jobs'
+
+export type SavedSearch = Database['public']['Tables']['saved_searches']['Row']
+
+// Traduce los filtros de JobsPage a las columnas de saved_searches
+export const filtersToSavedSearch = (filters: JobSearchFilters) => ({
+  search_term: filters.searchTerm.trim(),
+  location: filters.location.trim(),
+  job_type: (filters.jobType || null) as SavedSearch['job_type'],
+  experience_level: (filters.experienceLevel || null) as SavedSearch['experience_level'],
+  remote_work: filters.remoteWork === '' ? null : filters.remoteWork,
+})
+
+export const savedSearchToFilters = (search: SavedSearch): JobSearchFilters => ({
+  ...emptyJobSearchFilters,
+  searchTerm: search.search_term,
+  location: search.location,
+  jobType: search.job_type || '',
+  experienceLevel: search.experience_level || '',
+  remoteWork: search.remote_work === null ? '' : search.remote_work,
+})
+
+export const savedSearchUrl = (search: SavedSearch) => {
+  const params = buildJobSearchParams(savedSearchToFilters(search)).toString()
+  return params ? `/jobs?${params}` : '/jobs'
+}
+
+export const hasSearchCriteria = (filters: JobSearchFilters) =>
+  !!(
+    filters.searchTerm.trim() ||
+    filters.location.trim() ||
+    filters.jobType ||
+    filters.experienceLevel ||
+    filters.remoteWork !== ''
+  )
+
+export const createSavedSearch = async (userId: string, name: string, filters: JobSearchFilters) => {
+  const { error } = await supabase
+    .from('saved_searches')
+    .insert({ user_id: userId, name: name.trim(), ...filtersToSavedSearch(filters) })
+
+  if (error) throw error
+}
+
+export const deleteSavedSearch = async (searchId: string) => {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', searchId)
+
+  if (error) throw error
+}
@@ -0,0 +1,258 @@
+import { z } from 'zod'
+import { supabase, Database } from './supabase'
+
+export type ScreeningQuestion = Database['public']['Tables']['screening_questions']['Row']
+export type ScreeningQuestionType = ScreeningQuestion['question_type']
+export type ScreeningKnockout = Database['public']['Tables']['screening_knockouts']['Row']
+export type ApplicationAnswer = Database['public']['Tables']['application_answers']['Row']
+export type ScreeningAnswer = ApplicationAnswer['answer']
+
+export const SCREENING_QUESTION_TYPES: { value: ScreeningQuestionType; label: string }[] = [
+  { value: 'short_text', label: 'Texto corto' },
+  { value: 'long_text', label: 'Texto largo' },
+  { value: 'yes_no', label: 'Sí / No' },
+  { value: 'single_choice', label: 'Opción única' },
+  { value: 'multiple_choice', label: 'Opción múltiple' },
+  { value: 'number', label: 'Número' },
+]
+
+// Las preguntas sí/no guardan 'yes' o 'no' como respuesta
+export const YES_NO_OPTIONS = [
+  { value: 'yes', label: 'Sí' },
+  { value: 'no', label: 'No' },
+]
+
+const CHOICE_TYPES: ScreeningQuestionType[] = ['single_choice', 'multiple_choice']
+
+export const isChoiceQuestion = (type: ScreeningQuestionType) => CHOICE_TYPES.includes(type)
+
+// Tipos que admiten respuestas eliminatorias
+export const supportsKnockout = (type: ScreeningQuestionType) =>
+  type === 'yes_no' || type === 'number' || isChoiceQuestion(type)
+
+// Opciones entre las que elige el aspirante según el tipo de pregunta
+export const getQuestionOptions = (question: Pick<ScreeningQuestion, 'question_type' | 'options'>) =>
+  question.question_type === 'yes_no'
+    ? YES_NO_OPTIONS
+    : question.options.map(option => ({ value: option, label: option }))
+
+// Pregunta tal como se edita en el formulario del empleo, con sus respuestas eliminatorias
+export const screeningQuestionDraftSchema = z
+  .object({
+    id: z.string().optional(),
+    question_type: z.enum(['short_text', 'long_text', 'yes_no', 'single_choice', 'multiple_choice', 'number']),
+    label: z.string().trim().min(3, 'Escribe la pregunta'),
+    options: z.array(z.string()).default([]),
+    required: z.boolean().default(false),
+    rejected_answers: z.array(z.string()).default([]),
+    min_number: z.number().nullable().default(null),
+  })
+  .superRefine((question, ctx) => {
+    if (!isChoiceQuestion(question.question_type)) return
+
+    const options = question.options.map(option => option.trim()).filter(Boolean)
+    if (options.length < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'Agrega al menos dos opciones',
+      })
+    } else if (new Set(options).size !== options.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'Las opciones no se pueden repetir',
+      })
+    } else if (question.question_type === 'single_choice' && question.rejected_answers.length >= options.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'Al menos una opción no debe ser eliminatoria',
+      })
+    }
+  })
+
+export type ScreeningQuestionDraft = z.infer<typeof screeningQuestionDraftSchema>
+
+export const emptyScreeningQuestion = (): ScreeningQuestionDraft => ({
+  question_type: 'short_text',
+  label: '',
+  options: [],
+  required: false,
+  rejected_answers: [],
+  min_number: null,
+})
+
+// El embed de la respuesta eliminatoria puede venir como objeto o arreglo
+type KnockoutEmbed = Pick<ScreeningKnockout, 'rejected_answers' | 'min_number'>
+
+// Preguntas de un empleo en orden. Las respuestas eliminatorias solo llegan
+// a los miembros de la empresa; para los aspirantes quedan vacías
+export const fetchScreeningQuestions = async (jobId: string, withKnockouts = false) => {
+  const { data, error } = await supabase
+    .from('screening_questions')
+    .select(withKnockouts ? '*, knockout:screening_knockouts (rejected_answers, min_number)' : '*')
+    .eq('job_id', jobId)
+    .order('position')
+
+  if (error) throw error
+  return (data || []) as unknown as (ScreeningQuestion & { knockout?: KnockoutEmbed | KnockoutEmbed[] | null })[]
+}
+
+// Preguntas listas para el formulario del empleo
+export const fetchScreeningQuestionDrafts = async (jobId: string): Promise<ScreeningQuestionDraft[]> => {
+  const questions = await fetchScreeningQuestions(jobId, true)
+  return questions.map(question => {
+    const knockout = Array.isArray(question.knockout) ? question.knockout[0] : question.knockout
+    return {
+      id: question.id,
+      question_type: question.question_type,
+      label: question.label,
+      options: question.options,
+      required: question.required,
+      rejected_answers: knockout?.rejected_answers || [],
+      min_number: knockout?.min_number ?? null,
+    }
+  })
+}
+
+// Reemplaza las preguntas del empleo; las que conservan su id mantienen sus respuestas
+export const saveScreeningQuestions = async (jobId: string, questions: ScreeningQuestionDraft[]) => {
+  const { error } = await supabase.rpc('save_screening_questions', {
+    p_job_id: jobId,
+    p_questions: questions.map(question => {
+      const options = isChoiceQuestion(question.question_type)
+        ? question.options.map(option => option.trim()).filter(Boolean)
+        : []
+      return {
+        id: question.id || null,
+        question_type: question.question_type,
+        label: question.label.trim(),
+        options,
+        required: question.required,
+        // Se descartan las respuestas eliminatorias que no aplican al tipo actual
+        rejected_answers: question.question_type === 'yes_no'
+          ? question.rejected_answers.filter(answer => answer === 'yes' || answer === 'no')
+          : question.rejected_answers.filter(answer => options.includes(answer)),
+        min_number: question.question_type === 'number' ? question.min_number : null,
+      }
+    })
+  })
+
+  if (error) throw error
+}
+
+// Valores del formulario de postulación para cada tipo de pregunta
+export type ScreeningAnswerValues = Record<string, string | string[]>
+
+const REQUIRED_MESSAGE = 'Esta pregunta es obligatoria'
+
+// Esquema de las respuestas generado a partir de las preguntas del empleo
+export const buildScreeningAnswersSchema = (questions: ScreeningQuestion[]) =>
+  z.object(
+    Object.fromEntries(
+      questions.map(question => {
+        let field: z.ZodTypeAny
+        switch (question.question_type) {
+          case 'multiple_choice': {
+            const values = z.array(z.string())
+            field = question.required ? values.min(1, 'Elige al menos una opción') : values
+            // Un grupo de casillas sin marcar llega como false
+            field = z.preprocess(value => (Array.isArray(value) ? value : []), field)
+            break
+          }
+          case 'number': {
+            const number = z.string().trim().refine(
+              value => value === '' || !Number.isNaN(Number(value)),
+              'Ingresa un número'
+            )
+            field = question.required ? number.refine(value => value !== '', REQUIRED_MESSAGE) : number
+            break
+          }
+          default: {
+            const text = z.string().trim()
+            field = question.required ? text.min(1, REQUIRED_MESSAGE) : text
+          }
+        }
+        if (question.question_type !== 'multiple_choice') {
+          // Un grupo de radios sin marcar llega como null
+          field = z.preprocess(value => value ?? '', field)
+        }
+        return [question.id, question.required ? field : field.optional()]
+      })
+    )
+  )
+
+// Convierte los valores del formulario en las respuestas que espera submit_application
+export const toScreeningAnswers = (questions: ScreeningQuestion[], values: ScreeningAnswerValues = {}) =>
+  Object.fromEntries(
+    questions.flatMap((question): [string, ScreeningAnswer][] => {
+      const value = values[question.id]
+      if (question.question_type === 'number') {
+        return typeof value === 'string' && value.trim() !== '' ? [[question.id, Number(value)]] : []
+      }
+      if (Array.isArray(value)) return value.length > 0 ? [[question.id, value]] : []
+      return value?.trim() ? [[question.id, value.trim()]] : []
+    })
+  ) as Record<string, ScreeningAnswer>
+
+export const submitApplication = async (
+  jobId: string,
+  coverLetter: string | undefined,
+  resumeId: string | null,
+  answers: Record<string, ScreeningAnswer>
+) => {
+  const { data, error } = await supabase.rpc('submit_application', {
+    p_job_id: jobId,
+    p_cover_letter: coverLetter || null,
+    p_resume_id: resumeId,
+    p_answers: answers,
+  })
+
+  if (error) throw error
+  return data as string
+}
+
+// Respuestas de varias postulaciones agrupadas por postulación y pregunta
+export const fetchApplicationAnswers = async (applicationIds: string[]) => {
+  if (applicationIds.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from('application_answers')
+    .select('*')
+    .in('application_id', applicationIds)
+
+  if (error) throw error
+
+  return ((data || []) as ApplicationAnswer[]).reduce((result, row) => {
+    result[row.application_id] = { ...result[row.application_id], [row.question_id]: row.answer }
+    return result
+  }, {} as Record<string, Record<string, ScreeningAnswer>>)
+}
+
+// Texto legible de una respuesta
+export const formatScreeningAnswer = (question: ScreeningQuestion, answer: ScreeningAnswer | undefined) => {
+  if (answer === undefined || answer === null) return 'Sin respuesta'
+  if (question.question_type === 'yes_no') {
+    return YES_NO_OPTIONS.find(option => option.value === answer)?.label || String(answer)
+  }
+  return Array.isArray(answer) ? answer.join(', ') : String(answer)
+}
+
+// Filtro de postulaciones por respuesta: coincide si la respuesta incluye el
+// valor elegido o, en las numéricas, si es al menos ese valor
+export const answerMatchesFilter = (
+  question: ScreeningQuestion,
+  answer: ScreeningAnswer | undefined,
+  filter: string
+) => {
+  if (answer === undefined || answer === null) return false
+  if (question.question_type === 'number') {
+    return Number(answer) >= Number(filter)
+  }
+  if (Array.isArray(answer)) return answer.includes(filter)
+  if (question.question_type === 'short_text' || question.question_type === 'long_text') {
+    return String(answer).toLowerCase().includes(filter.toLowerCase())
+  }
+  return answer === filter
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { buildSkillIndex, computeSkillMatch, normalizeSkillName, resolveSkills } from './skillMatch'
+
+const index = buildSkillIndex([
+  { id: 'javascript', name: 'JavaScript', aliases: ['JS', 'ECMAScript'] },
+  { id: 'nodejs', name: 'Node.js', aliases: ['Node', 'NodeJS'] },
+  { id: 'diseno-ux', name: 'Diseño UX', aliases: ['Experiencia de usuario'] },
+  { id: 'sql', name: 'SQL', aliases: [] }
+])
+
+describe('normalizeSkillName', () => {
+  it('quita acentos, mayúsculas y espacios de sobra', () => {
+    expect(normalizeSkillName('  Diseño   UX ')).toBe('diseno ux')
+    expect(normalizeSkillName('NODE.JS')).toBe('node.js')
+  })
+})
+
+describe('resolveSkills', () => {
+  it('resuelve nombres, alias e ids a la misma habilidad sin duplicados', () => {
+    expect(resolveSkills(['JavaScript', 'js', 'ecmascript', 'javascript'], index)).toEqual(['javascript'])
+    expect(resolveSkills(['NodeJS', 'SQL'], index)).toEqual(['nodejs', 'sql'])
+  })
+
+  it('no distingue acentos ni mayúsculas', () => {
+    expect(resolveSkills(['DISENO ux', 'experiencia de USUARIO'], index)).toEqual(['diseno-ux'])
+  })
+
+  it('ignora las habilidades que no están en la taxonomía', () => {
+    expect(resolveSkills(['Cobol', 'node'], index)).toEqual(['nodejs'])
+  })
+})
+
+describe('computeSkillMatch', () => {
+  const job = {
+    required_skills: ['javascript', 'nodejs'],
+    nice_to_have_skills: ['sql', 'diseno-ux']
+  }
+
+  it('devuelve null si el empleo no tiene habilidades', () => {
+    expect(computeSkillMatch({ required_skills: [], nice_to_have_skills: [] }, ['javascript'])).toBeNull()
+  })
+
+  it('separa las habilidades cumplidas y faltantes de cada tipo', () => {
+    expect(computeSkillMatch(job, ['javascript', 'sql'])).toEqual({
+      matchedRequired: ['javascript'],
+      missingRequired: ['nodejs'],
+      matchedNiceToHave: ['sql'],
+      missingNiceToHave: ['diseno-ux'],
+      matchedCount: 2,
+      totalCount: 4,
+      score: 50
+    })
+  })
+
+  it('las requeridas pesan el doble que las deseables', () => {
+    // 2 de 6 puntos frente a 4 de 6
+    expect(computeSkillMatch(job, ['sql', 'diseno-ux'])?.score).toBe(33)
+    expect(computeSkillMatch(job, ['javascript', 'nodejs'])?.score).toBe(67)
+  })
+
+  it('da 100 con todas las habilidades y 0 sin ninguna', () => {
+    expect(computeSkillMatch(job, ['javascript', 'nodejs', 'sql', 'diseno-ux'])?.score).toBe(100)
+    expect(computeSkillMatch(job, [])?.score).toBe(0)
+  })
+
+  it('combina la normalización con el cálculo', () => {
+    const candidate = resolveSkills(['JS', 'NODE', 'Diseño ux'], index)
+    expect(computeSkillMatch(job, candidate)?.score).toBe(83)
+  })
+})
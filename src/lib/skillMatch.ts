@@ -0,0 +1,91 @@
+// Coincidencia de habilidades entre un candidato y un empleo.
+// Módulo puro (sin Supabase ni React): recibe la taxonomía ya cargada.
+
+export interface SkillDefinition {
+  id: string
+  name: string
+  aliases: string[]
+}
+
+export interface JobSkills {
+  required_skills: string[]
+  nice_to_have_skills: string[]
+}
+
+export interface SkillMatch {
+  matchedRequired: string[]
+  missingRequired: string[]
+  matchedNiceToHave: string[]
+  missingNiceToHave: string[]
+  matchedCount: number
+  totalCount: number
+  // 0-100; las habilidades requeridas pesan el doble que las deseables
+  score: number
+}
+
+// Mapa de nombre o alias normalizado -> id de la habilidad
+export type SkillIndex = Map<string, string>
+
+const REQUIRED_WEIGHT = 2
+const NICE_TO_HAVE_WEIGHT = 1
+
+// Minúsculas, sin acentos y con espacios simples: "  Node.JS " -> "node.js"
+export const normalizeSkillName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+
+export const buildSkillIndex = (skills: SkillDefinition[]): SkillIndex => {
+  const index: SkillIndex = new Map()
+  for (const skill of skills) {
+    for (const name of [skill.id, skill.name, ...skill.aliases]) {
+      index.set(normalizeSkillName(name), skill.id)
+    }
+  }
+  return index
+}
+
+// Convierte habilidades escritas a mano en ids de la taxonomía, sin duplicados.
+// Las que no están en la taxonomía se ignoran.
+export const resolveSkills = (names: string[], index: SkillIndex) => {
+  const ids = new Set<string>()
+  for (const name of names) {
+    const id = index.get(normalizeSkillName(name))
+    if (id) ids.add(id)
+  }
+  return [...ids]
+}
+
+// Devuelve null si el empleo no tiene habilidades definidas
+export const computeSkillMatch = (job: JobSkills, candidateSkillIds: string[]): SkillMatch | null => {
+  const totalCount = job.required_skills.length + job.nice_to_have_skills.length
+  if (totalCount === 0) return null
+
+  const candidate = new Set(candidateSkillIds)
+  const matchedRequired = job.required_skills.filter(id => candidate.has(id))
+  const missingRequired = job.required_skills.filter(id => !candidate.has(id))
+  const matchedNiceToHave = job.nice_to_have_skills.filter(id => candidate.has(id))
+  const missingNiceToHave = job.nice_to_have_skills.filter(id => !candidate.has(id))
+
+  const maxPoints =
+    job.required_skills.length * REQUIRED_WEIGHT + job.nice_to_have_skills.length * NICE_TO_HAVE_WEIGHT
+  const points =
+    matchedRequired.length * REQUIRED_WEIGHT + matchedNiceToHave.length * NICE_TO_HAVE_WEIGHT
+
+  return {
+    matchedRequired,
+    missingRequired,
+    matchedNiceToHave,
+    missingNiceToHave,
+    matchedCount: matchedRequired.length + matchedNiceToHave.length,
+    totalCount,
+    score: Math.round((points / maxPoints) * 100)
+  }
+}
+
+// Orden descendente por coincidencia; los empleos sin habilidades van al final
+export const compareSkillMatches = (a: SkillMatch | null, b: SkillMatch | null) =>
+  (b?.score ?? -1) - (a?.score ?? -1)
@@ -0,0 +1,47 @@
+import { supabase, Database } from './supabase'
+import { SkillIndex, buildSkillIndex, resolveSkills } from './skillMatch'
+
+export type Skill = Database['public']['Tables']['skills']['Row']
+
+// La taxonomía cambia muy poco; se carga una sola vez por sesión
+let skillsRequest: Promise<Skill[]> | null = null
+
+export const fetchSkills = () => {
+  if (!skillsRequest) {
+    skillsRequest = (async () => {
+      const { data, error } = await supabase
+        .from('skills')
+        .select('id, name, aliases, category')
+        .order('name')
+
+      if (error) throw error
+      return (data || []) as Skill[]
+    })().catch(error => {
+      skillsRequest = null
+      throw error
+    })
+  }
+  return skillsRequest
+}
+
+export interface SkillCatalog {
+  skills: Skill[]
+  index: SkillIndex
+  byId: Map<string, Skill>
+}
+
+export const loadSkillCatalog = async (): Promise<SkillCatalog> => {
+  const skills = await fetchSkills()
+  return {
+    skills,
+    index: buildSkillIndex(skills),
+    byId: new Map(skills.map(skill => [skill.id, skill]))
+  }
+}
+
+// Habilidades del perfil (texto libre) convertidas a ids de la taxonomía
+export const resolveProfileSkills = (profileSkills: string[] | null | undefined, catalog: SkillCatalog) =>
+  resolveSkills(profileSkills || [], catalog.index)
+
+export const getSkillName = (skillId: string, catalog: SkillCatalog | null) =>
+  catalog?.byId.get(skillId)?.name || skillId
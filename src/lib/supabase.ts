@@ -114,9 +114,16 @@ export type Database = {
           location?: string
           skills?: string[]
           experience?: string
-          resume_url?: string
-          company_name?: string
-          company_description?: string
+          email_digest_events?: string[]
+          // Preferencias para los empleos recomendados
+          preferred_job_type?: 'full-time' | 'part-time' | 'contract' | 'freelance' | null
+          preferred_experience_level?: 'entry' | 'mid' | 'senior' | 'lead' | null
+          preferred_remote_work?: boolean | null
+          min_salary?: number | null
+          min_salary_currency?: string
+          min_salary_period?: 'hourly' | 'monthly' | 'yearly'
+          // El aspirante aparece en la búsqueda de candidatos
+          visible_to_recruiters?: boolean
           created_at: string
           updated_at: string
         }
@@ -126,19 +133,34 @@ export type Database = {
       jobs: {
         Row: {
           id: string
-          employer_id: string
+          company_id: string
+          // Reclutador que creó el empleo; nulo si se eliminó su cuenta
+          employer_id: string | null
           title: string
           description: string
           requirements: string
+          benefits?: string
           location: string
-          salary: number
+          salary_min: number | null
+          salary_max: number | null
+          salary_period: 'hourly' | 'monthly' | 'yearly'
+          salary_negotiable: boolean
           currency: string
           job_type: 'full-time' | 'part-time' | 'contract' | 'freelance'
+          experience_level: 'entry' | 'mid' | 'senior' | 'lead'
+          remote_work: boolean
+          // Ids de la tabla skills
+          required_skills: string[]
+          nice_to_have_skills: string[]
+          status: 'draft' | 'scheduled' | 'published' | 'paused' | 'closed' | 'expired'
+          publish_at: string | null
+          expires_at: string | null
+          // Reflejo de status = 'published'; lo mantiene un trigger
           is_active: boolean
           created_at: string
           updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['jobs']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Insert: Omit<Database['public']['Tables']['jobs']['Row'], 'id' | 'created_at' | 'updated_at' | 'is_active'>
         Update: Partial<Database['public']['Tables']['jobs']['Insert']>
       }
       applications: {
@@ -147,13 +169,256 @@ export type Database = {
           job_id: string
           applicant_id: string
           cover_letter?: string
-          status: 'pending' | 'accepted' | 'rejected'
+          // Clave de una fila de pipeline_stages
+          status: string
+          status_note?: string | null
+          resume_id?: string | null
           created_at: string
           updated_at: string
         }
         Insert: Omit<Database['public']['Tables']['applications']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['applications']['Insert']>
       }
+      application_events: {
+        Row: {
+          id: string
+          application_id: string
+          actor_id: string | null
+          event_type: 'created' | 'status_changed'
+          from_status: string | null
+          to_status: string | null
+          note: string | null
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      messages: {
+        Row: {
+          id: string
+          application_id: string
+          sender_id: string
+          body: string
+          read_at: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['messages']['Row'], 'id' | 'read_at' | 'created_at'>
+        Update: Pick<Database['public']['Tables']['messages']['Row'], 'read_at'>
+      }
+      message_templates: {
+        Row: {
+          id: string
+          company_id: string
+          created_by: string | null
+          name: string
+          body: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['message_templates']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Pick<Database['public']['Tables']['message_templates']['Row'], 'name' | 'body'>>
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          title: string
+          body: string
+          link: string | null
+          data: { [key: string]: unknown }
+          read_at: string | null
+          emailed_at: string | null
+          created_at: string
+        }
+        Insert: never
+        Update: Pick<Database['public']['Tables']['notifications']['Row'], 'read_at'>
+      }
+      saved_jobs: {
+        Row: {
+          id: string
+          user_id: string
+          job_id: string
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['saved_jobs']['Row'], 'id' | 'created_at'>
+        Update: never
+      }
+      saved_searches: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          search_term: string
+          location: string
+          job_type: 'full-time' | 'part-time' | 'contract' | 'freelance' | null
+          experience_level: 'entry' | 'mid' | 'senior' | 'lead' | null
+          remote_work: boolean | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['saved_searches']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['saved_searches']['Insert']>
+      }
+      resumes: {
+        Row: {
+          id: string
+          user_id: string
+          label: string
+          file_path: string
+          file_size: number
+          is_default: boolean
+          // Texto plano del PDF, lo rellena la función edge extract-resume-text
+          extracted_text?: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['resumes']['Row'], 'id' | 'created_at'>
+        Update: Partial<Pick<Database['public']['Tables']['resumes']['Row'], 'label' | 'is_default'>>
+      }
+      saved_search_matches: {
+        Row: {
+          id: string
+          saved_search_id: string
+          job_id: string
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      skills: {
+        Row: {
+          id: string
+          name: string
+          aliases: string[]
+          category: string
+        }
+        Insert: never
+        Update: never
+      }
+      talent_pools: {
+        Row: {
+          id: string
+          // Los grupos son de la empresa y los comparten todos sus miembros
+          company_id: string
+          name: string
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['talent_pools']['Row'], 'id' | 'created_at'>
+        Update: Pick<Database['public']['Tables']['talent_pools']['Row'], 'name'>
+      }
+      talent_pool_members: {
+        Row: {
+          pool_id: string
+          candidate_id: string
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['talent_pool_members']['Row'], 'created_at'>
+        Update: never
+      }
+      job_invitations: {
+        Row: {
+          id: string
+          job_id: string
+          // Reclutador que envió la invitación; nulo si se eliminó su cuenta
+          employer_id: string | null
+          candidate_id: string
+          message: string | null
+          status: 'pending' | 'applied' | 'declined'
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['job_invitations']['Row'], 'id' | 'created_at' | 'status'>
+        Update: Pick<Database['public']['Tables']['job_invitations']['Row'], 'status'>
+      }
+      companies: {
+        Row: {
+          id: string
+          // Identificador de la página pública /companies/:slug
+          slug: string
+          name: string
+          logo_url: string | null
+          website: string | null
+          industry: string | null
+          size: '1-10' | '11-50' | '51-200' | '201-500' | '500+' | null
+          location: string | null
+          description: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: never
+        Update: Partial<Omit<Database['public']['Tables']['companies']['Row'], 'id' | 'created_at' | 'updated_at'>>
+      }
+      company_members: {
+        Row: {
+          company_id: string
+          user_id: string
+          role: 'owner' | 'admin' | 'recruiter' | 'viewer'
+          created_at: string
+        }
+        Insert: never
+        Update: Pick<Database['public']['Tables']['company_members']['Row'], 'role'>
+      }
+      company_invitations: {
+        Row: {
+          id: string
+          company_id: string
+          email: string
+          role: 'admin' | 'recruiter' | 'viewer'
+          invited_by: string | null
+          accepted_at: string | null
+          created_at: string
+        }
+        Insert: Pick<Database['public']['Tables']['company_invitations']['Row'], 'company_id' | 'email' | 'role' | 'invited_by'>
+        Update: never
+      }
+      pipeline_stages: {
+        Row: {
+          id: string
+          company_id: string | null
+          key: string
+          label: string
+          applicant_label: string
+          category: 'open' | 'hired' | 'rejected' | 'withdrawn'
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['pipeline_stages']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['pipeline_stages']['Insert']>
+      }
+      // Se escriben con las funciones save_screening_questions y submit_application
+      screening_questions: {
+        Row: {
+          id: string
+          job_id: string
+          position: number
+          question_type: 'short_text' | 'long_text' | 'yes_no' | 'single_choice' | 'multiple_choice' | 'number'
+          label: string
+          options: string[]
+          required: boolean
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      // Solo visibles para los miembros de la empresa
+      screening_knockouts: {
+        Row: {
+          question_id: string
+          rejected_answers: string[]
+          min_number: number | null
+        }
+        Insert: never
+        Update: never
+      }
+      application_answers: {
+        Row: {
+          application_id: string
+          question_id: string
+          answer: string | string[] | number
+        }
+        Insert: never
+        Update: never
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { supabase, Database } from './supabase'
+import { SkillCatalog } from './skills'
+import { normalizeSkillName } from './skillMatch'
+
+export type TalentPool = Database['public']['Tables']['talent_pools']['Row']
+export type JobInvitation = Database['public']['Tables']['job_invitations']['Row']
+
+// Datos públicos de un candidato visible (ver search_candidates en la migración open_roster)
+export interface Candidate {
+  id: string
+  full_name: string
+  location: string | null
+  skills: string[] | null
+  experience: string | null
+  updated_at: string
+}
+
+export interface CandidateSearchFilters {
+  skills: string[]
+  location: string
+  experience: string
+  poolId: string | null
+}
+
+// Variantes con las que un candidato puede haber escrito cada habilidad buscada.
+// Si la habilidad está en la taxonomía se incluyen su nombre y todos sus alias.
+const buildSkillGroups = (skills: string[], catalog: SkillCatalog | null) =>
+  skills.map(skill => {
+    const skillId = catalog?.index.get(normalizeSkillName(skill))
+    const known = skillId ? catalog?.byId.get(skillId) : undefined
+    const names = known ? [known.name, ...known.aliases] : [skill]
+    const variants = names.flatMap(name => [name.trim().toLowerCase(), normalizeSkillName(name)])
+    return [...new Set(variants)]
+  })
+
+export const searchCandidates = async (filters: CandidateSearchFilters, catalog: SkillCatalog | null) => {
+  const { data, error } = await supabase.rpc('search_candidates', {
+    skill_groups: buildSkillGroups(filters.skills, catalog),
+    search_location: filters.location.trim(),
+    search_experience: filters.experience.trim(),
+    pool: filters.poolId
+  })
+
+  if (error) throw error
+  return (data || []) as Candidate[]
+}
+
+// Grupos de talento de la empresa, compartidos por todos sus miembros
+export const fetchTalentPools = async (companyId: string) => {
+  const { data, error } = await supabase
+    .from('talent_pools')
+    .select('*')
+    .eq('company_id', companyId)
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as TalentPool[]
+}
+
+export const createTalentPool = async (companyId: string, name: string) => {
+  const { data, error } = await supabase
+    .from('talent_pools')
+    .insert({ company_id: companyId, name: name.trim() })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as TalentPool
+}
+
+export const deleteTalentPool = async (poolId: string) => {
+  const { error } = await supabase
+    .from('talent_pools')
+    .delete()
+    .eq('id', poolId)
+
+  if (error) throw error
+}
+
+// Grupos en los que está cada candidato: candidate_id -> ids de grupos
+export const fetchPoolMemberships = async (poolIds: string[]) => {
+  const memberships = new Map<string, string[]>()
+  if (poolIds.length === 0) return memberships
+
+  const { data, error } = await supabase
+    .from('talent_pool_members')
+    .select('pool_id, candidate_id')
+    .in('pool_id', poolIds)
+
+  if (error) throw error
+
+  for (const { pool_id, candidate_id } of data || []) {
+    memberships.set(candidate_id, [...(memberships.get(candidate_id) || []), pool_id])
+  }
+  return memberships
+}
+
+export const addToTalentPool = async (poolId: string, candidateId: string) => {
+  const { error } = await supabase
+    .from('talent_pool_members')
+    .insert({ pool_id: poolId, candidate_id: candidateId })
+
+  if (error) throw error
+}
+
+export const removeFromTalentPool = async (poolId: string, candidateId: string) => {
+  const { error } = await supabase
+    .from('talent_pool_members')
+    .delete()
+    .eq('pool_id', poolId)
+    .eq('candidate_id', candidateId)
+
+  if (error) throw error
+}
+
+// Código de Postgres para violación de unicidad
+const UNIQUE_VIOLATION = '23505'
+
+// Devuelve false si el candidato ya estaba invitado a ese empleo
+export const inviteCandidate = async (employerId: string, jobId: string, candidateId: string, message: string) => {
+  const { error } = await supabase
+    .from('job_invitations')
+    .insert({
+      employer_id: employerId,
+      job_id: jobId,
+      candidate_id: candidateId,
+      message: message.trim() || null
+    })
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return false
+    throw error
+  }
+  return true
+}
+
+// Invitaciones enviadas por cualquier miembro de la empresa a sus empleos
+export const fetchSentInvitations = async (jobIds: string[]) => {
+  if (jobIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('job_invitations')
+    .select('*')
+    .in('job_id', jobIds)
+
+  if (error) throw error
+  return (data || []) as JobInvitation[]
+}
+
+// Invitación pendiente del candidato para un empleo, si la hay
+export const fetchPendingInvitation = async (candidateId: string, jobId: string) => {
+  const { data, error } = await supabase
+    .from('job_invitations')
+    .select('*')
+    .eq('candidate_id', candidateId)
+    .eq('job_id', jobId)
+    .eq('status', 'pending')
+    .maybeSingle()
+
+  if (error) throw error
+  return data as JobInvitation | null
+}
+
+export const declineInvitation = async (invitationId: string) => {
+  const { error } = await supabase
+    .from('job_invitations')
+    .update({ status: 'declined' })
+    .eq('id', invitationId)
+
+  if (error) throw error
+}
@@ -44,6 +44,12 @@ export function HomePage() {
               >
                 Registrar Empresa
               </Link>
+              <Link
+                to="/jobs"
+                className="px-8 py-4 text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition-colors"
+              >
+                Ver empleos disponibles
+              </Link>
             </div>
           </div>
         </div>
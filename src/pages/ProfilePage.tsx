@@ -1,10 +1,27 @@
-import React, { useState } from 'react'
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { supabase } from '../lib/supabase'
-import { User, Building2, Upload, FileText, Save } from 'lucide-react'
+import { ResumeManager } from '../components/ResumeManager'
+import { ResumeSuggestionsPanel } from '../components/ResumeSuggestionsPanel'
+import { ResumeSuggestions, suggestProfileFromResume, mergeSkills } from '../lib/resumeParsing'
+import { EMAIL_DIGEST_EVENTS } from '../lib/notifications'
+import { SUPPORTED_CURRENCIES } from '../lib/currency'
+import { SALARY_PERIODS } from '../lib/salary'
+import {
+  COMPANY_ROLE_LABELS,
+  COMPANY_SIZES,
+  COMPANY_SLUG_PATTERN,
+  MAX_COMPANY_LOGO_SIZE,
+  Company,
+  canManageCompany,
+  getCompanyPath,
+  updateCompany,
+  uploadCompanyLogo
+} from '../lib/companies'
+import { User, Building2, Save, Mail, Sparkles, Users, Upload, X, ExternalLink } from 'lucide-react'
 import toast from 'react-hot-toast'
 
 const profileSchema = z.object({
@@ -13,20 +30,59 @@ const profileSchema = z.object({
   location: z.string().optional(),
   skills: z.string().optional(),
   experience: z.string().optional(),
+  // Datos de la empresa; solo los guardan propietarios y administradores
   company_name: z.string().optional(),
+  company_slug: z.string().optional().refine(
+    value => !value || COMPANY_SLUG_PATTERN.test(value),
+    'Usa solo minúsculas, números y guiones (ej. mi-empresa)'
+  ),
+  company_location: z.string().optional(),
   company_description: z.string().optional(),
+  company_website: z.string().url('URL inválida').or(z.literal('')).optional(),
+  company_logo_url: z.string().url('URL inválida').or(z.literal('')).optional(),
+  company_industry: z.string().optional(),
+  company_size: z.string().optional(),
+  // Preferencias para los empleos recomendados; vacío significa "indiferente"
+  preferred_job_type: z.string().optional(),
+  preferred_experience_level: z.string().optional(),
+  preferred_remote_work: z.string().optional(),
+  min_salary: z.string().optional().refine(
+    value => !value || parseFloat(value) > 0,
+    'El salario mínimo debe ser mayor a 0'
+  ),
+  min_salary_currency: z.string(),
+  min_salary_period: z.enum(['hourly', 'monthly', 'yearly']),
 })
 
 type ProfileFormData = z.infer<typeof profileSchema>
 
 export function ProfilePage() {
-  const { profile, updateProfile } = useAuth()
+  const { profile, company, updateProfile } = useAuth()
+  const canEditCompany = canManageCompany(company?.role)
   const [loading, setLoading] = useState(false)
-  const [uploadingResume, setUploadingResume] = useState(false)
+  const [uploadingLogo, setUploadingLogo] = useState(false)
+  const [resumeSuggestions, setResumeSuggestions] = useState<ResumeSuggestions | null>(null)
+  const [visibleToRecruiters, setVisibleToRecruiters] = useState(!!profile?.visible_to_recruiters)
+  const [emailDigestEvents, setEmailDigestEvents] = useState<string[]>(
+    profile?.email_digest_events ?? EMAIL_DIGEST_EVENTS.map(event => event.type)
+  )
+
+  const digestEventsForUser = EMAIL_DIGEST_EVENTS.filter(
+    event => event.userType === profile?.user_type
+  )
+
+  const toggleEmailDigestEvent = (type: string) => {
+    setEmailDigestEvents(events =>
+      events.includes(type) ? events.filter(e => e !== type) : [...events, type]
+    )
+  }
 
   const {
     register,
     handleSubmit,
+    getValues,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
@@ -36,11 +92,53 @@ export function ProfilePage() {
       location: profile?.location || '',
       skills: profile?.skills?.join(', ') || '',
       experience: profile?.experience || '',
-      company_name: profile?.company_name || '',
-      company_description: profile?.company_description || '',
+      company_name: company?.company.name || '',
+      company_slug: company?.company.slug || '',
+      company_location: company?.company.location || '',
+      company_description: company?.company.description || '',
+      company_website: company?.company.website || '',
+      company_logo_url: company?.company.logo_url || '',
+      company_industry: company?.company.industry || '',
+      company_size: company?.company.size || '',
+      preferred_job_type: profile?.preferred_job_type || '',
+      preferred_experience_level: profile?.preferred_experience_level || '',
+      preferred_remote_work: profile?.preferred_remote_work == null ? '' : String(profile.preferred_remote_work),
+      min_salary: profile?.min_salary ? String(profile.min_salary) : '',
+      min_salary_currency: profile?.min_salary_currency || 'USD',
+      min_salary_period: profile?.min_salary_period || 'monthly',
     },
   })
 
+  const companyLogoUrl = watch('company_logo_url')
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !company) return
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Solo se permiten imágenes')
+      return
+    }
+
+    if (file.size > MAX_COMPANY_LOGO_SIZE) {
+      toast.error('La imagen no debe exceder los 2MB')
+      return
+    }
+
+    setUploadingLogo(true)
+    try {
+      // El logo se aplica al guardar el perfil, igual que el resto de campos
+      const url = await uploadCompanyLogo(company.company.id, file)
+      setValue('company_logo_url', url, { shouldValidate: true, shouldDirty: true })
+    } catch (error) {
+      console.error('Error uploading company logo:', error)
+      toast.error((error as Error).message || 'Error al subir el logo')
+    } finally {
+      setUploadingLogo(false)
+    }
+  }
+
   const onSubmit = async (data: ProfileFormData) => {
     setLoading(true)
     try {
@@ -48,6 +146,7 @@ export function ProfilePage() {
         full_name: data.full_name,
         phone: data.phone || null,
         location: data.location || null,
+        email_digest_events: emailDigestEvents,
       }
 
       if (profile?.user_type === 'applicant') {
@@ -55,11 +154,32 @@ export function ProfilePage() {
           ? data.skills.split(',').map(s => s.trim()).filter(s => s)
           : []
         updateData.experience = data.experience || null
+        updateData.preferred_job_type = data.preferred_job_type || null
+        updateData.preferred_experience_level = data.preferred_experience_level || null
+        updateData.preferred_remote_work = data.preferred_remote_work ? data.preferred_remote_work === 'true' : null
+        updateData.min_salary = data.min_salary ? parseFloat(data.min_salary) : null
+        updateData.min_salary_currency = data.min_salary_currency
+        updateData.min_salary_period = data.min_salary_period
+        updateData.visible_to_recruiters = visibleToRecruiters
       }
 
-      if (profile?.user_type === 'employer') {
-        updateData.company_name = data.company_name || null
-        updateData.company_description = data.company_description || null
+      // updateProfile recarga también la empresa, así que se guarda antes
+      if (company && canEditCompany) {
+        if (!data.company_name?.trim()) {
+          toast.error('El nombre de la empresa es requerido')
+          return
+        }
+        await updateCompany(company.company.id, {
+          name: data.company_name.trim(),
+          // Vacío hace que la base de datos genere uno a partir del nombre
+          slug: data.company_slug?.trim() || '',
+          location: data.company_location || null,
+          description: data.company_description || null,
+          website: data.company_website || null,
+          logo_url: data.company_logo_url || null,
+          industry: data.company_industry || null,
+          size: (data.company_size || null) as Company['size']
+        })
       }
 
       await updateProfile(updateData)
@@ -71,43 +191,6 @@ export function ProfilePage() {
     }
   }
 
-  const handleResumeUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    if (file.type !== 'application/pdf') {
-      toast.error('Solo se permiten archivos PDF')
-      return
-    }
-
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error('El archivo no debe exceder los 5MB')
-      return
-    }
-
-    setUploadingResume(true)
-    try {
-      const fileName = `resume_${profile?.id}_${Date.now()}.pdf`
-      
-      const { error: uploadError } = await supabase.storage
-        .from('resumes')
-        .upload(fileName, file)
-
-      if (uploadError) throw uploadError
-
-      const { data } = supabase.storage
-        .from('resumes')
-        .getPublicUrl(fileName)
-
-      await updateProfile({ resume_url: data.publicUrl })
-      toast.success('Currículum subido exitosamente')
-    } catch (error: any) {
-      toast.error(error.message || 'Error al subir currículum')
-    } finally {
-      setUploadingResume(false)
-    }
-  }
-
   if (!profile) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -133,8 +216,10 @@ export function ProfilePage() {
               <p className="text-gray-600 capitalize">
                 {profile.user_type === 'applicant' ? 'Aspirante' : 'Empleador'}
               </p>
-              {profile.user_type === 'employer' && profile.company_name && (
-                <p className="text-gray-500">{profile.company_name}</p>
+              {profile.user_type === 'employer' && company && (
+                <p className="text-gray-500">
+                  {company.company.name} · {COMPANY_ROLE_LABELS[company.role]}
+                </p>
               )}
             </div>
           </div>
@@ -209,72 +294,350 @@ export function ProfilePage() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Currículum (PDF)
+                  Currículums (PDF)
                 </label>
-                <div className="flex items-center space-x-4">
-                  {profile.resume_url ? (
-                    <div className="flex items-center space-x-2">
-                      <FileText className="h-5 w-5 text-green-600" />
-                      <span className="text-sm text-green-600">Currículum subido</span>
-                      <a
-                        href={profile.resume_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-600 hover:text-blue-800 text-sm underline"
-                      >
-                        Ver PDF
-                      </a>
-                    </div>
-                  ) : (
-                    <span className="text-sm text-gray-500">No hay currículum subido</span>
-                  )}
-                  <label className="cursor-pointer">
-                    <input
-                      type="file"
-                      accept=".pdf"
-                      onChange={handleResumeUpload}
-                      className="sr-only"
-                      disabled={uploadingResume}
+                <ResumeManager onTextExtracted={(text) => setResumeSuggestions(suggestProfileFromResume(text))} />
+                {resumeSuggestions && (
+                  <div className="mt-3">
+                    <ResumeSuggestionsPanel
+                      suggestions={resumeSuggestions}
+                      onAcceptSkills={(skills) => {
+                        setValue('skills', mergeSkills(getValues('skills') || '', skills), { shouldDirty: true })
+                        toast.success('Habilidades agregadas al formulario')
+                      }}
+                      onAcceptExperience={(experience) => {
+                        setValue('experience', experience, { shouldDirty: true })
+                        toast.success('Experiencia copiada al formulario')
+                      }}
+                      onDismiss={() => setResumeSuggestions(null)}
                     />
-                    <div className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
-                      <Upload className="h-4 w-4" />
-                      <span>
-                        {uploadingResume ? 'Subiendo...' : 'Subir PDF'}
-                      </span>
-                    </div>
-                  </label>
-                </div>
+                  </div>
+                )}
               </div>
-            </>
-          )}
 
-          {profile.user_type === 'employer' && (
-            <>
               <div>
-                <label className="block text-sm font-medium text-gray-700">
-                  Nombre de la Empresa
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Sparkles className="h-4 w-4 inline mr-2" />
+                  Preferencias de empleo
                 </label>
-                <input
-                  {...register('company_name')}
-                  type="text"
-                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
+                <p className="text-sm text-gray-500 mb-2">
+                  Las usamos para ordenar tus empleos recomendados.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <select
+                    {...register('preferred_job_type')}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Cualquier tipo de empleo</option>
+                    <option value="full-time">Tiempo Completo</option>
+                    <option value="part-time">Medio Tiempo</option>
+                    <option value="contract">Contrato</option>
+                    <option value="freelance">Freelance</option>
+                  </select>
+                  <select
+                    {...register('preferred_experience_level')}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Cualquier nivel</option>
+                    <option value="entry">Principiante</option>
+                    <option value="mid">Intermedio</option>
+                    <option value="senior">Senior</option>
+                    <option value="lead">Líder</option>
+                  </select>
+                  <select
+                    {...register('preferred_remote_work')}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Remoto o presencial</option>
+                    <option value="true">Prefiero remoto</option>
+                    <option value="false">Prefiero presencial</option>
+                  </select>
+                </div>
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <input
+                    {...register('min_salary')}
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Salario mínimo aceptable"
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <select
+                    {...register('min_salary_currency')}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code} - {currency.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    {...register('min_salary_period')}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {SALARY_PERIODS.map((period) => (
+                      <option key={period.value} value={period.value}>
+                        {period.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {errors.min_salary && (
+                  <p className="mt-1 text-sm text-red-600">{errors.min_salary.message}</p>
+                )}
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700">
-                  Descripción de la Empresa
+                <label className="flex items-start">
+                  <input
+                    type="checkbox"
+                    checked={visibleToRecruiters}
+                    onChange={(e) => setVisibleToRecruiters(e.target.checked)}
+                    className="h-4 w-4 mt-0.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-2">
+                    <span className="block text-sm font-medium text-gray-700">Visible para reclutadores</span>
+                    <span className="block text-sm text-gray-500">
+                      Los empleadores podrán encontrar tu nombre, ubicación, habilidades y experiencia e invitarte a
+                      postularte. Tu correo y teléfono solo se comparten cuando te postulas.
+                    </span>
+                  </span>
                 </label>
-                <textarea
-                  {...register('company_description')}
-                  rows={4}
-                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Describe tu empresa..."
-                />
               </div>
             </>
           )}
 
+          {profile.user_type === 'employer' && (
+            <div className="border-t border-gray-200 pt-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                  <Building2 className="h-5 w-5 mr-2 text-blue-600" />
+                  Empresa
+                </h2>
+                <div className="flex items-center space-x-4">
+                  {company && (
+                    <Link
+                      to={getCompanyPath(company.company.slug)}
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      Ver página pública
+                    </Link>
+                  )}
+                  <Link
+                    to="/company"
+                    className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Users className="h-4 w-4 mr-1" />
+                    {company ? 'Gestionar equipo' : 'Crear o unirme a una empresa'}
+                  </Link>
+                </div>
+              </div>
+
+              {!company ? (
+                <p className="text-sm text-gray-500">
+                  Aún no perteneces a ninguna empresa.
+                </p>
+              ) : (
+                <>
+                  {!canEditCompany && (
+                    <p className="text-sm text-gray-500">
+                      Solo los propietarios y administradores pueden editar los datos de la empresa.
+                    </p>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Nombre de la Empresa
+                      </label>
+                      <input
+                        {...register('company_name')}
+                        type="text"
+                        disabled={!canEditCompany}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Dirección de la página pública
+                      </label>
+                      <div className="mt-1 flex rounded-md shadow-sm">
+                        <span className="inline-flex items-center px-3 border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm rounded-l-md">
+                          /companies/
+                        </span>
+                        <input
+                          {...register('company_slug')}
+                          type="text"
+                          disabled={!canEditCompany}
+                          className="block w-full min-w-0 px-3 py-2 border border-gray-300 rounded-r-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                          placeholder="mi-empresa"
+                        />
+                      </div>
+                      {errors.company_slug && (
+                        <p className="mt-1 text-sm text-red-600">{errors.company_slug.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Ubicación
+                      </label>
+                      <input
+                        {...register('company_location')}
+                        type="text"
+                        disabled={!canEditCompany}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                        placeholder="Ciudad, País"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Sitio Web
+                      </label>
+                      <input
+                        {...register('company_website')}
+                        type="url"
+                        disabled={!canEditCompany}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                        placeholder="https://tuempresa.com"
+                      />
+                      {errors.company_website && (
+                        <p className="mt-1 text-sm text-red-600">{errors.company_website.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Sector
+                      </label>
+                      <input
+                        {...register('company_industry')}
+                        type="text"
+                        disabled={!canEditCompany}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                        placeholder="Tecnología, Salud, Educación..."
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Tamaño
+                      </label>
+                      <select
+                        {...register('company_size')}
+                        disabled={!canEditCompany}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                      >
+                        <option value="">Sin especificar</option>
+                        {COMPANY_SIZES.map(size => (
+                          <option key={size} value={size}>{size} empleados</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Logo
+                      </label>
+                      <div className="mt-1 flex items-center space-x-4">
+                        {companyLogoUrl ? (
+                          <img
+                            src={companyLogoUrl}
+                            alt="Logo de la empresa"
+                            className="h-16 w-16 rounded-lg object-contain border border-gray-200 bg-white"
+                          />
+                        ) : (
+                          <div className="h-16 w-16 rounded-lg bg-gray-100 flex items-center justify-center">
+                            <Building2 className="h-8 w-8 text-gray-400" />
+                          </div>
+                        )}
+                        {canEditCompany && (
+                          <>
+                            <label className="cursor-pointer">
+                              <input
+                                type="file"
+                                accept="image/*"
+                                onChange={handleLogoUpload}
+                                className="sr-only"
+                                disabled={uploadingLogo}
+                              />
+                              <div className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 transition-colors">
+                                <Upload className="h-4 w-4" />
+                                <span>{uploadingLogo ? 'Subiendo...' : 'Subir imagen'}</span>
+                              </div>
+                            </label>
+                            {companyLogoUrl && (
+                              <button
+                                type="button"
+                                onClick={() => setValue('company_logo_url', '', { shouldDirty: true })}
+                                className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800"
+                              >
+                                <X className="h-4 w-4" />
+                                <span>Quitar</span>
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                      <input
+                        {...register('company_logo_url')}
+                        type="url"
+                        disabled={!canEditCompany}
+                        className="mt-2 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                        placeholder="O pega la URL del logo: https://tuempresa.com/logo.png"
+                      />
+                      {errors.company_logo_url && (
+                        <p className="mt-1 text-sm text-red-600">{errors.company_logo_url.message}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Descripción de la Empresa
+                    </label>
+                    <textarea
+                      {...register('company_description')}
+                      rows={4}
+                      disabled={!canEditCompany}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                      placeholder="Describe tu empresa..."
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {digestEventsForUser.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Mail className="h-4 w-4 inline mr-2" />
+                Resumen por correo
+              </label>
+              <p className="text-sm text-gray-500 mb-2">
+                Elige qué notificaciones quieres recibir también en tu correo.
+              </p>
+              <div className="space-y-2">
+                {digestEventsForUser.map(event => (
+                  <label key={event.type} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={emailDigestEvents.includes(event.type)}
+                      onChange={() => toggleEmailDigestEvent(event.type)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="ml-2 text-gray-600">{event.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end">
             <button
               type="submit"
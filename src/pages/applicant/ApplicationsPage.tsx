@@ -1,20 +1,30 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Link } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../contexts/AuthContext'
+import {
+  PipelineStage,
+  loadPipelineStagesForCompanies,
+  getApplicantStageLabel,
+  getStageCategory,
+  getStageBadgeClass
+} from '../../lib/pipeline'
+import { ApplicationTimeline } from '../../components/ApplicationTimeline'
+import { MessageThread } from '../../components/MessageThread'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
-import { Building2, MapPin, Clock } from 'lucide-react'
+import { Building2, MapPin, Clock, History, MessageSquare } from 'lucide-react'
 import toast from 'react-hot-toast'
 
 interface Application {
   id: string
   job_id: string
-  status: 'pending' | 'accepted' | 'rejected'
+  status: string
   cover_letter?: string
   created_at: string
   job: {
     title: string
+    company_id: string
     location: string
     employer: {
       company_name: string
@@ -23,9 +33,13 @@ interface Application {
 }
 
 export function ApplicationsPage() {
-  const { user } = useAuth()
+  const { user, notifications } = useAuth()
+  const mountedAt = useRef(Date.now())
   const [applications, setApplications] = useState<Application[]>([])
+  const [stagesByCompany, setStagesByCompany] = useState<{ [companyId: string]: PipelineStage[] }>({})
   const [loading, setLoading] = useState(true)
+  const [historyApplicationId, setHistoryApplicationId] = useState<string | null>(null)
+  const [messagesApplicationId, setMessagesApplicationId] = useState<string | null>(null)
 
   useEffect(() => {
     if (user) {
@@ -33,6 +47,17 @@ export function ApplicationsPage() {
     }
   }, [user])
 
+  // Recargar cuando llega en vivo una notificación de cambio de estado
+  useEffect(() => {
+    const latest = notifications[0]
+    if (
+      latest?.type === 'application_status_changed' &&
+      new Date(latest.created_at).getTime() > mountedAt.current
+    ) {
+      loadApplications()
+    }
+  }, [notifications[0]?.id])
+
   const loadApplications = async () => {
     try {
       const { data, error } = await supabase
@@ -45,9 +70,10 @@ export function ApplicationsPage() {
           created_at,
           job:jobs (
             title,
+            company_id,
             location,
-            employer:profiles!jobs_employer_id_fkey (
-              company_name
+            employer:companies!jobs_company_id_fkey (
+              company_name:name
             )
           )
         `)
@@ -56,14 +82,21 @@ export function ApplicationsPage() {
 
       if (error) throw error
 
-      setApplications(
-        (data as any[]).map(app => ({
-          ...app,
-          job: {
-            ...Array.isArray(app.job) ? app.job[0] : app.job,
-            employer: Array.isArray(app.job?.employer) ? app.job.employer[0] : app.job?.employer
-          }
-        }))
+      const normalizedApplications: Application[] = (data as any[]).map(app => ({
+        ...app,
+        job: {
+          ...Array.isArray(app.job) ? app.job[0] : app.job,
+          employer: Array.isArray(app.job?.employer) ? app.job.employer[0] : app.job?.employer
+        }
+      }))
+
+      setApplications(normalizedApplications)
+
+      // Cada empresa puede tener sus propias etapas de selección
+      setStagesByCompany(
+        await loadPipelineStagesForCompanies(
+          normalizedApplications.map(app => app.job.company_id).filter(Boolean)
+        )
       )
     } catch (error: any) {
       console.error('Error loading applications:', error)
@@ -73,27 +106,13 @@ export function ApplicationsPage() {
     }
   }
 
-  const getStatusBadgeClass = (status: Application['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800'
-      case 'accepted':
-        return 'bg-green-100 text-green-800'
-      case 'rejected':
-        return 'bg-red-100 text-red-800'
-      default:
-        return 'bg-gray-100 text-gray-800'
-    }
+  const getStatusBadgeClass = (application: Application) => {
+    const stages = stagesByCompany[application.job.company_id] || []
+    return getStageBadgeClass(getStageCategory(stages, application.status), application.status)
   }
 
-  const getStatusLabel = (status: Application['status']) => {
-    const labels = {
-      pending: 'Pendiente',
-      accepted: 'Aceptada',
-      rejected: 'Rechazada'
-    }
-    return labels[status]
-  }
+  const getStatusLabel = (application: Application) =>
+    getApplicantStageLabel(stagesByCompany[application.job.company_id] || [], application.status)
 
   if (loading) {
     return (
@@ -141,10 +160,10 @@ export function ApplicationsPage() {
                   </div>
                   <span
                     className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium ${getStatusBadgeClass(
-                      application.status
+                      application
                     )}`}
                   >
-                    {getStatusLabel(application.status)}
+                    {getStatusLabel(application)}
                   </span>
                 </div>
 
@@ -165,6 +184,46 @@ export function ApplicationsPage() {
                     <p className="text-sm">{application.cover_letter}</p>
                   </div>
                 )}
+
+                <div className="mt-4">
+                  <div className="flex items-center space-x-4">
+                    <button
+                      onClick={() => setHistoryApplicationId(
+                        historyApplicationId === application.id ? null : application.id
+                      )}
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      {historyApplicationId === application.id ? 'Ocultar historial' : 'Ver historial'}
+                    </button>
+                    <button
+                      onClick={() => setMessagesApplicationId(
+                        messagesApplicationId === application.id ? null : application.id
+                      )}
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <MessageSquare className="h-4 w-4 mr-1" />
+                      {messagesApplicationId === application.id ? 'Ocultar mensajes' : 'Mensajes'}
+                    </button>
+                  </div>
+                  {historyApplicationId === application.id && (
+                    <div className="mt-3">
+                      <ApplicationTimeline
+                        applicationId={application.id}
+                        stages={stagesByCompany[application.job.company_id] || []}
+                        audience="applicant"
+                      />
+                    </div>
+                  )}
+                  {messagesApplicationId === application.id && (
+                    <div className="mt-3">
+                      <MessageThread
+                        applicationId={application.id}
+                        counterpartName={application.job.employer.company_name || 'la empresa'}
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           ))}
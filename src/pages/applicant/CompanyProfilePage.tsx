@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Company, fetchCompanyBySlug, fetchCompanyActiveJobs } from '../../lib/companies'
+import { JobSearchResult } from '../../lib/jobs'
+import { setPageMeta, toMetaDescription } from '../../lib/meta'
+import { JobSalary } from '../../components/JobSalary'
+import { Building2, MapPin, Globe, Users, Briefcase, Clock, ArrowLeft } from 'lucide-react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+
+export function CompanyProfilePage() {
+  const { slug } = useParams<{ slug: string }>()
+  const [company, setCompany] = useState<Company | null>(null)
+  const [jobs, setJobs] = useState<JobSearchResult[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (slug) {
+      loadCompany()
+    }
+  }, [slug])
+
+  useEffect(() => {
+    if (!company) return
+
+    return setPageMeta({
+      title: company.name,
+      description: toMetaDescription(company.description || `Vacantes activas en ${company.name}`)
+    })
+  }, [company])
+
+  const loadCompany = async () => {
+    if (!slug) return
+
+    setLoading(true)
+    try {
+      const data = await fetchCompanyBySlug(slug)
+      setCompany(data)
+      setJobs(data ? await fetchCompanyActiveJobs(data.id) : [])
+    } catch (error) {
+      console.error('Error loading company:', error)
+      toast.error('Error al cargar la empresa')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getJobTypeLabel = (type: string) => {
+    const types: { [key: string]: string } = {
+      'full-time': 'Tiempo Completo',
+      'part-time': 'Medio Tiempo',
+      'contract': 'Contrato',
+      'freelance': 'Freelance'
+    }
+    return types[type] || type
+  }
+
+  // Los sitios guardados sin protocolo se abren como externos
+  const getWebsiteUrl = (website: string) =>
+    /^https?:\/\//i.test(website) ? website : `https://${website}`
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          <div className="bg-white p-6 rounded-lg shadow h-40"></div>
+          {[1, 2].map(i => (
+            <div key={i} className="bg-white p-6 rounded-lg shadow h-24"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (!company) {
+    return (
+      <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Building2 className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="text-gray-500 text-lg mt-2 mb-4">No encontramos esta empresa</p>
+          <Link
+            to="/jobs"
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Ver empleos disponibles
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <Link
+        to="/jobs"
+        className="flex items-center text-blue-600 hover:text-blue-800 mb-6 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Volver a empleos
+      </Link>
+
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        <div className="p-6 flex items-start space-x-6">
+          {company.logo_url ? (
+            <img
+              src={company.logo_url}
+              alt={`Logo de ${company.name}`}
+              className="h-20 w-20 rounded-lg object-contain border border-gray-200 bg-white"
+            />
+          ) : (
+            <div className="h-20 w-20 rounded-lg bg-gray-100 flex items-center justify-center">
+              <Building2 className="h-10 w-10 text-gray-400" />
+            </div>
+          )}
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-gray-900">{company.name}</h1>
+            {company.industry && (
+              <p className="text-gray-600 mt-1">{company.industry}</p>
+            )}
+            <div className="mt-3 flex flex-wrap gap-4 text-sm text-gray-500">
+              {company.location && (
+                <div className="flex items-center">
+                  <MapPin className="h-4 w-4 mr-1" />
+                  {company.location}
+                </div>
+              )}
+              {company.size && (
+                <div className="flex items-center">
+                  <Users className="h-4 w-4 mr-1" />
+                  {company.size} empleados
+                </div>
+              )}
+              {company.website && (
+                <a
+                  href={getWebsiteUrl(company.website)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center text-blue-600 hover:text-blue-800"
+                >
+                  <Globe className="h-4 w-4 mr-1" />
+                  {company.website.replace(/^https?:\/\//i, '')}
+                </a>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {company.description && (
+          <div className="border-t border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Sobre la empresa</h2>
+            <p className="text-gray-600 whitespace-pre-line">{company.description}</p>
+          </div>
+        )}
+      </div>
+
+      <h2 className="text-xl font-bold text-gray-900 mt-8 mb-4">
+        Vacantes activas ({jobs.length})
+      </h2>
+
+      {jobs.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Briefcase className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="text-gray-500 text-lg mt-2">Esta empresa no tiene vacantes abiertas por ahora</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {jobs.map(job => (
+            <Link
+              key={job.id}
+              to={`/jobs/${job.id}`}
+              className="block bg-white p-6 rounded-lg shadow hover:shadow-md transition-shadow"
+            >
+              <div className="flex justify-between items-start">
+                <h3 className="text-xl font-semibold text-gray-900">{job.title}</h3>
+                <JobSalary job={job} />
+              </div>
+              <div className="mt-4 flex flex-wrap gap-3 text-gray-500">
+                <div className="flex items-center">
+                  <MapPin className="h-5 w-5 mr-1" />
+                  <span>{job.location}</span>
+                  {job.remote_work && <span className="ml-1">(Remoto)</span>}
+                </div>
+                <div className="flex items-center">
+                  <Briefcase className="h-5 w-5 mr-1" />
+                  <span>{getJobTypeLabel(job.job_type)}</span>
+                </div>
+                <div className="flex items-center">
+                  <Clock className="h-5 w-5 mr-1" />
+                  <span>{format(new Date(job.created_at), "d 'de' MMMM, yyyy", { locale: es })}</span>
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
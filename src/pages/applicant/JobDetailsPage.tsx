@@ -1,12 +1,30 @@
-import { useState, useEffect } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useState, useEffect, useMemo } from 'react'
+import { useParams, useNavigate, useLocation, Link } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../contexts/AuthContext'
-import { CurrencyConverter } from '../../components/CurrencyConverter'
-import { MapPin, Clock, Briefcase, Building2, ArrowLeft, Send, FileText } from 'lucide-react'
+import { isJobSaved } from '../../lib/savedJobs'
+import { JobStatus, JOB_STATUS_LABELS, PUBLIC_JOB_COLUMNS, getJobShareUrl } from '../../lib/jobs'
+import { setPageMeta, toMetaDescription } from '../../lib/meta'
+import { Resume, fetchResumes } from '../../lib/resumes'
+import { SkillCatalog, loadSkillCatalog, resolveProfileSkills, getSkillName } from '../../lib/skills'
+import { JobInvitation, fetchPendingInvitation, declineInvitation } from '../../lib/talent'
+import { getCompanyPath } from '../../lib/companies'
+import {
+  ScreeningQuestion,
+  ScreeningAnswerValues,
+  fetchScreeningQuestions,
+  buildScreeningAnswersSchema,
+  toScreeningAnswers,
+  submitApplication,
+  getQuestionOptions
+} from '../../lib/screening'
+import { recordJobView } from '../../lib/analytics'
+import { JobSalary } from '../../components/JobSalary'
+import { SaveJobButton } from '../../components/SaveJobButton'
+import { MapPin, Clock, Briefcase, Building2, ArrowLeft, Send, FileText, Share2, LogIn, Eye, Check, Mail, CalendarClock } from 'lucide-react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
 import toast from 'react-hot-toast'
@@ -17,72 +35,155 @@ interface Job {
   description: string
   requirements: string
   location: string
-  salary: number
+  salary_min: number | null
+  salary_max: number | null
+  salary_period: string
+  salary_negotiable: boolean
   currency: string
   job_type: string
   is_active: boolean
+  // Solo llega con sesión; los visitantes anónimos ven únicamente empleos publicados
+  status?: JobStatus
+  expires_at: string | null
   created_at: string
   benefits?: string
   experience_level: 'entry' | 'mid' | 'senior' | 'lead'
   remote_work: boolean
+  required_skills: string[]
+  nice_to_have_skills: string[]
   employer: {
     company_name: string
     company_description?: string
+    company_slug?: string
   }
 }
 
 const applicationSchema = z.object({
   cover_letter: z.string().optional(),
+  resume_id: z.string().optional(),
 })
 
-type ApplicationFormData = z.infer<typeof applicationSchema>
+// Las respuestas a las preguntas de filtro se validan con un esquema generado por empleo
+type ApplicationFormData = z.infer<typeof applicationSchema> & {
+  answers?: ScreeningAnswerValues
+}
 
 export function JobDetailsPage() {
   const { id } = useParams<{ id: string }>()
-  const { user, profile } = useAuth()
+  const { user, profile, company, loading: authLoading } = useAuth()
   const navigate = useNavigate()
+  const location = useLocation()
   const [job, setJob] = useState<Job | null>(null)
   const [loading, setLoading] = useState(true)
   const [applying, setApplying] = useState(false)
   const [hasApplied, setHasApplied] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const [resumes, setResumes] = useState<Resume[]>([])
+  const [skillCatalog, setSkillCatalog] = useState<SkillCatalog | null>(null)
+  const [invitation, setInvitation] = useState<JobInvitation | null>(null)
+  const [questions, setQuestions] = useState<ScreeningQuestion[]>([])
+
+  const formSchema = useMemo(
+    () => applicationSchema.extend({ answers: buildScreeningAnswersSchema(questions) }),
+    [questions]
+  )
 
   const {
     register,
     handleSubmit,
+    setValue,
     formState: { errors },
   } = useForm<ApplicationFormData>({
-    resolver: zodResolver(applicationSchema),
+    resolver: zodResolver(formSchema),
   })
 
+  // Se espera al perfil, que trae la empresa del usuario, para saber si puede ver la vista previa
+  const sessionReady = !authLoading && (!user || !!profile)
+
   useEffect(() => {
-    if (id) {
+    if (id && sessionReady) {
       loadJobDetails()
       checkApplicationStatus()
+      checkSavedStatus()
     }
-  }, [id, user])
+  }, [id, user, sessionReady, company?.company.id])
+
+  useEffect(() => {
+    if (!user || profile?.user_type !== 'applicant') return
+
+    fetchResumes(user.id)
+      .then(data => {
+        setResumes(data)
+        // Preseleccionar la versión predeterminada
+        const defaultResume = data.find(resume => resume.is_default)
+        if (defaultResume) setValue('resume_id', defaultResume.id)
+      })
+      .catch(error => console.error('Error loading resumes:', error))
+  }, [user, profile?.user_type])
+
+  useEffect(() => {
+    if (!id || !user || profile?.user_type !== 'applicant') return
+
+    fetchScreeningQuestions(id)
+      .then(setQuestions)
+      .catch(error => console.error('Error loading screening questions:', error))
+  }, [id, user, profile?.user_type])
+
+  // Se espera a la sesión para no contar la misma visita como anónima y como usuario
+  useEffect(() => {
+    if (!job || authLoading) return
+    recordJobView(job.id)
+  }, [job?.id, authLoading])
+
+  useEffect(() => {
+    if (!job || job.required_skills.length + job.nice_to_have_skills.length === 0) return
+
+    loadSkillCatalog()
+      .then(setSkillCatalog)
+      .catch(error => console.error('Error loading skills:', error))
+  }, [job])
+
+  useEffect(() => {
+    if (!job) return
+
+    return setPageMeta({
+      title: `${job.title} · ${job.location}`,
+      description: toMetaDescription(job.description)
+    })
+  }, [job])
 
   const loadJobDetails = async () => {
     try {
-      const { data, error } = await supabase
+      // Sin sesión solo se pueden leer las columnas públicas del empleo
+      const columns = `
+        ${user ? '*' : PUBLIC_JOB_COLUMNS},
+        companies!jobs_company_id_fkey (
+          company_name:name,
+          company_description:description,
+          company_slug:slug
+        )
+      `
+
+      // Los miembros de la empresa también abren la vista previa de sus empleos
+      // sin publicar o cerrados; RLS limita lo que pueden leer
+      const query = supabase
         .from('jobs')
-        .select(`
-          *,
-          profiles!jobs_employer_id_fkey (
-            company_name,
-            company_description
-          )
-        `)
+        .select(columns)
         .eq('id', id)
-        .eq('is_active', true)
-        .single()
+
+      const { data, error } = await (company
+        ? query.or(`is_active.eq.true,company_id.eq.${company.company.id}`)
+        : query.eq('is_active', true))
+        .single<Omit<Job, 'employer'> & { companies?: Job['employer'] | null }>()
 
       if (error) throw error
 
       const jobWithEmployer = {
         ...data,
         employer: {
-          company_name: data.profiles?.company_name || 'Empresa no especificada',
-          company_description: data.profiles?.company_description
+          company_name: data.companies?.company_name || 'Empresa no especificada',
+          company_description: data.companies?.company_description,
+          company_slug: data.companies?.company_slug
         }
       }
 
@@ -96,32 +197,51 @@ export function JobDetailsPage() {
     }
   }
 
+  const handleShare = async () => {
+    if (!job) return
+
+    try {
+      await navigator.clipboard.writeText(getJobShareUrl(job.id))
+      toast.success('Enlace copiado al portapapeles')
+    } catch (error) {
+      console.error('Error copying share link:', error)
+      toast.error('No se pudo copiar el enlace')
+    }
+  }
+
   const onSubmit = async (data: ApplicationFormData) => {
     if (!user || !profile || !job) return
 
     setApplying(true)
     try {
-      const { error } = await supabase
-        .from('applications')
-        .insert({
-          job_id: job.id,
-          applicant_id: user.id,
-          cover_letter: data.cover_letter,
-          status: 'pending'
-        })
-
-      if (error) throw error
+      await submitApplication(
+        job.id,
+        data.cover_letter,
+        data.resume_id || null,
+        toScreeningAnswers(questions, data.answers)
+      )
 
       toast.success('Aplicación enviada exitosamente')
       setHasApplied(true)
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error submitting application:', error)
-      toast.error('Error al enviar la aplicación')
+      // submit_application explica qué falta: respuestas obligatorias, empleo cerrado, etc.
+      toast.error((error as Error).message || 'Error al enviar la aplicación')
     } finally {
       setApplying(false)
     }
   }
 
+  const checkSavedStatus = async () => {
+    if (!user || !id) return
+
+    try {
+      setIsSaved(await isJobSaved(user.id, id))
+    } catch (error) {
+      console.error('Error checking saved status:', error)
+    }
+  }
+
   const checkApplicationStatus = async () => {
     if (!user || !id) return
 
@@ -136,11 +256,32 @@ export function JobDetailsPage() {
       if (error) throw error
 
       setHasApplied(!!data)
+
+      if (!data) {
+        setInvitation(await fetchPendingInvitation(user.id, id))
+      }
     } catch (error: any) {
       console.error('Error checking application status:', error)
     }
   }
 
+  const handleDeclineInvitation = async () => {
+    if (!invitation) return
+
+    try {
+      await declineInvitation(invitation.id)
+      setInvitation(null)
+      toast.success('Invitación rechazada')
+    } catch (error) {
+      console.error('Error declining invitation:', error)
+      toast.error('Error al rechazar la invitación')
+    }
+  }
+
+  const candidateSkillIds = skillCatalog && profile?.user_type === 'applicant'
+    ? resolveProfileSkills(profile.skills, skillCatalog)
+    : []
+
   if (loading) {
     return (
       <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
@@ -185,6 +326,13 @@ export function JobDetailsPage() {
         Volver a empleos
       </button>
 
+      {!job.is_active && (
+        <div className="mb-4 rounded-md border border-blue-200 bg-blue-50 p-4 flex items-center text-sm text-blue-900">
+          <Eye className="h-4 w-4 mr-2 flex-shrink-0" />
+          Vista previa · {job.status ? JOB_STATUS_LABELS[job.status] : 'Sin publicar'}: los candidatos no pueden ver este empleo
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow-lg overflow-hidden">
         <div className="p-6">
           <div className="flex justify-between items-start">
@@ -192,16 +340,34 @@ export function JobDetailsPage() {
               <h1 className="text-3xl font-bold text-gray-900">{job.title}</h1>
               <div className="mt-2 flex items-center text-gray-600">
                 <Building2 className="h-5 w-5 mr-2" />
-                {job.employer.company_name}
+                {job.employer.company_slug ? (
+                  <Link
+                    to={getCompanyPath(job.employer.company_slug)}
+                    className="hover:text-blue-600 hover:underline"
+                  >
+                    {job.employer.company_name}
+                  </Link>
+                ) : (
+                  job.employer.company_name
+                )}
               </div>
             </div>
             <div className="text-right">
-              <CurrencyConverter 
-                amount={job.salary} 
-                baseCurrency={job.currency}
-                className="text-2xl font-semibold text-green-600" 
-              />
+              <JobSalary job={job} className="text-2xl font-semibold text-green-600" />
               <p className="text-sm text-gray-500 mt-1">Salario Base</p>
+              <div className="mt-2 flex items-center justify-end space-x-2">
+                {user && profile?.user_type === 'applicant' && (
+                  <SaveJobButton jobId={job.id} saved={isSaved} onChange={setIsSaved} showLabel />
+                )}
+                <button
+                  onClick={handleShare}
+                  title="Copiar enlace para compartir"
+                  className="inline-flex items-center p-2 rounded-md text-gray-400 hover:text-blue-600 transition-colors"
+                >
+                  <Share2 className="h-5 w-5" />
+                  <span className="ml-1 text-sm font-medium">Compartir</span>
+                </button>
+              </div>
             </div>
           </div>
 
@@ -221,6 +387,12 @@ export function JobDetailsPage() {
               <Clock className="h-5 w-5 mr-2" />
               <span>Publicado el {format(new Date(job.created_at), "d 'de' MMMM, yyyy", { locale: es })}</span>
             </div>
+            {job.expires_at && (
+              <div className="flex items-center text-gray-600">
+                <CalendarClock className="h-5 w-5 mr-2" />
+                <span>Postulaciones hasta el {format(new Date(job.expires_at), "d 'de' MMMM, yyyy", { locale: es })}</span>
+              </div>
+            )}
             <div className="flex items-center text-gray-600">
               <FileText className="h-5 w-5 mr-2" />
               <span>Nivel: {getExperienceLevelLabel(job.experience_level)}</span>
@@ -252,16 +424,105 @@ export function JobDetailsPage() {
             </div>
           </div>
 
-          {job.employer.company_description && (
+          {skillCatalog && (
+            <div className="mt-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Habilidades</h3>
+              <div className="flex flex-wrap gap-2">
+                {[...job.required_skills, ...job.nice_to_have_skills].map(skillId => {
+                  const isRequired = job.required_skills.includes(skillId)
+                  const hasSkill = candidateSkillIds.includes(skillId)
+                  return (
+                    <span
+                      key={skillId}
+                      className={`inline-flex items-center px-3 py-1 rounded-full text-sm ${
+                        isRequired ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {hasSkill && <Check className="h-4 w-4 mr-1 text-green-600" />}
+                      {getSkillName(skillId, skillCatalog)}
+                      {!isRequired && <span className="ml-1 text-xs opacity-70">(deseable)</span>}
+                    </span>
+                  )
+                })}
+              </div>
+              {profile?.user_type === 'applicant' && (
+                <p className="mt-2 text-sm text-gray-500">
+                  Las marcadas con <Check className="inline h-4 w-4 text-green-600" /> aparecen en tu perfil
+                </p>
+              )}
+            </div>
+          )}
+
+          {(job.employer.company_description || job.employer.company_slug) && (
             <div className="mt-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-2">Sobre la empresa</h3>
-              <p className="text-gray-600">{job.employer.company_description}</p>
+              {job.employer.company_description && (
+                <p className="text-gray-600">{job.employer.company_description}</p>
+              )}
+              {job.employer.company_slug && (
+                <Link
+                  to={getCompanyPath(job.employer.company_slug)}
+                  className="inline-flex items-center mt-2 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Ver empresa y sus vacantes
+                </Link>
+              )}
             </div>
           )}
         </div>
 
+        {!user && (
+          <div className="border-t border-gray-200 p-6 bg-gray-50 text-center">
+            <p className="text-gray-600 mb-4">Inicia sesión con tu cuenta de aspirante para postularte a esta vacante</p>
+            <div className="flex justify-center space-x-3">
+              <Link
+                to="/login"
+                state={{ from: location }}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <LogIn className="h-4 w-4 mr-2" />
+                Inicia sesión para postularte
+              </Link>
+              <Link
+                to="/register"
+                state={{ from: location }}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Crear cuenta
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {profile?.user_type === 'employer' && (
+          <div className="border-t border-gray-200 p-6 bg-gray-50 flex items-center justify-center text-gray-600">
+            <Eye className="h-5 w-5 mr-2" />
+            Así ven los aspirantes esta publicación
+          </div>
+        )}
+
         {user && profile?.user_type === 'applicant' && (
           <div className="border-t border-gray-200 p-6 bg-gray-50">
+            {!hasApplied && invitation && (
+              <div className="mb-4 rounded-md border border-blue-200 bg-blue-50 p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="flex items-center text-sm font-medium text-blue-900">
+                    <Mail className="h-4 w-4 mr-2" />
+                    {job.employer.company_name} te invitó a postularte a esta vacante
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleDeclineInvitation}
+                    className="text-sm text-blue-700 hover:text-blue-900 whitespace-nowrap"
+                  >
+                    No me interesa
+                  </button>
+                </div>
+                {invitation.message && (
+                  <p className="mt-2 text-sm text-blue-800 whitespace-pre-line">{invitation.message}</p>
+                )}
+              </div>
+            )}
             {hasApplied ? (
               <div className="text-center">
                 <p className="text-gray-600">Ya has aplicado a esta vacante</p>
@@ -284,6 +545,75 @@ export function JobDetailsPage() {
                   )}
                 </div>
 
+                {questions.map(question => {
+                  const fieldName = `answers.${question.id}` as const
+                  const fieldError = errors.answers?.[question.id]
+                  const inputClassName = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+
+                  return (
+                    <div key={question.id}>
+                      <label htmlFor={question.id} className="block text-sm font-medium text-gray-700 mb-1">
+                        {question.label}{question.required ? ' *' : ' (opcional)'}
+                      </label>
+                      {question.question_type === 'short_text' && (
+                        <input id={question.id} type="text" className={inputClassName} {...register(fieldName)} />
+                      )}
+                      {question.question_type === 'long_text' && (
+                        <textarea id={question.id} rows={3} className={inputClassName} {...register(fieldName)} />
+                      )}
+                      {question.question_type === 'number' && (
+                        <input id={question.id} type="number" step="any" className={inputClassName} {...register(fieldName)} />
+                      )}
+                      {(question.question_type === 'yes_no' || question.question_type === 'single_choice' ||
+                        question.question_type === 'multiple_choice') && (
+                        <div className="flex flex-wrap gap-4">
+                          {getQuestionOptions(question).map(option => (
+                            <label key={option.value} className="flex items-center text-sm text-gray-700">
+                              <input
+                                type={question.question_type === 'multiple_choice' ? 'checkbox' : 'radio'}
+                                value={option.value}
+                                className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                                {...register(fieldName)}
+                              />
+                              <span className="ml-2">{option.label}</span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                      {fieldError && (
+                        <p className="mt-1 text-sm text-red-600">{fieldError.message}</p>
+                      )}
+                    </div>
+                  )
+                })}
+
+                <div>
+                  <label htmlFor="resume_id" className="block text-sm font-medium text-gray-700 mb-1">
+                    Currículum
+                  </label>
+                  {resumes.length > 0 ? (
+                    <select
+                      id="resume_id"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      {...register('resume_id')}
+                    >
+                      <option value="">Postularme sin currículum</option>
+                      {resumes.map(resume => (
+                        <option key={resume.id} value={resume.id}>
+                          {resume.label}{resume.is_default ? ' (predeterminado)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      Aún no has subido un currículum.{' '}
+                      <Link to="/profile" className="text-blue-600 hover:text-blue-800">
+                        Súbelo desde tu perfil
+                      </Link>
+                    </p>
+                  )}
+                </div>
+
                 <div className="flex justify-end">
                   <button
                     type="submit"
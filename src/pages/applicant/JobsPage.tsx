@@ -1,9 +1,26 @@
 import { useState, useEffect } from 'react'
-import { Link } from 'react-router-dom'
-import { supabase } from '../../lib/supabase'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import {
+  searchJobs,
+  parseJobSearchParams,
+  buildJobSearchParams,
+  JobSearchFilters,
+  JobSortOption,
+  JOBS_PAGE_SIZE,
+  isSalarySort
+} from '../../lib/jobs'
 import { useAuth } from '../../contexts/AuthContext'
-import { CurrencyConverter } from '../../components/CurrencyConverter'
-import { MapPin, Clock, Briefcase, Search, Filter, Building2 } from 'lucide-react'
+import { SUPPORTED_CURRENCIES } from '../../lib/currency'
+import { SALARY_PERIODS, SalaryPeriod } from '../../lib/salary'
+import { fetchSavedJobIds } from '../../lib/savedJobs'
+import { createSavedSearch, hasSearchCriteria } from '../../lib/savedSearches'
+import { loadSkillCatalog, resolveProfileSkills } from '../../lib/skills'
+import { computeSkillMatch } from '../../lib/skillMatch'
+import { loadRecommendations, formatRecommendationReasons } from '../../lib/recommendations'
+import { getCompanyPath } from '../../lib/companies'
+import { JobSalary } from '../../components/JobSalary'
+import { SaveJobButton } from '../../components/SaveJobButton'
+import { MapPin, Clock, Briefcase, Search, Filter, ChevronLeft, ChevronRight, BellPlus, Sparkles } from 'lucide-react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
 import toast from 'react-hot-toast'
@@ -14,7 +31,10 @@ interface Job {
   description: string
   requirements: string
   location: string
-  salary: number
+  salary_min: number | null
+  salary_max: number | null
+  salary_period: string
+  salary_negotiable: boolean
   currency: string
   job_type: string
   is_active: boolean
@@ -22,84 +42,193 @@ interface Job {
   benefits?: string
   experience_level: 'entry' | 'mid' | 'senior' | 'lead'
   remote_work: boolean
+  required_skills: string[]
+  nice_to_have_skills: string[]
   employer: {
     company_name: string
+    company_slug: string | null
   }
 }
 
 export function JobsPage() {
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
+  const navigate = useNavigate()
+  const isApplicant = profile?.user_type === 'applicant'
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { filters, page } = parseJobSearchParams(searchParams)
+  // ?view=recommended muestra la vista "Recomendados" en lugar del listado completo
+  const showRecommended = isApplicant && searchParams.get('view') === 'recommended'
   const [jobs, setJobs] = useState<Job[]>([])
+  const [totalJobs, setTotalJobs] = useState(0)
+  const [recommendations, setRecommendations] = useState<{ job: Job; reasons: string[] }[]>([])
+  const [savedJobIds, setSavedJobIds] = useState<Set<string>>(new Set())
+  // Habilidades del perfil del aspirante resueltas contra la taxonomía
+  const [candidateSkillIds, setCandidateSkillIds] = useState<string[] | null>(null)
+  const [savingSearch, setSavingSearch] = useState(false)
+  const [searchName, setSearchName] = useState('')
   const [loading, setLoading] = useState(true)
+  const [hasLoaded, setHasLoaded] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [locationFilter, setLocationFilter] = useState('')
-  const [jobTypeFilter, setJobTypeFilter] = useState('')
-  const [experienceLevelFilter, setExperienceLevelFilter] = useState('')
-  const [remoteWorkFilter, setRemoteWorkFilter] = useState<boolean | ''>('')
-  const [showFilters, setShowFilters] = useState(false)
+  // Los campos de texto se sincronizan con la URL con un pequeño retraso
+  const [searchInput, setSearchInput] = useState(filters.searchTerm)
+  const [locationInput, setLocationInput] = useState(filters.location)
+  const [salaryMinInput, setSalaryMinInput] = useState(filters.salaryMin)
+  const [salaryMaxInput, setSalaryMaxInput] = useState(filters.salaryMax)
+  const [showFilters, setShowFilters] = useState(
+    !!(
+      filters.location ||
+      filters.jobType ||
+      filters.experienceLevel ||
+      filters.remoteWork !== '' ||
+      filters.salaryMin ||
+      filters.salaryMax
+    )
+  )
+
+  const queryString = searchParams.toString()
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchSavedJobIds(user.id)
+      .then(setSavedJobIds)
+      .catch(error => console.error('Error loading saved jobs:', error))
+  }, [user])
+
+  useEffect(() => {
+    if (!isApplicant) return
+
+    loadSkillCatalog()
+      .then(catalog => setCandidateSkillIds(resolveProfileSkills(profile?.skills, catalog)))
+      .catch(error => console.error('Error loading skills:', error))
+  }, [isApplicant, profile?.skills])
+
+  const handleSavedChange = (jobId: string, saved: boolean) => {
+    setSavedJobIds(prev => {
+      const next = new Set(prev)
+      if (saved) {
+        next.add(jobId)
+      } else {
+        next.delete(jobId)
+      }
+      return next
+    })
+  }
+
+  useEffect(() => {
+    if (showRecommended) {
+      loadRecommendedJobs()
+    } else {
+      loadJobs()
+    }
+  }, [queryString, user, showRecommended])
 
   useEffect(() => {
-    loadJobs()
-  }, [])
+    if (
+      searchInput === filters.searchTerm &&
+      locationInput === filters.location &&
+      salaryMinInput === filters.salaryMin &&
+      salaryMaxInput === filters.salaryMax
+    ) return
+
+    const timeout = setTimeout(() => {
+      updateFilters({
+        searchTerm: searchInput,
+        location: locationInput,
+        salaryMin: salaryMinInput,
+        salaryMax: salaryMaxInput
+      })
+    }, 400)
+
+    return () => clearTimeout(timeout)
+  }, [searchInput, locationInput, salaryMinInput, salaryMaxInput])
+
+  const updateFilters = (changes: Partial<JobSearchFilters>, newPage = 1) => {
+    setSearchParams(buildJobSearchParams({ ...filters, ...changes }, newPage))
+  }
 
   const loadJobs = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      const { data, error } = await supabase
-        .from('jobs')
-        .select(`
-          *,
-          employer:profiles!jobs_employer_id_fkey (
-            company_name
-          )
-        `)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
+      const { jobs: data, total } = await searchJobs(filters, page, !user)
 
       const jobsWithEmployer = data.map(job => ({
         ...job,
         employer: {
-          company_name: job.employer?.company_name || 'Empresa no especificada'
+          company_name: job.employer?.company_name || 'Empresa no especificada',
+          company_slug: job.employer?.company_slug || null
         }
       }))
 
       setJobs(jobsWithEmployer)
-    } catch (error: any) {
+      setTotalJobs(total)
+    } catch (error) {
       console.error('Error loading jobs:', error)
       setError('No se pudieron cargar los empleos. Por favor, verifica tu conexión e intenta de nuevo.')
       toast.error('Error al cargar empleos')
     } finally {
       setLoading(false)
+      setHasLoaded(true)
+    }
+  }
+
+  const loadRecommendedJobs = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const data = await loadRecommendations(profile)
+
+      setRecommendations(data.map(({ job, reasons }) => ({
+        job: {
+          ...job,
+          employer: {
+            company_name: job.employer?.company_name || 'Empresa no especificada',
+          company_slug: job.employer?.company_slug || null
+          }
+        },
+        reasons
+      })))
+    } catch (error) {
+      console.error('Error loading recommendations:', error)
+      setError('No se pudieron cargar las recomendaciones. Por favor, verifica tu conexión e intenta de nuevo.')
+      toast.error('Error al cargar recomendaciones')
+    } finally {
+      setLoading(false)
+      setHasLoaded(true)
+    }
+  }
+
+  const setView = (recommended: boolean) => {
+    const params = new URLSearchParams(searchParams)
+    if (recommended) {
+      params.set('view', 'recommended')
+    } else {
+      params.delete('view')
     }
+    setSearchParams(params)
   }
 
-  const filteredJobs = jobs.filter(job => {
-    const matchesSearch = job.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         job.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         job.employer.company_name.toLowerCase().includes(searchTerm.toLowerCase())
-    
-    const matchesLocation = !locationFilter || 
-                           job.location.toLowerCase().includes(locationFilter.toLowerCase())
-    
-    const matchesJobType = !jobTypeFilter || job.job_type === jobTypeFilter
-
-    const matchesExperienceLevel = !experienceLevelFilter || 
-                                 job.experience_level === experienceLevelFilter
-
-    const matchesRemoteWork = remoteWorkFilter === '' || 
-                             job.remote_work === remoteWorkFilter
-
-    return matchesSearch && 
-           matchesLocation && 
-           matchesJobType && 
-           matchesExperienceLevel && 
-           matchesRemoteWork
-  })
+  const totalPages = Math.max(1, Math.ceil(totalJobs / JOBS_PAGE_SIZE))
+
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !searchName.trim()) return
+
+    try {
+      await createSavedSearch(user.id, searchName, filters)
+      toast.success('Búsqueda guardada. Te avisaremos de nuevos empleos que coincidan')
+      setSavingSearch(false)
+      setSearchName('')
+    } catch (error) {
+      console.error('Error saving search:', error)
+      toast.error('Error al guardar la búsqueda')
+    }
+  }
 
   const getJobTypeLabel = (type: string) => {
     const types: { [key: string]: string } = {
@@ -121,8 +250,102 @@ export function JobsPage() {
     return levels[level] || level
   }
 
+  // Tarjeta de empleo; en la vista de recomendados incluye por qué se recomienda
+  const renderJobCard = (job: Job, reasons?: string[]) => {
+    const skillMatch = candidateSkillIds ? computeSkillMatch(job, candidateSkillIds) : null
+    const companySlug = job.employer.company_slug
+    return (
+      <Link
+        key={job.id}
+        to={`/jobs/${job.id}`}
+        className="block bg-white p-6 rounded-lg shadow hover:shadow-md transition-shadow"
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">{job.title}</h3>
+            {companySlug ? (
+              <button
+                type="button"
+                onClick={(e) => {
+                  // La tarjeta completa es un enlace al empleo
+                  e.preventDefault()
+                  e.stopPropagation()
+                  navigate(getCompanyPath(companySlug))
+                }}
+                className="text-gray-600 mt-1 hover:text-blue-600 hover:underline"
+              >
+                {job.employer.company_name}
+              </button>
+            ) : (
+              <p className="text-gray-600 mt-1">{job.employer.company_name}</p>
+            )}
+          </div>
+          <div className="flex items-start space-x-2">
+            <div className="text-right">
+              <JobSalary job={job} />
+            </div>
+            {isApplicant && (
+              <SaveJobButton
+                jobId={job.id}
+                saved={savedJobIds.has(job.id)}
+                onChange={(saved) => handleSavedChange(job.id, saved)}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-3">
+          <div className="flex items-center text-gray-500">
+            <MapPin className="h-5 w-5 mr-1" />
+            <span>{job.location}</span>
+            {job.remote_work && <span className="ml-1">(Remoto)</span>}
+          </div>
+          <div className="flex items-center text-gray-500">
+            <Briefcase className="h-5 w-5 mr-1" />
+            <span>{getJobTypeLabel(job.job_type)}</span>
+          </div>
+          <div className="flex items-center text-gray-500">
+            <Clock className="h-5 w-5 mr-1" />
+            <span>{format(new Date(job.created_at), "d 'de' MMMM, yyyy", { locale: es })}</span>
+          </div>
+          {job.experience_level && (
+            <div className="text-gray-500">
+              <span className="px-2 py-1 bg-gray-100 rounded-full text-sm">
+                {getExperienceLevelLabel(job.experience_level)}
+              </span>
+            </div>
+          )}
+          {skillMatch && (
+            <span
+              className={`px-2 py-1 rounded-full text-sm ${
+                skillMatch.missingRequired.length === 0 ? 'bg-green-100 text-green-800' : 'bg-blue-50 text-blue-700'
+              }`}
+            >
+              Coincides con {skillMatch.matchedCount} de {skillMatch.totalCount} habilidades
+            </span>
+          )}
+        </div>
+
+        {job.benefits && (
+          <div className="mt-4">
+            <p className="text-gray-600 text-sm">
+              <span className="font-medium">Beneficios:</span> {job.benefits}
+            </p>
+          </div>
+        )}
+
+        {reasons && reasons.length > 0 && (
+          <p className="mt-4 flex items-start text-sm text-purple-700">
+            <Sparkles className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            {formatRecommendationReasons(reasons)}
+          </p>
+        )}
+      </Link>
+    )
+  }
 
-  if (loading) {
+  // El esqueleto completo solo se muestra en la primera carga para no perder el foco del buscador
+  if (loading && !hasLoaded) {
     return (
       <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
         <div className="animate-pulse space-y-4">
@@ -143,7 +366,7 @@ export function JobsPage() {
         <div className="text-center">
           <h2 className="text-lg font-medium text-gray-900 mb-4">{error}</h2>
           <button
-            onClick={() => loadJobs()}
+            onClick={() => (showRecommended ? loadRecommendedJobs() : loadJobs())}
             className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
             Intentar de nuevo
@@ -155,155 +378,288 @@ export function JobsPage() {
 
   return (
     <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
-      <div className="mb-8">
-        {/* Search bar */}
-        <div className="flex flex-col md:flex-row gap-4 mb-4">
-          <div className="flex-1">
-            <div className="relative">
-              <input
-                type="text"
-                placeholder="Buscar empleos por título, descripción o empresa..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-              <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
-            </div>
-          </div>
+      {isApplicant && (
+        <div className="flex space-x-6 border-b border-gray-200 mb-6">
+          <button
+            onClick={() => setView(false)}
+            className={`pb-3 text-sm font-medium border-b-2 ${
+              !showRecommended ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Todos los empleos
+          </button>
           <button
-            onClick={() => setShowFilters(!showFilters)}
-            className="flex items-center justify-center px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200"
+            onClick={() => setView(true)}
+            className={`flex items-center pb-3 text-sm font-medium border-b-2 ${
+              showRecommended ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
           >
-            <Filter className="h-5 w-5 mr-2" />
-            Filtros
+            <Sparkles className="h-4 w-4 mr-1" />
+            Recomendados
           </button>
         </div>
+      )}
 
-        {/* Filters */}
-        {showFilters && (
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Ubicación
-              </label>
-              <input
-                type="text"
-                placeholder="Filtrar por ubicación"
-                value={locationFilter}
-                onChange={(e) => setLocationFilter(e.target.value)}
-                className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
+      {showRecommended ? (
+        <div className={`space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          <p className="text-sm text-gray-500">
+            Según tus habilidades, ubicación, postulaciones y{' '}
+            <Link to="/profile" className="text-blue-600 hover:text-blue-800">preferencias de empleo</Link>.
+          </p>
+          {recommendations.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500 text-lg">Aún no tenemos recomendaciones para ti.</p>
+              <p className="text-gray-500 mt-2">Agrega habilidades y preferencias a tu perfil para recibir sugerencias.</p>
             </div>
-            
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Tipo de empleo
-              </label>
-              <select
-                value={jobTypeFilter}
-                onChange={(e) => setJobTypeFilter(e.target.value)}
-                className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">Todos</option>
-                <option value="full-time">Tiempo Completo</option>
-                <option value="part-time">Medio Tiempo</option>
-                <option value="contract">Contrato</option>
-                <option value="freelance">Freelance</option>
-              </select>
+          ) : (
+            recommendations.map(({ job, reasons }) => renderJobCard(job, reasons))
+          )}
+        </div>
+      ) : (
+        <>
+        <div className="mb-8">
+          {/* Search bar */}
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+            <div className="flex-1">
+              <div className="relative">
+                <input
+                  type="text"
+                  placeholder="Buscar empleos por título, descripción o requisitos..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+              </div>
             </div>
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as JobSortOption })}
+              className="px-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="newest">Más recientes</option>
+              <option value="relevance">Relevancia</option>
+              <option value="salary_desc">Salario: mayor a menor</option>
+              <option value="salary_asc">Salario: menor a mayor</option>
+            </select>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="flex items-center justify-center px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              <Filter className="h-5 w-5 mr-2" />
+              Filtros
+            </button>
+          </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Nivel de experiencia
-              </label>
-              <select
-                value={experienceLevelFilter}
-                onChange={(e) => setExperienceLevelFilter(e.target.value)}
-                className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">Todos</option>
-                <option value="entry">Principiante</option>
-                <option value="mid">Intermedio</option>
-                <option value="senior">Senior</option>
-                <option value="lead">Líder</option>
-              </select>
-            </div>
+          {/* Filters */}
+          {showFilters && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Ubicación
+                </label>
+                <input
+                  type="text"
+                  placeholder="Filtrar por ubicación"
+                  value={locationInput}
+                  onChange={(e) => setLocationInput(e.target.value)}
+                  className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tipo de empleo
+                </label>
+                <select
+                  value={filters.jobType}
+                  onChange={(e) => updateFilters({ jobType: e.target.value })}
+                  className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Todos</option>
+                  <option value="full-time">Tiempo Completo</option>
+                  <option value="part-time">Medio Tiempo</option>
+                  <option value="contract">Contrato</option>
+                  <option value="freelance">Freelance</option>
+                </select>
+              </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Trabajo remoto
-              </label>
-              <select
-                value={String(remoteWorkFilter)}
-                onChange={(e) => setRemoteWorkFilter(e.target.value === '' ? '' : e.target.value === 'true')}
-                className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">Todos</option>
-                <option value="true">Sí</option>
-                <option value="false">No</option>
-              </select>
-            </div>
-          </div>
-        )}
-      </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nivel de experiencia
+                </label>
+                <select
+                  value={filters.experienceLevel}
+                  onChange={(e) => updateFilters({ experienceLevel: e.target.value })}
+                  className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Todos</option>
+                  <option value="entry">Principiante</option>
+                  <option value="mid">Intermedio</option>
+                  <option value="senior">Senior</option>
+                  <option value="lead">Líder</option>
+                </select>
+              </div>
 
-      {/* Job listings */}
-      <div className="space-y-6">
-        {filteredJobs.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-gray-500 text-lg">No se encontraron empleos que coincidan con los filtros seleccionados.</p>
-          </div>
-        ) : (
-          filteredJobs.map((job) => (
-            <Link
-              key={job.id}
-              to={`/jobs/${job.id}`}
-              className="block bg-white p-6 rounded-lg shadow hover:shadow-md transition-shadow"
-            >
-              <div className="flex justify-between items-start">
-                <div>
-                  <h3 className="text-xl font-semibold text-gray-900">{job.title}</h3>
-                  <p className="text-gray-600 mt-1">{job.employer.company_name}</p>
-                </div>
-                <div className="text-right">
-                  <CurrencyConverter amount={job.salary} baseCurrency={job.currency} />
-                </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Trabajo remoto
+                </label>
+                <select
+                  value={String(filters.remoteWork)}
+                  onChange={(e) => updateFilters({ remoteWork: e.target.value === '' ? '' : e.target.value === 'true' })}
+                  className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Todos</option>
+                  <option value="true">Sí</option>
+                  <option value="false">No</option>
+                </select>
               </div>
 
-              <div className="mt-4 flex flex-wrap gap-3">
-                <div className="flex items-center text-gray-500">
-                  <MapPin className="h-5 w-5 mr-1" />
-                  <span>{job.location}</span>
-                  {job.remote_work && <span className="ml-1">(Remoto)</span>}
+              <div className="md:col-span-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Rango salarial
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <input
+                    type="number"
+                    min="0"
+                    placeholder="Mínimo"
+                    value={salaryMinInput}
+                    onChange={(e) => setSalaryMinInput(e.target.value)}
+                    className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    placeholder="Máximo"
+                    value={salaryMaxInput}
+                    onChange={(e) => setSalaryMaxInput(e.target.value)}
+                    className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <select
+                    value={filters.salaryCurrency}
+                    onChange={(e) => updateFilters({ salaryCurrency: e.target.value })}
+                    className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={filters.salaryPeriod}
+                    onChange={(e) => updateFilters({ salaryPeriod: e.target.value as SalaryPeriod })}
+                    className="w-full p-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {SALARY_PERIODS.map((period) => (
+                      <option key={period.value} value={period.value}>
+                        {period.label}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-                <div className="flex items-center text-gray-500">
-                  <Briefcase className="h-5 w-5 mr-1" />
-                  <span>{getJobTypeLabel(job.job_type)}</span>
-                </div>
-                <div className="flex items-center text-gray-500">
-                  <Clock className="h-5 w-5 mr-1" />
-                  <span>{format(new Date(job.created_at), "d 'de' MMMM, yyyy", { locale: es })}</span>
-                </div>
-                {job.experience_level && (
-                  <div className="text-gray-500">
-                    <span className="px-2 py-1 bg-gray-100 rounded-full text-sm">
-                      {getExperienceLevelLabel(job.experience_level)}
-                    </span>
-                  </div>
-                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Se comparan salarios en otras monedas y periodos convirtiéndolos a los elegidos. Los salarios a convenir no se incluyen.
+                </p>
               </div>
+            </div>
+          )}
+        </div>
 
-              {job.benefits && (
-                <div className="mt-4">
-                  <p className="text-gray-600 text-sm">
-                    <span className="font-medium">Beneficios:</span> {job.benefits}
-                  </p>
-                </div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <p className="text-sm text-gray-500">
+            {totalJobs} empleo{totalJobs !== 1 ? 's' : ''} encontrado{totalJobs !== 1 ? 's' : ''}
+            {isSalarySort(filters.sort) && (
+              <span>
+                {' '}con salario {SALARY_PERIODS.find(p => p.value === filters.salaryPeriod)?.label.toLowerCase()} en {filters.salaryCurrency}.
+                Cambia la moneda y el periodo en Filtros
+              </span>
+            )}
+          </p>
+          {isApplicant && (
+            <div className="flex items-center space-x-4">
+              {savingSearch ? (
+                <form onSubmit={handleSaveSearch} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    autoFocus
+                    value={searchName}
+                    onChange={(e) => setSearchName(e.target.value)}
+                    placeholder="Nombre de la búsqueda"
+                    className="px-3 py-1 text-sm rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!searchName.trim()}
+                    className="px-3 py-1 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Guardar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSavingSearch(false)}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Cancelar
+                  </button>
+                </form>
+              ) : (
+                hasSearchCriteria(filters) && (
+                  <button
+                    onClick={() => setSavingSearch(true)}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <BellPlus className="h-4 w-4 mr-1" />
+                    Guardar búsqueda y recibir alertas
+                  </button>
+                )
               )}
-            </Link>
-          ))
+              <Link to="/saved-searches" className="text-sm text-gray-600 hover:text-blue-600">
+                Mis búsquedas guardadas
+              </Link>
+            </div>
+          )}
+        </div>
+
+        {/* Job listings */}
+        <div className={`space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          {jobs.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500 text-lg">No se encontraron empleos que coincidan con los filtros seleccionados.</p>
+            </div>
+          ) : (
+            jobs.map((job) => renderJobCard(job))
+          )}
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="mt-8 flex items-center justify-between">
+            <button
+              onClick={() => updateFilters({}, page - 1)}
+              disabled={page <= 1}
+              className="flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Anterior
+            </button>
+            <span className="text-sm text-gray-600">
+              Página {page} de {totalPages}
+            </span>
+            <button
+              onClick={() => updateFilters({}, page + 1)}
+              disabled={page >= totalPages}
+              className="flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Siguiente
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </button>
+          </div>
         )}
-      </div>
+        </>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
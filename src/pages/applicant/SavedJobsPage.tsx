@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import { JobSalary } from '../../components/JobSalary'
+import { SaveJobButton } from '../../components/SaveJobButton'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { Building2, MapPin, Bookmark, AlertCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface SavedJob {
+  id: string
+  job_id: string
+  created_at: string
+  job: {
+    title: string
+    location: string
+    salary_min: number | null
+    salary_max: number | null
+    salary_period: string
+    salary_negotiable: boolean
+    currency: string
+    is_active: boolean
+    remote_work: boolean
+    employer: {
+      company_name: string
+    }
+  } | null
+}
+
+export function SavedJobsPage() {
+  const { user } = useAuth()
+  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (user) {
+      loadSavedJobs()
+    }
+  }, [user])
+
+  const loadSavedJobs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('saved_jobs')
+        .select(`
+          id,
+          job_id,
+          created_at,
+          job:jobs (
+            title,
+            location,
+            salary_min,
+            salary_max,
+            salary_period,
+            salary_negotiable,
+            currency,
+            is_active,
+            remote_work,
+            employer:companies!jobs_company_id_fkey (
+              company_name:name
+            )
+          )
+        `)
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+
+      setSavedJobs(
+        (data || []).map(saved => {
+          const job = Array.isArray(saved.job) ? saved.job[0] : saved.job
+          const employer = Array.isArray(job?.employer) ? job.employer[0] : job?.employer
+          return {
+            ...saved,
+            job: job
+              ? {
+                  ...job,
+                  employer: {
+                    company_name: employer?.company_name || 'Empresa no especificada'
+                  }
+                }
+              : null
+          }
+        })
+      )
+    } catch (error) {
+      console.error('Error loading saved jobs:', error)
+      toast.error('Error al cargar los empleos guardados')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSavedChange = (jobId: string, saved: boolean) => {
+    if (!saved) {
+      setSavedJobs(prev => prev.filter(savedJob => savedJob.job_id !== jobId))
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-white p-6 rounded-lg shadow h-32"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Empleos Guardados</h1>
+
+      {savedJobs.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Bookmark className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="text-gray-500 text-lg mt-2 mb-4">Aún no has guardado ningún empleo</p>
+          <Link
+            to="/jobs"
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Ver empleos disponibles
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {savedJobs.map(savedJob => {
+            const isClosed = !savedJob.job || !savedJob.job.is_active
+
+            return (
+              <div
+                key={savedJob.id}
+                className={`bg-white rounded-lg shadow overflow-hidden ${isClosed ? 'opacity-75' : ''}`}
+              >
+                <div className="p-6">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      {isClosed ? (
+                        <span className="text-xl font-semibold text-gray-500">
+                          {savedJob.job?.title || 'Empleo no disponible'}
+                        </span>
+                      ) : (
+                        <Link
+                          to={`/jobs/${savedJob.job_id}`}
+                          className="text-xl font-semibold text-gray-900 hover:text-blue-600"
+                        >
+                          {savedJob.job?.title}
+                        </Link>
+                      )}
+                      {savedJob.job && (
+                        <div className="mt-1 flex items-center text-gray-500">
+                          <Building2 className="h-5 w-5 mr-2" />
+                          {savedJob.job.employer.company_name}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-start space-x-2">
+                      {savedJob.job && !isClosed && (
+                        <JobSalary job={savedJob.job} />
+                      )}
+                      <SaveJobButton
+                        jobId={savedJob.job_id}
+                        saved
+                        onChange={(saved) => handleSavedChange(savedJob.job_id, saved)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-gray-500">
+                    {savedJob.job && (
+                      <div className="flex items-center">
+                        <MapPin className="h-4 w-4 mr-1" />
+                        {savedJob.job.location}
+                        {savedJob.job.remote_work && <span className="ml-1">(Remoto)</span>}
+                      </div>
+                    )}
+                    <span>
+                      Guardado el {format(new Date(savedJob.created_at), "d 'de' MMMM, yyyy", { locale: es })}
+                    </span>
+                  </div>
+
+                  {isClosed && (
+                    <div className="mt-4 flex items-center text-sm text-red-700 bg-red-50 rounded-md px-3 py-2">
+                      <AlertCircle className="h-4 w-4 mr-2" />
+                      Esta vacante fue cerrada por el empleador y ya no acepta postulaciones
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import { SavedSearch, deleteSavedSearch, savedSearchUrl } from '../../lib/savedSearches'
+import { formatDistanceToNow } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { BellRing, Search, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface SearchMatch {
+  id: string
+  saved_search_id: string
+  job_id: string
+  created_at: string
+  job: {
+    title: string
+    is_active: boolean
+  } | null
+}
+
+const MATCHES_PER_SEARCH = 5
+
+export function SavedSearchesPage() {
+  const { user } = useAuth()
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+  const [matches, setMatches] = useState<SearchMatch[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (user) {
+      loadSavedSearches()
+    }
+  }, [user])
+
+  const loadSavedSearches = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setSearches(data || [])
+
+      const searchIds = (data || []).map(search => search.id)
+      if (searchIds.length > 0) {
+        const { data: matchesData, error: matchesError } = await supabase
+          .from('saved_search_matches')
+          .select(`
+            id,
+            saved_search_id,
+            job_id,
+            created_at,
+            job:jobs (
+              title,
+              is_active
+            )
+          `)
+          .in('saved_search_id', searchIds)
+          .order('created_at', { ascending: false })
+
+        if (matchesError) throw matchesError
+
+        setMatches(
+          (matchesData || []).map(match => ({
+            ...match,
+            job: Array.isArray(match.job) ? match.job[0] || null : match.job
+          }))
+        )
+      }
+    } catch (error) {
+      console.error('Error loading saved searches:', error)
+      toast.error('Error al cargar las búsquedas guardadas')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (searchId: string) => {
+    if (!confirm('¿Eliminar esta búsqueda guardada? Dejarás de recibir alertas para ella.')) return
+
+    try {
+      await deleteSavedSearch(searchId)
+      setSearches(prev => prev.filter(search => search.id !== searchId))
+      setMatches(prev => prev.filter(match => match.saved_search_id !== searchId))
+      toast.success('Búsqueda eliminada')
+    } catch (error) {
+      console.error('Error deleting saved search:', error)
+      toast.error('Error al eliminar la búsqueda')
+    }
+  }
+
+  const getJobTypeLabel = (type: string) => {
+    const types: { [key: string]: string } = {
+      'full-time': 'Tiempo Completo',
+      'part-time': 'Medio Tiempo',
+      'contract': 'Contrato',
+      'freelance': 'Freelance'
+    }
+    return types[type] || type
+  }
+
+  const getExperienceLevelLabel = (level: string) => {
+    const levels: { [key: string]: string } = {
+      'entry': 'Principiante',
+      'mid': 'Intermedio',
+      'senior': 'Senior',
+      'lead': 'Líder'
+    }
+    return levels[level] || level
+  }
+
+  const getCriteria = (search: SavedSearch) => {
+    const criteria: string[] = []
+    if (search.search_term) criteria.push(`"${search.search_term}"`)
+    if (search.location) criteria.push(search.location)
+    if (search.job_type) criteria.push(getJobTypeLabel(search.job_type))
+    if (search.experience_level) criteria.push(getExperienceLevelLabel(search.experience_level))
+    if (search.remote_work !== null) criteria.push(search.remote_work ? 'Remoto' : 'Presencial')
+    return criteria
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-white p-6 rounded-lg shadow h-32"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">Búsquedas Guardadas</h1>
+      <p className="text-gray-600 mb-6">
+        Te avisaremos cuando se publique un empleo que coincida con alguna de tus búsquedas.
+      </p>
+
+      {searches.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Search className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="text-gray-500 text-lg mt-2 mb-4">Aún no has guardado ninguna búsqueda</p>
+          <Link
+            to="/jobs"
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Buscar empleos
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {searches.map(search => {
+            const searchMatches = matches
+              .filter(match => match.saved_search_id === search.id)
+              .slice(0, MATCHES_PER_SEARCH)
+
+            return (
+              <div key={search.id} className="bg-white rounded-lg shadow p-6">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                      <BellRing className="h-5 w-5 mr-2 text-blue-600" />
+                      {search.name}
+                    </h2>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {getCriteria(search).map(criterion => (
+                        <span
+                          key={criterion}
+                          className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700"
+                        >
+                          {criterion}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Link
+                      to={savedSearchUrl(search)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Ver resultados
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(search.id)}
+                      title="Eliminar búsqueda"
+                      className="p-2 text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-4 border-t border-gray-200 pt-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Coincidencias recientes</h3>
+                  {searchMatches.length === 0 ? (
+                    <p className="text-sm text-gray-500">Sin nuevas coincidencias por ahora</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {searchMatches.map(match => (
+                        <li key={match.id} className="flex items-center justify-between text-sm">
+                          {match.job?.is_active ? (
+                            <Link to={`/jobs/${match.job_id}`} className="text-gray-900 hover:text-blue-600">
+                              {match.job.title}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-400 line-through">
+                              {match.job?.title || 'Empleo no disponible'}
+                            </span>
+                          )}
+                          <span className="text-gray-500">
+                            {formatDistanceToNow(new Date(match.created_at), { addSuffix: true, locale: es })}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useLocation } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -18,6 +18,7 @@ export function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [loading, setLoading] = useState(false)
   const { signIn, error: authError, clearError } = useAuth()
+  const location = useLocation()
 
   const {
     register,
@@ -62,7 +63,7 @@ export function LoginPage() {
           </h2>
           <p className="mt-2 text-sm text-gray-600">
             ¿No tienes una cuenta?{' '}
-            <Link to="/register" className="font-medium text-blue-600 hover:text-blue-500">
+            <Link to="/register" state={location.state} className="font-medium text-blue-600 hover:text-blue-500">
               Regístrate aquí
             </Link>
           </p>
@@ -3,7 +3,7 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import toast from 'react-hot-toast'
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useNavigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../../contexts/AuthContext'
 import { Briefcase, Eye, EyeOff, User, Building2 } from 'lucide-react'
 import type { Profile } from '../../contexts/AuthContext'
@@ -31,6 +31,7 @@ export function RegisterPage() {
   const [loading, setLoading] = useState(false)
   const { signUp } = useAuth()
   const navigate = useNavigate()
+  const location = useLocation()
 
   const {
     register,
@@ -53,14 +54,17 @@ export function RegisterPage() {
       // Usa snake_case para las propiedades
       const profile: Partial<Profile> = {
         full_name: rest.fullName,
-        company_name: rest.companyName,
-        company_description: rest.companyDescription,
+        user_type: rest.userType,
         phone: rest.phone,
         location: rest.location,
       }
-      await signUp(email, password, profile)
+      // Sin nombre de empresa el empleador se une después a una existente por invitación
+      const company = rest.userType === 'employer' && rest.companyName?.trim()
+        ? { name: rest.companyName, description: rest.companyDescription || '' }
+        : undefined
+      await signUp(email, password, profile, company)
       toast.success('¡Registro exitoso!')
-      navigate('/login', { replace: true })
+      navigate('/login', { replace: true, state: location.state })
     } catch (error: any) {
       toast.error(error.message || 'Error al registrarse')
     } finally {
@@ -274,6 +278,9 @@ export function RegisterPage() {
                   className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                   placeholder="Nombre de tu empresa"
                 />
+                <p className="mt-1 text-xs text-gray-500">
+                  Déjalo vacío si te invitaron a unirte a una empresa que ya está registrada
+                </p>
                 {errors.companyName && (
                   <p className="mt-1 text-sm text-red-600">{errors.companyName.message}</p>
                 )}
@@ -0,0 +1,439 @@
+import { useState, useEffect, ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { useAuth } from '../../contexts/AuthContext'
+import { CompanyAccessNotice } from '../../components/CompanyAccessNotice'
+import { JOB_STATUS_LABELS, JOB_STATUS_BADGE_CLASSES } from '../../lib/jobs'
+import {
+  AnalyticsFilters,
+  AnalyticsSummary,
+  DailyActivity,
+  FunnelStage,
+  SourceBreakdown,
+  JobComparison,
+  ANALYTICS_PRESETS,
+  APPLICATION_SOURCE_LABELS,
+  getPresetRange,
+  fetchAnalyticsSummary,
+  fetchDailyActivity,
+  fetchFunnel,
+  fetchSourceBreakdown,
+  fetchJobComparison,
+  toDailySeries,
+  toRate
+} from '../../lib/analytics'
+import { CsvValue, downloadCsv } from '../../lib/csv'
+import { ArrowLeft, Download, Eye, Users, Percent, Clock, UserCheck, CalendarCheck } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { es } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+
+interface ChartCardProps {
+  title: string
+  description?: string
+  onExport: () => void
+  exportDisabled: boolean
+  children: ReactNode
+}
+
+// Tarjeta de un gráfico con su botón de exportación a CSV
+function ChartCard({ title, description, onExport, exportDisabled, children }: ChartCardProps) {
+  return (
+    <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-start">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+          {description && <p className="text-sm text-gray-500">{description}</p>}
+        </div>
+        <button
+          onClick={onExport}
+          disabled={exportDisabled}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </button>
+      </div>
+      <div className="p-6">{children}</div>
+    </div>
+  )
+}
+
+const formatNumber = (value: number | null, suffix = '') =>
+  value === null ? '—' : `${value.toLocaleString('es')}${suffix}`
+
+export function AnalyticsPage() {
+  const { company } = useAuth()
+  const [filters, setFilters] = useState<AnalyticsFilters>({ ...getPresetRange(30), jobId: null })
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null)
+  const [activity, setActivity] = useState<DailyActivity[]>([])
+  const [funnel, setFunnel] = useState<FunnelStage[]>([])
+  const [sources, setSources] = useState<SourceBreakdown[]>([])
+  const [comparison, setComparison] = useState<JobComparison[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const validRange = filters.from !== '' && filters.to !== '' && filters.from <= filters.to
+
+  useEffect(() => {
+    if (company && validRange) {
+      loadAnalytics()
+    }
+  }, [company?.company.id, filters])
+
+  const loadAnalytics = async () => {
+    if (!company) return
+
+    setLoading(true)
+    try {
+      const companyId = company.company.id
+      const [summaryData, activityData, funnelData, sourcesData, comparisonData] = await Promise.all([
+        fetchAnalyticsSummary(companyId, filters),
+        fetchDailyActivity(companyId, filters),
+        fetchFunnel(companyId, filters),
+        fetchSourceBreakdown(companyId, filters),
+        fetchJobComparison(companyId, filters)
+      ])
+      setSummary(summaryData)
+      setActivity(activityData)
+      setFunnel(funnelData)
+      setSources(sourcesData)
+      setComparison(comparisonData)
+    } catch (error) {
+      console.error('Error loading analytics:', error)
+      toast.error('Error al cargar los reportes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!company) {
+    return <CompanyAccessNotice hasCompany={false} />
+  }
+
+  const jobTitles = new Map(comparison.map(job => [job.job_id, job.title]))
+  const series = validRange ? toDailySeries(activity, filters) : []
+  const maxDaily = Math.max(1, ...series.map(day => Math.max(day.views, day.applications)))
+  const funnelBase = funnel[0]?.reached || 0
+  const maxReached = Math.max(1, ...funnel.map(stage => stage.reached))
+  const totalBySource = sources.reduce((total, source) => total + source.applications, 0)
+  const selectedPreset = ANALYTICS_PRESETS.find(preset => {
+    const range = getPresetRange(preset.days)
+    return range.from === filters.from && range.to === filters.to
+  })
+
+  // Sufijo de los archivos exportados con el periodo y el empleo elegidos
+  const exportName = (report: string) =>
+    `${report}_${filters.from}_${filters.to}${filters.jobId ? `_${filters.jobId.slice(0, 8)}` : ''}.csv`
+
+  const exportReport = (report: string, headers: string[], rows: CsvValue[][]) =>
+    downloadCsv(exportName(report), headers, rows)
+
+  const summaryCards = [
+    { label: 'Visitas', value: formatNumber(summary?.views ?? 0), icon: Eye, color: 'text-blue-600' },
+    { label: 'Postulaciones', value: formatNumber(summary?.applications ?? 0), icon: Users, color: 'text-purple-600' },
+    {
+      label: 'Visitas que se postulan',
+      value: formatNumber(summary ? toRate(summary.applications, summary.views) : null, '%'),
+      icon: Percent,
+      color: 'text-indigo-600'
+    },
+    {
+      label: 'Primera respuesta (promedio)',
+      value: formatNumber(summary?.avg_response_hours ?? null, ' h'),
+      icon: Clock,
+      color: 'text-yellow-600'
+    },
+    { label: 'Contrataciones', value: formatNumber(summary?.hired ?? 0), icon: UserCheck, color: 'text-green-600' },
+    {
+      label: 'Tiempo de contratación',
+      value: formatNumber(summary?.avg_days_to_hire ?? null, ' días'),
+      icon: CalendarCheck,
+      color: 'text-teal-600'
+    },
+  ]
+
+  return (
+    <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <Link
+        to="/dashboard"
+        className="flex items-center text-blue-600 hover:text-blue-800 mb-6 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Volver al Dashboard
+      </Link>
+
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Analítica</h1>
+        <p className="text-gray-600">
+          Desempeño de las vacantes de {company.company.name}. Los datos se calculan por
+          fecha de postulación o de visita.
+        </p>
+      </div>
+
+      {/* Filtros */}
+      <div className="bg-white shadow rounded-lg p-4 mb-6 flex flex-wrap items-end gap-4">
+        <div className="flex space-x-2">
+          {ANALYTICS_PRESETS.map(preset => (
+            <button
+              key={preset.days}
+              onClick={() => setFilters(prev => ({ ...prev, ...getPresetRange(preset.days) }))}
+              className={`px-3 py-2 text-sm rounded-md border ${
+                selectedPreset?.days === preset.days
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <div>
+          <label htmlFor="analytics-from" className="block text-xs font-medium text-gray-600 mb-1">Desde</label>
+          <input
+            id="analytics-from"
+            type="date"
+            value={filters.from}
+            max={filters.to}
+            onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="analytics-to" className="block text-xs font-medium text-gray-600 mb-1">Hasta</label>
+          <input
+            id="analytics-to"
+            type="date"
+            value={filters.to}
+            min={filters.from}
+            onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <label htmlFor="analytics-job" className="block text-xs font-medium text-gray-600 mb-1">Empleo</label>
+          <select
+            id="analytics-job"
+            value={filters.jobId || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, jobId: e.target.value || null }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Todos los empleos</option>
+            {comparison.map(job => (
+              <option key={job.job_id} value={job.job_id}>{job.title}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!validRange ? (
+        <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+          Elige un periodo válido: la fecha inicial no puede ser posterior a la final
+        </div>
+      ) : (
+        <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+          {/* Resumen */}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {summaryCards.map(card => (
+              <div key={card.label} className="bg-white p-4 rounded-lg shadow">
+                <card.icon className={`h-6 w-6 ${card.color}`} />
+                <p className="mt-2 text-sm font-medium text-gray-600">{card.label}</p>
+                <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <ChartCard
+            title="Actividad diaria"
+            description="Visitas y postulaciones por día"
+            exportDisabled={activity.length === 0}
+            onExport={() => exportReport(
+              'actividad_diaria',
+              ['Fecha', 'Empleo', 'Visitas', 'Postulaciones'],
+              activity.map(row => [row.day, jobTitles.get(row.job_id) || row.job_id, row.views, row.applications])
+            )}
+          >
+            <div className="flex items-center space-x-4 text-xs text-gray-600 mb-3">
+              <span className="flex items-center"><span className="h-3 w-3 bg-blue-200 rounded-sm mr-1"></span>Visitas</span>
+              <span className="flex items-center"><span className="h-3 w-3 bg-purple-600 rounded-sm mr-1"></span>Postulaciones</span>
+            </div>
+            <div className="flex items-end h-48 gap-px border-b border-gray-200">
+              {series.map(day => (
+                <div
+                  key={day.day}
+                  className="flex-1 h-full flex items-end justify-center gap-px"
+                  title={`${format(parseISO(day.day), "d 'de' MMMM", { locale: es })}: ${day.views} visitas, ${day.applications} postulaciones`}
+                >
+                  <div className="w-1/2 bg-blue-200 rounded-t-sm" style={{ height: `${(day.views / maxDaily) * 100}%` }}></div>
+                  <div className="w-1/2 bg-purple-600 rounded-t-sm" style={{ height: `${(day.applications / maxDaily) * 100}%` }}></div>
+                </div>
+              ))}
+            </div>
+            {series.length > 0 && (
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>{format(parseISO(series[0].day), 'd MMM', { locale: es })}</span>
+                <span>{format(parseISO(series[series.length - 1].day), 'd MMM', { locale: es })}</span>
+              </div>
+            )}
+          </ChartCard>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartCard
+              title="Embudo de selección"
+              description="Postulaciones del periodo que llegaron a cada etapa"
+              exportDisabled={funnel.length === 0}
+              onExport={() => exportReport(
+                'embudo',
+                ['Etapa', 'Alcanzaron', 'Conversión (%)', 'Actualmente'],
+                funnel.map(stage => [stage.stage_label, stage.reached, toRate(stage.reached, funnelBase), stage.current_count])
+              )}
+            >
+              {funnelBase === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">No hay postulaciones en este periodo</p>
+              ) : (
+                <div className="space-y-3">
+                  {funnel.map(stage => (
+                    <div key={stage.stage_key}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-700">{stage.stage_label}</span>
+                        <span className="text-gray-500">
+                          {stage.reached} · {formatNumber(toRate(stage.reached, funnelBase), '%')}
+                        </span>
+                      </div>
+                      <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full rounded-full ${
+                            stage.category === 'hired'
+                              ? 'bg-green-500'
+                              : stage.category === 'open'
+                                ? 'bg-blue-500'
+                                : 'bg-gray-400'
+                          }`}
+                          style={{ width: `${(stage.reached / maxReached) * 100}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ChartCard>
+
+            <ChartCard
+              title="Origen de las postulaciones"
+              description="Cómo llegaron los candidatos a la vacante"
+              exportDisabled={sources.length === 0}
+              onExport={() => exportReport(
+                'origen',
+                ['Origen', 'Postulaciones', 'Porcentaje (%)', 'Contrataciones'],
+                sources.map(source => [
+                  APPLICATION_SOURCE_LABELS[source.source],
+                  source.applications,
+                  toRate(source.applications, totalBySource),
+                  source.hired
+                ])
+              )}
+            >
+              {sources.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">No hay postulaciones en este periodo</p>
+              ) : (
+                <div className="space-y-3">
+                  {sources.map(source => (
+                    <div key={source.source}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-700">{APPLICATION_SOURCE_LABELS[source.source]}</span>
+                        <span className="text-gray-500">
+                          {source.applications} · {formatNumber(toRate(source.applications, totalBySource), '%')}
+                          {source.hired > 0 && ` · ${source.hired} contratado${source.hired !== 1 ? 's' : ''}`}
+                        </span>
+                      </div>
+                      <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-purple-500 rounded-full"
+                          style={{ width: `${(source.applications / totalBySource) * 100}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ChartCard>
+          </div>
+
+          <ChartCard
+            title="Comparación entre empleos"
+            description="Indicadores de cada vacante en el periodo"
+            exportDisabled={comparison.length === 0}
+            onExport={() => exportReport(
+              'comparacion_empleos',
+              [
+                'Empleo',
+                'Estado',
+                'Visitas',
+                'Postulaciones',
+                'Visitas que se postulan (%)',
+                'Respondidas',
+                'Primera respuesta (h)',
+                'Contrataciones',
+                'Tiempo de contratación (días)'
+              ],
+              comparison.map(job => [
+                job.title,
+                JOB_STATUS_LABELS[job.status],
+                job.views,
+                job.applications,
+                toRate(job.applications, job.views),
+                job.responded,
+                job.avg_response_hours,
+                job.hired,
+                job.avg_days_to_hire
+              ])
+            )}
+          >
+            {comparison.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">Tu empresa no tiene empleos todavía</p>
+            ) : (
+              <div className="overflow-x-auto -mx-6 -my-6">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left font-medium text-gray-600">Empleo</th>
+                      <th className="px-3 py-3 text-right font-medium text-gray-600">Visitas</th>
+                      <th className="px-3 py-3 text-right font-medium text-gray-600">Postulaciones</th>
+                      <th className="px-3 py-3 text-right font-medium text-gray-600">Conversión</th>
+                      <th className="px-3 py-3 text-right font-medium text-gray-600">Respondidas</th>
+                      <th className="px-3 py-3 text-right font-medium text-gray-600">1ª respuesta</th>
+                      <th className="px-3 py-3 text-right font-medium text-gray-600">Contratados</th>
+                      <th className="px-6 py-3 text-right font-medium text-gray-600">Contratación</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {comparison.map(job => (
+                      <tr
+                        key={job.job_id}
+                        className={filters.jobId === job.job_id ? 'bg-blue-50' : 'hover:bg-gray-50'}
+                      >
+                        <td className="px-6 py-3">
+                          <Link to={`/job-applications/${job.job_id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                            {job.title}
+                          </Link>
+                          <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${JOB_STATUS_BADGE_CLASSES[job.status]}`}>
+                            {JOB_STATUS_LABELS[job.status]}
+                          </span>
+                        </td>
+                        <td className="px-3 py-3 text-right">{formatNumber(job.views)}</td>
+                        <td className="px-3 py-3 text-right">{formatNumber(job.applications)}</td>
+                        <td className="px-3 py-3 text-right">{formatNumber(toRate(job.applications, job.views), '%')}</td>
+                        <td className="px-3 py-3 text-right">{formatNumber(job.responded)}</td>
+                        <td className="px-3 py-3 text-right">{formatNumber(job.avg_response_hours, ' h')}</td>
+                        <td className="px-3 py-3 text-right">{formatNumber(job.hired)}</td>
+                        <td className="px-6 py-3 text-right">{formatNumber(job.avg_days_to_hire, ' días')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,451 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import { SkillCatalog, loadSkillCatalog } from '../../lib/skills'
+import { canManageJobs } from '../../lib/companies'
+import {
+  Candidate,
+  TalentPool,
+  searchCandidates,
+  fetchTalentPools,
+  createTalentPool,
+  deleteTalentPool,
+  fetchPoolMemberships,
+  addToTalentPool,
+  removeFromTalentPool,
+  inviteCandidate,
+  fetchSentInvitations
+} from '../../lib/talent'
+import { Search, User, MapPin, Users, Plus, Trash2, Send, Check } from 'lucide-react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+
+interface ActiveJob {
+  id: string
+  title: string
+}
+
+const EXPERIENCE_PREVIEW_LENGTH = 240
+
+export function CandidateSearchPage() {
+  const { user, company } = useAuth()
+  const [skillCatalog, setSkillCatalog] = useState<SkillCatalog | null>(null)
+  const [skillsInput, setSkillsInput] = useState('')
+  const [locationInput, setLocationInput] = useState('')
+  const [experienceInput, setExperienceInput] = useState('')
+  const [selectedPoolId, setSelectedPoolId] = useState<string | null>(null)
+  const [candidates, setCandidates] = useState<Candidate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pools, setPools] = useState<TalentPool[]>([])
+  // candidate_id -> ids de los grupos en los que está
+  const [memberships, setMemberships] = useState<Map<string, string[]>>(new Map())
+  const [newPoolName, setNewPoolName] = useState('')
+  const [jobs, setJobs] = useState<ActiveJob[]>([])
+  // Claves `${job_id}:${candidate_id}` de las invitaciones ya enviadas
+  const [invited, setInvited] = useState<Set<string>>(new Set())
+  const [invitingCandidateId, setInvitingCandidateId] = useState<string | null>(null)
+  const [inviteJobId, setInviteJobId] = useState('')
+  const [inviteMessage, setInviteMessage] = useState('')
+  // Los miembros de solo lectura ven los grupos pero no los modifican ni invitan
+  const canManage = canManageJobs(company?.role)
+
+  useEffect(() => {
+    if (user) {
+      loadEmployerData()
+    }
+  }, [user, company?.company.id])
+
+  useEffect(() => {
+    if (user) {
+      runSearch()
+    }
+  }, [user, selectedPoolId, skillCatalog])
+
+  const loadEmployerData = async () => {
+    if (!user) return
+
+    try {
+      const [catalog, employerPools, { data: jobsData, error: jobsError }] = await Promise.all([
+        loadSkillCatalog().catch(error => {
+          // Sin taxonomía se busca solo por el texto escrito
+          console.error('Error loading skills:', error)
+          return null
+        }),
+        // Sin empresa no hay grupos ni empleos a los que invitar
+        company ? fetchTalentPools(company.company.id) : [],
+        company
+          ? supabase
+              .from('jobs')
+              .select('id, title')
+              .eq('company_id', company.company.id)
+              .eq('is_active', true)
+              .order('created_at', { ascending: false })
+          : { data: [], error: null }
+      ])
+
+      if (jobsError) throw jobsError
+
+      const invitations = await fetchSentInvitations((jobsData || []).map(job => job.id))
+
+      setSkillCatalog(catalog)
+      setPools(employerPools)
+      setMemberships(await fetchPoolMemberships(employerPools.map(pool => pool.id)))
+      setJobs(jobsData || [])
+      setInvited(new Set(invitations.map(invitation => `${invitation.job_id}:${invitation.candidate_id}`)))
+    } catch (error) {
+      console.error('Error loading talent pools:', error)
+      toast.error('Error al cargar los grupos de talento')
+    }
+  }
+
+  const runSearch = async () => {
+    setLoading(true)
+    try {
+      const skills = skillsInput.split(',').map(s => s.trim()).filter(Boolean)
+      setCandidates(await searchCandidates({
+        skills,
+        location: locationInput,
+        experience: experienceInput,
+        poolId: selectedPoolId
+      }, skillCatalog))
+    } catch (error) {
+      console.error('Error searching candidates:', error)
+      toast.error('Error al buscar candidatos')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    runSearch()
+  }
+
+  const handleCreatePool = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!company || !newPoolName.trim()) return
+
+    try {
+      const pool = await createTalentPool(company.company.id, newPoolName)
+      setPools(prev => [...prev, pool].sort((a, b) => a.name.localeCompare(b.name)))
+      setNewPoolName('')
+      toast.success('Grupo creado')
+    } catch (error) {
+      console.error('Error creating talent pool:', error)
+      toast.error('Error al crear el grupo. ¿Ya existe uno con ese nombre?')
+    }
+  }
+
+  const handleDeletePool = async (pool: TalentPool) => {
+    if (!confirm(`¿Eliminar el grupo "${pool.name}"? Los candidatos no se eliminan.`)) return
+
+    try {
+      await deleteTalentPool(pool.id)
+      setPools(prev => prev.filter(p => p.id !== pool.id))
+      setMemberships(prev => {
+        const next = new Map<string, string[]>()
+        prev.forEach((poolIds, candidateId) => next.set(candidateId, poolIds.filter(id => id !== pool.id)))
+        return next
+      })
+      if (selectedPoolId === pool.id) setSelectedPoolId(null)
+    } catch (error) {
+      console.error('Error deleting talent pool:', error)
+      toast.error('Error al eliminar el grupo')
+    }
+  }
+
+  const togglePoolMembership = async (poolId: string, candidateId: string) => {
+    const current = memberships.get(candidateId) || []
+    const isMember = current.includes(poolId)
+
+    try {
+      if (isMember) {
+        await removeFromTalentPool(poolId, candidateId)
+      } else {
+        await addToTalentPool(poolId, candidateId)
+      }
+      setMemberships(prev => {
+        const next = new Map(prev)
+        next.set(candidateId, isMember ? current.filter(id => id !== poolId) : [...current, poolId])
+        return next
+      })
+      // En la vista de un grupo, quitar al candidato lo saca de la lista
+      if (isMember && selectedPoolId === poolId) {
+        setCandidates(prev => prev.filter(candidate => candidate.id !== candidateId))
+      }
+    } catch (error) {
+      console.error('Error updating talent pool:', error)
+      toast.error('Error al actualizar el grupo')
+    }
+  }
+
+  const openInviteForm = (candidateId: string) => {
+    setInvitingCandidateId(candidateId)
+    setInviteJobId(jobs[0]?.id || '')
+    setInviteMessage('')
+  }
+
+  const handleInvite = async (e: React.FormEvent, candidate: Candidate) => {
+    e.preventDefault()
+    if (!user || !inviteJobId) return
+
+    try {
+      const sent = await inviteCandidate(user.id, inviteJobId, candidate.id, inviteMessage)
+      setInvited(prev => new Set(prev).add(`${inviteJobId}:${candidate.id}`))
+      setInvitingCandidateId(null)
+      if (sent) {
+        toast.success(`Invitación enviada a ${candidate.full_name}`)
+      } else {
+        toast.error('Ya habías invitado a este candidato a ese empleo')
+      }
+    } catch (error) {
+      console.error('Error inviting candidate:', error)
+      toast.error('Error al enviar la invitación')
+    }
+  }
+
+  const selectedPool = pools.find(pool => pool.id === selectedPoolId)
+
+  return (
+    <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Buscar Candidatos</h1>
+        <p className="text-gray-600 mt-2">
+          Solo aparecen los aspirantes que eligieron ser visibles para reclutadores.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        {/* Grupos de talento */}
+        <aside className="lg:col-span-1">
+          <div className="bg-white shadow rounded-lg p-4">
+            <h2 className="flex items-center text-sm font-medium text-gray-900 mb-3">
+              <Users className="h-4 w-4 mr-2" />
+              Grupos de talento
+            </h2>
+            <ul className="space-y-1">
+              <li>
+                <button
+                  onClick={() => setSelectedPoolId(null)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                    selectedPoolId === null ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  Todos los candidatos
+                </button>
+              </li>
+              {pools.map(pool => (
+                <li key={pool.id} className="flex items-center">
+                  <button
+                    onClick={() => setSelectedPoolId(pool.id)}
+                    className={`flex-1 text-left px-3 py-2 rounded-md text-sm truncate ${
+                      selectedPoolId === pool.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {pool.name}
+                  </button>
+                  {canManage && (
+                    <button
+                      onClick={() => handleDeletePool(pool)}
+                      title="Eliminar grupo"
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {canManage && (
+              <form onSubmit={handleCreatePool} className="mt-3 flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={newPoolName}
+                  onChange={(e) => setNewPoolName(e.target.value)}
+                  placeholder="Nuevo grupo"
+                  className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!newPoolName.trim()}
+                  title="Crear grupo"
+                  className="p-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Plus className="h-4 w-4" />
+                </button>
+              </form>
+            )}
+          </div>
+        </aside>
+
+        <div className="lg:col-span-3">
+          {/* Filtros */}
+          <form onSubmit={handleSearch} className="bg-white shadow rounded-lg p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <input
+              type="text"
+              value={skillsInput}
+              onChange={(e) => setSkillsInput(e.target.value)}
+              placeholder="Habilidades (ej. React, SQL)"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={locationInput}
+              onChange={(e) => setLocationInput(e.target.value)}
+              placeholder="Ubicación"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={experienceInput}
+              onChange={(e) => setExperienceInput(e.target.value)}
+              placeholder="Experiencia (ej. ventas retail)"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              className="flex items-center justify-center px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Buscar
+            </button>
+          </form>
+
+          <p className="mt-4 mb-4 text-sm text-gray-500">
+            {candidates.length} candidato{candidates.length !== 1 ? 's' : ''}
+            {selectedPool && ` en "${selectedPool.name}"`}
+          </p>
+
+          {/* Resultados */}
+          <div className={`space-y-4 ${loading ? 'opacity-50' : ''}`}>
+            {!loading && candidates.length === 0 && (
+              <div className="text-center py-12 bg-white rounded-lg shadow">
+                <p className="text-gray-500 text-lg">No hay candidatos que coincidan con la búsqueda.</p>
+              </div>
+            )}
+
+            {candidates.map(candidate => {
+              const candidatePools = memberships.get(candidate.id) || []
+              return (
+                <div key={candidate.id} className="bg-white shadow rounded-lg p-6">
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div className="flex items-center">
+                      <User className="h-10 w-10 text-gray-400 bg-gray-100 rounded-full p-2" />
+                      <div className="ml-4">
+                        <div className="font-medium text-gray-900">{candidate.full_name}</div>
+                        <div className="flex items-center text-gray-500 text-sm">
+                          <MapPin className="h-4 w-4 mr-1" />
+                          {candidate.location || 'Ubicación no especificada'}
+                          <span className="ml-3">
+                            Actualizado el {format(new Date(candidate.updated_at), "d 'de' MMMM, yyyy", { locale: es })}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                    {canManage && (
+                      <button
+                        onClick={() => openInviteForm(candidate.id)}
+                        disabled={jobs.length === 0}
+                        title={jobs.length === 0 ? 'Necesitas un empleo activo para invitar' : undefined}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Send className="h-4 w-4 mr-1" />
+                        Invitar a postularse
+                      </button>
+                    )}
+                  </div>
+
+                  {candidate.skills && candidate.skills.length > 0 && (
+                    <div className="mt-4 flex flex-wrap gap-2">
+                      {candidate.skills.map((skill, index) => (
+                        <span
+                          key={index}
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                        >
+                          {skill}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {candidate.experience && (
+                    <p className="mt-4 text-sm text-gray-600 whitespace-pre-line">
+                      {candidate.experience.length > EXPERIENCE_PREVIEW_LENGTH
+                        ? `${candidate.experience.slice(0, EXPERIENCE_PREVIEW_LENGTH)}…`
+                        : candidate.experience}
+                    </p>
+                  )}
+
+                  {pools.length > 0 && (
+                    <div className="mt-4 flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-gray-500">Grupos:</span>
+                      {pools.map(pool => {
+                        const isMember = candidatePools.includes(pool.id)
+                        return (
+                          <button
+                            key={pool.id}
+                            onClick={() => togglePoolMembership(pool.id, candidate.id)}
+                            disabled={!canManage}
+                            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${
+                              isMember
+                                ? 'bg-green-100 border-green-200 text-green-800'
+                                : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                            } disabled:cursor-default`}
+                          >
+                            {isMember ? <Check className="h-3 w-3 mr-1" /> : <Plus className="h-3 w-3 mr-1" />}
+                            {pool.name}
+                          </button>
+                        )
+                      })}
+                    </div>
+                  )}
+
+                  {invitingCandidateId === candidate.id && (
+                    <form onSubmit={(e) => handleInvite(e, candidate)} className="mt-4 bg-gray-50 rounded-lg p-4 space-y-3">
+                      <select
+                        value={inviteJobId}
+                        onChange={(e) => setInviteJobId(e.target.value)}
+                        className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {jobs.map(job => (
+                          <option key={job.id} value={job.id}>
+                            {job.title}
+                            {invited.has(`${job.id}:${candidate.id}`) ? ' (ya invitado)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      <textarea
+                        value={inviteMessage}
+                        onChange={(e) => setInviteMessage(e.target.value)}
+                        rows={3}
+                        placeholder="Mensaje opcional para el candidato"
+                        className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <div className="flex justify-end space-x-3">
+                        <button
+                          type="button"
+                          onClick={() => setInvitingCandidateId(null)}
+                          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                        >
+                          Cancelar
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={!inviteJobId || invited.has(`${inviteJobId}:${candidate.id}`)}
+                          className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Enviar invitación
+                        </button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,419 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { useAuth } from '../../contexts/AuthContext'
+import {
+  CompanyInvitation,
+  CompanyMember,
+  CompanyRole,
+  PendingCompanyInvitation,
+  COMPANY_ROLE_LABELS,
+  canManageCompany,
+  createCompany,
+  fetchCompanyMembers,
+  fetchCompanyInvitations,
+  fetchMyCompanyInvitations,
+  inviteToCompany,
+  deleteCompanyInvitation,
+  acceptCompanyInvitation,
+  updateMemberRole,
+  removeCompanyMember
+} from '../../lib/companies'
+import { Building2, Mail, Plus, Trash2, Check, X, LogOut } from 'lucide-react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+
+const INVITATION_ROLES: CompanyInvitation['role'][] = ['admin', 'recruiter', 'viewer']
+
+export function CompanyPage() {
+  const { user, profile, company, refreshProfile } = useAuth()
+  const [members, setMembers] = useState<CompanyMember[]>([])
+  const [invitations, setInvitations] = useState<CompanyInvitation[]>([])
+  const [myInvitations, setMyInvitations] = useState<PendingCompanyInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [newCompanyName, setNewCompanyName] = useState('')
+  const [newCompanyDescription, setNewCompanyDescription] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<CompanyInvitation['role']>('recruiter')
+
+  const isAdmin = canManageCompany(company?.role)
+  const isOwner = company?.role === 'owner'
+
+  useEffect(() => {
+    loadCompanyData()
+  }, [user, company?.company.id, company?.role])
+
+  const loadCompanyData = async () => {
+    if (!user || !profile) return
+
+    try {
+      if (company) {
+        const [companyMembers, companyInvitations] = await Promise.all([
+          fetchCompanyMembers(company.company.id),
+          canManageCompany(company.role) ? fetchCompanyInvitations(company.company.id) : Promise.resolve([])
+        ])
+        setMembers(companyMembers)
+        setInvitations(companyInvitations)
+      } else {
+        setMyInvitations(await fetchMyCompanyInvitations(profile.email))
+      }
+    } catch (error) {
+      console.error('Error loading company:', error)
+      toast.error('Error al cargar los datos de la empresa')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreateCompany = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newCompanyName.trim()) return
+
+    setSaving(true)
+    try {
+      await createCompany(newCompanyName, newCompanyDescription)
+      await refreshProfile()
+      toast.success('Empresa creada')
+    } catch (error) {
+      console.error('Error creating company:', error)
+      toast.error((error as Error).message || 'Error al crear la empresa')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAcceptInvitation = async (invitationId: string) => {
+    setSaving(true)
+    try {
+      await acceptCompanyInvitation(invitationId)
+      await refreshProfile()
+      toast.success('Te uniste a la empresa')
+    } catch (error) {
+      console.error('Error accepting invitation:', error)
+      toast.error((error as Error).message || 'Error al aceptar la invitación')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteInvitation = async (invitationId: string) => {
+    try {
+      await deleteCompanyInvitation(invitationId)
+      setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId))
+      setMyInvitations(prev => prev.filter(invitation => invitation.id !== invitationId))
+    } catch (error) {
+      console.error('Error deleting invitation:', error)
+      toast.error('Error al eliminar la invitación')
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!company || !user || !inviteEmail.trim()) return
+
+    if (members.some(member => member.email.toLowerCase() === inviteEmail.trim().toLowerCase())) {
+      toast.error('Esa persona ya es miembro de la empresa')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const invited = await inviteToCompany(company.company.id, user.id, inviteEmail, inviteRole)
+      if (!invited) {
+        toast.error('Ya hay una invitación pendiente para ese correo')
+        return
+      }
+      setInviteEmail('')
+      setInvitations(await fetchCompanyInvitations(company.company.id))
+      toast.success('Invitación enviada')
+    } catch (error) {
+      console.error('Error inviting to company:', error)
+      toast.error((error as Error).message || 'Error al enviar la invitación')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRoleChange = async (member: CompanyMember, role: CompanyRole) => {
+    if (!company) return
+
+    try {
+      await updateMemberRole(company.company.id, member.user_id, role)
+      setMembers(prev => prev.map(m => (m.user_id === member.user_id ? { ...m, role } : m)))
+      // Si el usuario cambió su propio rol, se recargan sus permisos
+      if (member.user_id === user?.id) {
+        await refreshProfile()
+      }
+    } catch (error) {
+      console.error('Error updating member role:', error)
+      toast.error((error as Error).message || 'Error al cambiar el rol')
+    }
+  }
+
+  const handleRemoveMember = async (member: CompanyMember) => {
+    if (!company) return
+
+    const leaving = member.user_id === user?.id
+    const question = leaving
+      ? '¿Salir de la empresa? Dejarás de ver sus empleos y postulaciones.'
+      : `¿Quitar a ${member.full_name} de la empresa?`
+    if (!window.confirm(question)) return
+
+    try {
+      await removeCompanyMember(company.company.id, member.user_id)
+      if (leaving) {
+        await refreshProfile()
+        toast.success('Saliste de la empresa')
+      } else {
+        setMembers(prev => prev.filter(m => m.user_id !== member.user_id))
+      }
+    } catch (error) {
+      console.error('Error removing member:', error)
+      toast.error((error as Error).message || 'Error al quitar al miembro')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-3/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!company) {
+    return (
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        {myInvitations.length > 0 && (
+          <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Mail className="h-5 w-5 mr-2 text-blue-600" />
+                Invitaciones pendientes
+              </h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {myInvitations.map(invitation => (
+                <div key={invitation.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{invitation.company?.name || 'Empresa'}</p>
+                    <p className="text-sm text-gray-500">
+                      Rol: {COMPANY_ROLE_LABELS[invitation.role]} · {format(new Date(invitation.created_at), 'dd MMM yyyy', { locale: es })}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleAcceptInvitation(invitation.id)}
+                      disabled={saving}
+                      className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Aceptar
+                    </button>
+                    <button
+                      onClick={() => handleDeleteInvitation(invitation.id)}
+                      disabled={saving}
+                      className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Rechazar
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+          <div className="px-6 py-8 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Building2 className="h-6 w-6 mr-2 text-blue-600" />
+              Registrar empresa
+            </h1>
+            <p className="text-gray-600 mt-2">
+              Serás el propietario y podrás invitar a otros reclutadores a publicar empleos contigo.
+            </p>
+          </div>
+          <form onSubmit={handleCreateCompany} className="px-6 py-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Nombre de la Empresa
+              </label>
+              <input
+                type="text"
+                value={newCompanyName}
+                onChange={(e) => setNewCompanyName(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Nombre de tu empresa"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Descripción de la Empresa (Opcional)
+              </label>
+              <textarea
+                value={newCompanyDescription}
+                onChange={(e) => setNewCompanyDescription(e.target.value)}
+                rows={3}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Describe brevemente tu empresa..."
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving || !newCompanyName.trim()}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Crear empresa
+            </button>
+          </form>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+      <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+        <div className="px-6 py-8 border-b border-gray-200">
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Building2 className="h-6 w-6 mr-2 text-blue-600" />
+            {company.company.name}
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Tu rol: {COMPANY_ROLE_LABELS[company.role]}.{' '}
+            {isAdmin && (
+              <Link to="/profile" className="text-blue-600 hover:text-blue-800">
+                Editar datos de la empresa
+              </Link>
+            )}
+          </p>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Miembros</h2>
+        </div>
+        <div className="divide-y divide-gray-200">
+          {members.map(member => {
+            const isSelf = member.user_id === user?.id
+            // Solo un propietario puede cambiar o quitar a otro propietario
+            const canEdit = isAdmin && (isOwner || member.role !== 'owner')
+
+            return (
+              <div key={member.user_id} className="px-6 py-4 flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {member.full_name}
+                    {isSelf && <span className="ml-2 text-xs text-gray-500">(tú)</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">{member.email}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {canEdit ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as CompanyRole)}
+                      className="block pl-2 pr-8 py-1.5 text-sm border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {(Object.keys(COMPANY_ROLE_LABELS) as CompanyRole[])
+                        .filter(role => isOwner || role !== 'owner')
+                        .map(role => (
+                          <option key={role} value={role}>{COMPANY_ROLE_LABELS[role]}</option>
+                        ))}
+                    </select>
+                  ) : (
+                    <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                      {COMPANY_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                  {isSelf ? (
+                    <button
+                      onClick={() => handleRemoveMember(member)}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Salir de la empresa"
+                    >
+                      <LogOut className="h-4 w-4" />
+                    </button>
+                  ) : canEdit && (
+                    <button
+                      onClick={() => handleRemoveMember(member)}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Quitar de la empresa"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {isAdmin && (
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Invitar por correo</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              La persona recibirá un correo y verá la invitación al iniciar sesión con una cuenta de empleador.
+            </p>
+          </div>
+          <form onSubmit={handleInvite} className="px-6 py-4 flex flex-col sm:flex-row gap-3">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="correo@empresa.com"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as CompanyInvitation['role'])}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {INVITATION_ROLES.map(role => (
+                <option key={role} value={role}>{COMPANY_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={saving || !inviteEmail.trim()}
+              className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              Invitar
+            </button>
+          </form>
+
+          {invitations.length > 0 && (
+            <div className="divide-y divide-gray-200 border-t border-gray-200">
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="px-6 py-3 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-900">{invitation.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {COMPANY_ROLE_LABELS[invitation.role]} · Enviada el {format(new Date(invitation.created_at), 'dd MMM yyyy', { locale: es })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteInvitation(invitation.id)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Cancelar invitación"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,28 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../contexts/AuthContext'
-import { CurrencyConverter } from '../../components/CurrencyConverter'
+import { JobSalary } from '../../components/JobSalary'
+import { CompanyAccessNotice } from '../../components/CompanyAccessNotice'
+import { COMPANY_ROLE_LABELS, canManageJobs } from '../../lib/companies'
+import { JobStatus, JOB_STATUS_LABELS, JOB_STATUS_BADGE_CLASSES, closeJob } from '../../lib/jobs'
+import { JobStats, fetchJobStats } from '../../lib/analytics'
 import { 
   Plus, 
   Briefcase, 
   Users, 
   Eye, 
   Edit, 
+  Copy,
   MoreVertical,
   MapPin,
-  Clock
+  Clock,
+  Play,
+  Pause,
+  XCircle,
+  CalendarClock,
+  BarChart3,
+  Upload
 } from 'lucide-react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
@@ -22,11 +33,18 @@ interface Job {
   title: string
   description: string
   location: string
-  salary: number
+  salary_min: number | null
+  salary_max: number | null
+  salary_period: string
+  salary_negotiable: boolean
   currency: string
   job_type: string
-  is_active: boolean
+  status: JobStatus
+  publish_at: string | null
+  expires_at: string | null
   created_at: string
+  // Reclutador que publicó el empleo
+  creator?: { full_name: string } | null
   // application_count se calcula después
   application_count?: number
   applications?: Application[]
@@ -35,14 +53,17 @@ interface Job {
 interface Application {
   id: string
   job_id: string
-  status: 'pending' | 'accepted' | 'rejected'
+  status: string
   created_at: string
 }
 
 export function DashboardPage() {
-  const { user, profile } = useAuth()
+  const { user, profile, company, notifications } = useAuth()
+  const mountedAt = useRef(Date.now())
   const navigate = useNavigate()
   const [jobs, setJobs] = useState<Job[]>([])
+  // job_id -> visitas y conversión del empleo
+  const [jobStats, setJobStats] = useState<Record<string, JobStats>>({})
   const [loading, setLoading] = useState(true)
   const [stats, setStats] = useState({
     totalJobs: 0,
@@ -59,17 +80,35 @@ export function DashboardPage() {
 
   useEffect(() => {
     loadDashboardData()
-  }, [user])
+  }, [user, company?.company.id])
+
+  // Recargar cuando llega en vivo una notificación de nueva postulación
+  useEffect(() => {
+    const latest = notifications[0]
+    if (
+      latest?.type === 'application_received' &&
+      new Date(latest.created_at).getTime() > mountedAt.current
+    ) {
+      loadDashboardData()
+    }
+  }, [notifications[0]?.id])
 
   const loadDashboardData = async () => {
     if (!user) return
+    if (!company) {
+      setLoading(false)
+      return
+    }
 
     try {
-      // Cargar empleos con postulaciones anidadas
+      // Cargar los empleos de la empresa con postulaciones anidadas
       const { data: jobsData, error: jobsError } = await supabase
         .from('jobs')
         .select(`
           *,
+          creator:profiles!jobs_employer_id_fkey (
+            full_name
+          ),
           applications (
             id,
             job_id,
@@ -77,7 +116,7 @@ export function DashboardPage() {
             created_at
           )
         `)
-        .eq('employer_id', user.id)
+        .eq('company_id', company.company.id)
         .order('created_at', { ascending: false })
 
       if (jobsError) throw jobsError
@@ -85,16 +124,22 @@ export function DashboardPage() {
       // jobsData puede ser null
       const jobsWithCounts: Job[] = (jobsData || []).map((job: any) => ({
         ...job,
+        creator: Array.isArray(job.creator) ? job.creator[0] : job.creator,
         application_count: job.applications ? job.applications.length : 0,
       }))
 
-      const activeJobs = jobsWithCounts.filter((job: Job) => job.is_active).length
+      const activeJobs = jobsWithCounts.filter((job: Job) => job.status === 'published').length
       const allApplications = jobsWithCounts.flatMap((job: Job) => job.applications || [])
       const pendingApplications = allApplications.filter((app: Application) => app.status === 'pending').length
       const totalApplications = allApplications.length
 
       setJobs(jobsWithCounts)
 
+      // Las visitas son informativas: si fallan se muestra el resto del dashboard
+      fetchJobStats(jobsWithCounts.map(job => job.id))
+        .then(setJobStats)
+        .catch(error => console.error('Error loading job stats:', error))
+
       // Calcular estadísticas
       const totalJobs = jobsWithCounts.length
 
@@ -113,34 +158,63 @@ export function DashboardPage() {
     }
   }
 
-  const toggleJobStatus = async (jobId: string, currentStatus: boolean) => {
+  // Reemplaza un empleo en la lista y recalcula los empleos publicados
+  const replaceJob = (jobId: string, changes: Partial<Job>) => {
+    const updatedJobs = jobs.map(job => (job.id === jobId ? { ...job, ...changes } : job))
+    setJobs(updatedJobs)
+    setStats(prev => ({
+      ...prev,
+      activeJobs: updatedJobs.filter(job => job.status === 'published').length
+    }))
+  }
+
+  const changeJobStatus = async (job: Job, status: JobStatus) => {
     try {
-      const { error } = await supabase
+      // La base de datos puede ajustar el estado: un empleo vencido no se publica
+      const { data, error } = await supabase
         .from('jobs')
-        .update({ is_active: !currentStatus })
-        .eq('id', jobId)
+        .update({ status })
+        .eq('id', job.id)
+        .select('status')
+        .single()
 
       if (error) throw error
 
-      setJobs(jobs.map(job => 
-        job.id === jobId 
-          ? { ...job, is_active: !currentStatus }
-          : job
-      ))
-
-      toast.success(`Empleo ${!currentStatus ? 'activado' : 'desactivado'} exitosamente`)
-      
-      // Actualizar estadísticas
-      if (!currentStatus) {
-        setStats(prev => ({ ...prev, activeJobs: prev.activeJobs + 1 }))
+      replaceJob(job.id, { status: data.status })
+
+      if (data.status === 'expired') {
+        toast.error('La fecha de vencimiento ya pasó. Edita el empleo para cambiarla')
       } else {
-        setStats(prev => ({ ...prev, activeJobs: prev.activeJobs - 1 }))
+        toast.success(`Empleo ${JOB_STATUS_LABELS[data.status as JobStatus].toLowerCase()}`)
       }
-    } catch (error: any) {
+    } catch (error) {
+      console.error('Error updating job status:', error)
       toast.error('Error al actualizar estado del empleo')
     }
   }
 
+  const handleCloseJob = async (job: Job) => {
+    const message = window.prompt(
+      `¿Cerrar "${job.title}"? Las postulaciones que siguen en proceso se rechazarán y se avisará a los candidatos.\n\nMensaje para los candidatos (opcional):`
+    )
+    // null significa que se canceló el diálogo
+    if (message === null) return
+
+    try {
+      const rejected = await closeJob(job.id, message)
+      replaceJob(job.id, { status: 'closed' })
+      toast.success(
+        rejected > 0
+          ? `Empleo cerrado. Se avisó a ${rejected} candidato${rejected !== 1 ? 's' : ''}`
+          : 'Empleo cerrado'
+      )
+      loadDashboardData()
+    } catch (error) {
+      console.error('Error closing job:', error)
+      toast.error('Error al cerrar el empleo')
+    }
+  }
+
   const getJobTypeLabel = (type: string) => {
     const types: { [key: string]: string } = {
       'full-time': 'Tiempo Completo',
@@ -151,6 +225,8 @@ export function DashboardPage() {
     return types[type] || type
   }
 
+  const canManage = canManageJobs(company?.role)
+
   if (loading) {
     return (
       <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
@@ -166,6 +242,11 @@ export function DashboardPage() {
     )
   }
 
+  // Sin empresa no hay empleos que mostrar: se crea una o se acepta una invitación
+  if (!company) {
+    return <CompanyAccessNotice hasCompany={false} />
+  }
+
   return (
     <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
       <div className="mb-8">
@@ -177,17 +258,37 @@ export function DashboardPage() {
             <p className="text-gray-600">
               Bienvenido, {profile?.full_name}
             </p>
-            {profile && (profile as Profile).company_name && (
-              <p className="text-gray-500">{(profile as Profile).company_name}</p>
+            <p className="text-gray-500">
+              {company.company.name} · {COMPANY_ROLE_LABELS[company.role]}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Link
+              to="/analytics"
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-md hover:bg-gray-50 transition-colors"
+            >
+              <BarChart3 className="h-4 w-4" />
+              <span>Ver analítica</span>
+            </Link>
+            {canManage && (
+              <Link
+                to="/import-jobs"
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-md hover:bg-gray-50 transition-colors"
+              >
+                <Upload className="h-4 w-4" />
+                <span>Importar</span>
+              </Link>
+            )}
+            {canManage && (
+              <Link
+                to="/dashboard/jobs/new"
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Publicar Empleo</span>
+              </Link>
             )}
           </div>
-          <Link
-            to="/dashboard/jobs/new"
-            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="h-4 w-4" />
-            <span>Publicar Empleo</span>
-          </Link>
         </div>
       </div>
 
@@ -239,27 +340,29 @@ export function DashboardPage() {
       {/* Lista de empleos */}
       <div className="bg-white shadow-lg rounded-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Mis Empleos Publicados</h2>
+          <h2 className="text-xl font-semibold text-gray-900">Empleos de la Empresa</h2>
         </div>
 
         {jobs.length === 0 ? (
           <div className="text-center py-12">
             <Briefcase className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">
-              No has publicado empleos aún
+              Tu empresa no ha publicado empleos aún
             </h3>
             <p className="mt-1 text-sm text-gray-500">
               Comienza publicando tu primer empleo para atraer candidatos.
             </p>
-            <div className="mt-6">
-              <Link
-                to="/dashboard/jobs/new"
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Publicar Primer Empleo
-              </Link>
-            </div>
+            {canManage && (
+              <div className="mt-6">
+                <Link
+                  to="/dashboard/jobs/new"
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Publicar Primer Empleo
+                </Link>
+              </div>
+            )}
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
@@ -271,12 +374,8 @@ export function DashboardPage() {
                       <h3 className="text-lg font-semibold text-gray-900">
                         {job.title}
                       </h3>
-                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                        job.is_active 
-                          ? 'bg-green-100 text-green-800' 
-                          : 'bg-gray-100 text-gray-800'
-                      }`}>
-                        {job.is_active ? 'Activo' : 'Inactivo'}
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${JOB_STATUS_BADGE_CLASSES[job.status]}`}>
+                        {JOB_STATUS_LABELS[job.status]}
                       </span>
                     </div>
 
@@ -292,11 +391,36 @@ export function DashboardPage() {
                       <div className="flex items-center">
                         <Clock className="h-4 w-4 mr-1" />
                         {format(new Date(job.created_at), 'dd MMM yyyy', { locale: es })}
+                        {job.creator && ` · ${job.creator.full_name}`}
                       </div>
                       <div className="flex items-center">
                         <Users className="h-4 w-4 mr-1" />
                         {job.application_count} postulacion{job.application_count !== 1 ? 'es' : ''}
                       </div>
+                      {jobStats[job.id] && (
+                        <div
+                          className="flex items-center"
+                          title={`${jobStats[job.id].unique_viewers} visitantes únicos`}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          {jobStats[job.id].views} visita{jobStats[job.id].views !== 1 ? 's' : ''}
+                          {jobStats[job.id].view_to_apply_rate !== null && (
+                            <span className="ml-1">· {jobStats[job.id].view_to_apply_rate}% se postula</span>
+                          )}
+                        </div>
+                      )}
+                      {job.status === 'scheduled' && job.publish_at && (
+                        <div className="flex items-center text-blue-700">
+                          <CalendarClock className="h-4 w-4 mr-1" />
+                          Se publica el {format(new Date(job.publish_at), "d MMM yyyy, HH:mm", { locale: es })}
+                        </div>
+                      )}
+                      {job.expires_at && (job.status === 'published' || job.status === 'scheduled') && (
+                        <div className="flex items-center">
+                          <CalendarClock className="h-4 w-4 mr-1" />
+                          Vence el {format(new Date(job.expires_at), "d MMM yyyy, HH:mm", { locale: es })}
+                        </div>
+                      )}
                     </div>
 
                     <p className="text-gray-600 line-clamp-2 mb-3">
@@ -305,10 +429,7 @@ export function DashboardPage() {
                   </div>
 
                   <div className="text-right space-y-3">
-                    <CurrencyConverter
-                      amount={job.salary}
-                      baseCurrency={job.currency}
-                    />
+                    <JobSalary job={job} />
 
                     <div className="flex items-center space-x-2">
                       <Link
@@ -336,19 +457,51 @@ export function DashboardPage() {
                             <Eye className="h-4 w-4 mr-2" />
                             Ver como candidato
                           </Link>
-                          <Link
-                            to={`/dashboard/jobs/${job.id}/edit`}
-                            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
-                          >
-                            <Edit className="h-4 w-4 mr-2" />
-                            Editar empleo
-                          </Link>
-                          <button
-                            onClick={() => toggleJobStatus(job.id, job.is_active)}
-                            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
-                          >
-                            {job.is_active ? 'Desactivar' : 'Activar'} empleo
-                          </button>
+                          {canManage && (
+                            <>
+                              <Link
+                                to={`/edit-job/${job.id}`}
+                                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                              >
+                                <Edit className="h-4 w-4 mr-2" />
+                                Editar empleo
+                              </Link>
+                              <Link
+                                to={`/create-job?duplicate=${job.id}`}
+                                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                              >
+                                <Copy className="h-4 w-4 mr-2" />
+                                Duplicar empleo
+                              </Link>
+                              {job.status !== 'published' && job.status !== 'closed' && (
+                                <button
+                                  onClick={() => changeJobStatus(job, 'published')}
+                                  className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                                >
+                                  <Play className="h-4 w-4 mr-2" />
+                                  {job.status === 'paused' || job.status === 'expired' ? 'Reactivar' : 'Publicar ahora'}
+                                </button>
+                              )}
+                              {job.status === 'published' && (
+                                <button
+                                  onClick={() => changeJobStatus(job, 'paused')}
+                                  className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                                >
+                                  <Pause className="h-4 w-4 mr-2" />
+                                  Pausar empleo
+                                </button>
+                              )}
+                              {job.status !== 'draft' && job.status !== 'closed' && (
+                                <button
+                                  onClick={() => handleCloseJob(job)}
+                                  className="flex items-center w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                                >
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Cerrar y avisar a candidatos
+                                </button>
+                              )}
+                            </>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -362,11 +515,3 @@ export function DashboardPage() {
     </div>
   )
 }
-
-export interface Profile {
-  id: string
-  full_name: string
-  avatar_url?: string
-  company_name?: string
-  // ...other properties
-}
\ No newline at end of file
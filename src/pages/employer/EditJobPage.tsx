@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { supabase } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import { JobFormData, JobStatus, jobToFormValues, jobFormToRecord, resolveJobStatus } from '../../lib/jobs'
+import { JobForm } from '../../components/JobForm'
+import { CompanyAccessNotice } from '../../components/CompanyAccessNotice'
+import { canManageJobs } from '../../lib/companies'
+import { fetchScreeningQuestionDrafts, saveScreeningQuestions } from '../../lib/screening'
+import { ArrowLeft, Copy } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+export function EditJobPage() {
+  const { id } = useParams<{ id: string }>()
+  const { user, company } = useAuth()
+  const navigate = useNavigate()
+  const [job, setJob] = useState<Partial<JobFormData> | null>(null)
+  const [status, setStatus] = useState<JobStatus>('published')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (id) {
+      loadJob()
+    }
+  }, [id, user, company?.company.id])
+
+  const loadJob = async () => {
+    if (!user || !id || !company) return
+
+    try {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', id)
+        .eq('company_id', company.company.id)
+        .single()
+
+      if (error) throw error
+
+      setStatus(data.status)
+      setJob({
+        ...jobToFormValues(data),
+        screening_questions: await fetchScreeningQuestionDrafts(id)
+      })
+    } catch (error) {
+      console.error('Error loading job:', error)
+      toast.error('Error al cargar el empleo')
+      navigate('/dashboard')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onSubmit = async (data: JobFormData) => {
+    if (!user || !id || !company) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('jobs')
+        .update({ ...jobFormToRecord(data), status: resolveJobStatus(status, data.publish_at) })
+        .eq('id', id)
+        .eq('company_id', company.company.id)
+
+      if (error) throw error
+
+      await saveScreeningQuestions(id, data.screening_questions)
+
+      toast.success('Empleo actualizado exitosamente')
+      navigate('/dashboard')
+    } catch (error) {
+      toast.error((error as Error).message || 'Error al actualizar el empleo')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!canManageJobs(company?.role)) {
+    return <CompanyAccessNotice hasCompany={!!company} />
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-3/4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!job) return null
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <button
+        onClick={() => navigate('/dashboard')}
+        className="flex items-center text-blue-600 hover:text-blue-800 mb-6 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Volver al Dashboard
+      </button>
+
+      <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+        <div className="px-6 py-8 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Editar Empleo
+            </h1>
+            <p className="text-gray-600 mt-2">
+              Los cambios se reflejarán inmediatamente en la publicación
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => navigate(`/create-job?duplicate=${id}`)}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-sm text-gray-700 font-medium rounded-md hover:bg-gray-50 transition-colors"
+          >
+            <Copy className="h-4 w-4" />
+            <span>Duplicar como nueva publicación</span>
+          </button>
+        </div>
+
+        <JobForm
+          defaultValues={job}
+          onSubmit={onSubmit}
+          onCancel={() => navigate('/dashboard')}
+          loading={saving}
+          submitLabel="Guardar Cambios"
+          loadingLabel="Guardando..."
+        />
+      </div>
+    </div>
+  )
+}
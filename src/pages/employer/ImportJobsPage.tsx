@@ -0,0 +1,303 @@
+import { useState, useEffect, useMemo, ChangeEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../../contexts/AuthContext'
+import { CompanyAccessNotice } from '../../components/CompanyAccessNotice'
+import { canManageJobs } from '../../lib/companies'
+import { SkillCatalog, loadSkillCatalog } from '../../lib/skills'
+import {
+  ImportTable,
+  ColumnMapping,
+  ImportField,
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  parseImportFile,
+  guessColumnMapping,
+  buildImportRows,
+  importJobs,
+  downloadImportTemplate
+} from '../../lib/jobImport'
+import { ArrowLeft, Upload, Download, CheckCircle, AlertCircle, FileText } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+export function ImportJobsPage() {
+  const { user, company } = useAuth()
+  const navigate = useNavigate()
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [catalog, setCatalog] = useState<SkillCatalog | null>(null)
+  const [asDraft, setAsDraft] = useState(false)
+  const [onlyErrors, setOnlyErrors] = useState(false)
+  const [reading, setReading] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  useEffect(() => {
+    loadSkillCatalog()
+      .then(setCatalog)
+      .catch(error => console.error('Error loading skills:', error))
+  }, [])
+
+  // Cada cambio en la asignación de columnas vuelve a validar todas las filas
+  const rows = useMemo(
+    () => (table ? buildImportRows(table, mapping, catalog) : []),
+    [table, mapping, catalog]
+  )
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setReading(true)
+    try {
+      const data = await parseImportFile(file)
+      setTable(data)
+      setMapping(guessColumnMapping(data.headers))
+      setFileName(file.name)
+      setOnlyErrors(false)
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      toast.error((error as Error).message || 'No se pudo leer el archivo')
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+  }
+
+  const resetImport = () => {
+    setTable(null)
+    setMapping({})
+    setFileName('')
+  }
+
+  const validJobs = rows.flatMap(row => (row.data ? [row.data] : []))
+  const invalidCount = rows.length - validJobs.length
+  const visibleRows = onlyErrors ? rows.filter(row => row.errors.length > 0) : rows
+
+  const handleImport = async () => {
+    if (!user || !company || validJobs.length === 0) return
+    if (invalidCount > 0 && !confirm(`${invalidCount} fila${invalidCount !== 1 ? 's' : ''} con errores no se importará${invalidCount !== 1 ? 'n' : ''}. ¿Continuar?`)) return
+
+    setImporting(true)
+    try {
+      const count = await importJobs(company.company.id, user.id, validJobs, asDraft)
+      toast.success(`${count} empleo${count !== 1 ? 's' : ''} importado${count !== 1 ? 's' : ''}`)
+      navigate('/dashboard')
+    } catch (error) {
+      console.error('Error importing jobs:', error)
+      toast.error((error as Error).message || 'Error al importar los empleos')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (!canManageJobs(company?.role)) {
+    return <CompanyAccessNotice hasCompany={!!company} />
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <button
+        onClick={() => navigate('/dashboard')}
+        className="flex items-center text-blue-600 hover:text-blue-800 mb-6 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Volver al Dashboard
+      </button>
+
+      <div className="bg-white shadow-lg rounded-lg overflow-hidden mb-6">
+        <div className="px-6 py-8 border-b border-gray-200">
+          <h1 className="text-2xl font-bold text-gray-900">Importar Empleos</h1>
+          <p className="text-gray-600 mt-2">
+            Sube un archivo CSV, JSON o un feed XML con hasta {MAX_IMPORT_ROWS} vacantes. Cada fila se valida
+            igual que en el formulario de publicación antes de guardarla
+          </p>
+        </div>
+
+        <div className="px-6 py-6 flex flex-wrap items-center gap-3">
+          <label className="cursor-pointer">
+            <input
+              type="file"
+              accept=".csv,.json,.xml,text/csv,application/json,application/xml,text/xml"
+              onChange={handleFile}
+              className="sr-only"
+              disabled={reading || importing}
+            />
+            <div className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors">
+              <Upload className="h-4 w-4" />
+              <span>{reading ? 'Leyendo...' : table ? 'Cambiar archivo' : 'Elegir archivo'}</span>
+            </div>
+          </label>
+          <button
+            onClick={downloadImportTemplate}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-sm text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            <span>Descargar plantilla CSV</span>
+          </button>
+          {table && (
+            <span className="flex items-center text-sm text-gray-600">
+              <FileText className="h-4 w-4 mr-1" />
+              {fileName} · {table.rows.length} fila{table.rows.length !== 1 ? 's' : ''}
+              <button onClick={resetImport} className="ml-3 text-gray-400 hover:text-gray-600 underline">
+                Quitar
+              </button>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {table && (
+        <>
+          {/* Asignación de columnas */}
+          <div className="bg-white shadow-lg rounded-lg overflow-hidden mb-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Columnas</h2>
+              <p className="text-sm text-gray-500">
+                Elige la columna del archivo para cada campo. Los campos sin columna usan los valores por defecto del formulario
+              </p>
+            </div>
+            <div className="px-6 py-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}{field.required && ' *'}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => updateMapping(field.key, e.target.value)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Sin columna</option>
+                    {table.headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Columna ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Vista previa con los errores de cada fila */}
+          <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-3">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Vista previa</h2>
+                <p className="text-sm text-gray-500">
+                  <span className="text-green-700">{validJobs.length} válida{validJobs.length !== 1 ? 's' : ''}</span>
+                  {' · '}
+                  <span className={invalidCount > 0 ? 'text-red-600' : ''}>
+                    {invalidCount} con errores
+                  </span>
+                </p>
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={onlyErrors}
+                  onChange={(e) => setOnlyErrors(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Solo filas con errores
+              </label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Fila</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Título</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Ubicación</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Salario</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Resultado</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleRows.map(row => {
+                    const cells = table.rows[row.line - 2]
+                    const cell = (field: ImportField) => {
+                      const column = mapping[field]
+                      return column === undefined ? '' : cells[column] || ''
+                    }
+
+                    return (
+                      <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-4 py-3 text-gray-500 align-top">{row.line}</td>
+                        <td className="px-4 py-3 text-gray-900 align-top">{cell('title') || '—'}</td>
+                        <td className="px-4 py-3 text-gray-700 align-top">{cell('location') || '—'}</td>
+                        <td className="px-4 py-3 text-gray-700 align-top whitespace-nowrap">
+                          {row.data?.salary_negotiable
+                            ? 'A convenir'
+                            : [cell('salary_min'), cell('salary_max')].filter(Boolean).join(' - ') || '—'}
+                          {row.data && !row.data.salary_negotiable && ` ${row.data.currency}`}
+                        </td>
+                        <td className="px-4 py-3 align-top">
+                          {row.errors.length > 0 ? (
+                            <ul className="space-y-1 text-red-600">
+                              {row.errors.map((error, index) => (
+                                <li key={index} className="flex items-start">
+                                  <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                                  {error}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="flex items-center text-green-700">
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Lista para importar
+                            </span>
+                          )}
+                          {row.unknownSkills.length > 0 && (
+                            <p className="mt-1 text-xs text-yellow-700">
+                              Habilidades no reconocidas (se omiten): {row.unknownSkills.join(', ')}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {visibleRows.length === 0 && (
+                <p className="px-6 py-8 text-center text-sm text-gray-500">No hay filas con errores</p>
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex flex-wrap justify-between items-center gap-3">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={asDraft}
+                  onChange={(e) => setAsDraft(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Importar como borradores
+              </label>
+              <button
+                onClick={handleImport}
+                disabled={importing || validJobs.length === 0}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {importing
+                  ? 'Importando...'
+                  : `Importar ${validJobs.length} empleo${validJobs.length !== 1 ? 's' : ''}`}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,33 @@
 import { useState, useEffect } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useParams, useNavigate, Link } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../contexts/AuthContext'
+import {
+  PipelineStage,
+  loadPipelineStages,
+  getStageLabel,
+  getStageCategory,
+  getStageBadgeClass
+} from '../../lib/pipeline'
+import { ApplicationsBoard } from '../../components/ApplicationsBoard'
+import { ApplicationTimeline } from '../../components/ApplicationTimeline'
+import { MessageThread } from '../../components/MessageThread'
+import { BulkMessagePanel } from '../../components/BulkMessagePanel'
+import { exportApplicationsCsv, exportApplicationsXlsx, exportResumesZip } from '../../lib/applicationExport'
+import { canManageJobs } from '../../lib/companies'
+import { getResumeSignedUrl, searchResumes } from '../../lib/resumes'
+import { SkillCatalog, loadSkillCatalog, resolveProfileSkills, getSkillName } from '../../lib/skills'
+import { SkillMatch, computeSkillMatch, compareSkillMatches } from '../../lib/skillMatch'
+import {
+  ScreeningQuestion,
+  ScreeningAnswer,
+  fetchScreeningQuestions,
+  fetchApplicationAnswers,
+  formatScreeningAnswer,
+  answerMatchesFilter,
+  getQuestionOptions,
+  isChoiceQuestion
+} from '../../lib/screening'
 import { 
   ArrowLeft, 
   User, 
@@ -12,7 +38,16 @@ import {
   MapPin,
   Phone,
   Mail,
-  Download
+  Download,
+  List,
+  Columns,
+  Settings,
+  Search,
+  ListChecks,
+  Keyboard,
+  MessageSquare,
+  FileSpreadsheet,
+  FileArchive
 } from 'lucide-react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
@@ -20,7 +55,7 @@ import toast from 'react-hot-toast'
 
 interface Application {
   id: string
-  status: 'pending' | 'accepted' | 'rejected'
+  status: string
   cover_letter?: string
   created_at: string
   applicant: {
@@ -31,49 +66,111 @@ interface Application {
     location?: string
     skills?: string[]
     experience?: string
-    resume_url?: string
   }
+  // Versión del currículum enviada con la postulación
+  resume: {
+    id: string
+    label: string
+    file_path: string
+  } | null
 }
 
 interface Job {
   id: string
   title: string
   location: string
-  employer_id: string
+  required_skills: string[]
+  nice_to_have_skills: string[]
 }
 
 export function JobApplicationsPage() {
   const { jobId } = useParams<{ jobId: string }>()
-  const { user } = useAuth()
+  const { user, company } = useAuth()
   const navigate = useNavigate()
+  // Los miembros con rol de solo lectura no cambian etapas ni escriben mensajes
+  const readOnly = !canManageJobs(company?.role)
   const [job, setJob] = useState<Job | null>(null)
   const [applications, setApplications] = useState<Application[]>([])
+  const [stages, setStages] = useState<PipelineStage[]>([])
+  const [view, setView] = useState<'list' | 'board'>('list')
   const [loading, setLoading] = useState(true)
   const [selectedStatus, setSelectedStatus] = useState('all')
   const [expandedApplicationId, setExpandedApplicationId] = useState<string | null>(null)
-  const [updating, setUpdating] = useState(false)
+  // Postulaciones con un cambio de etapa sin confirmar
+  const [savingIds, setSavingIds] = useState<Set<string>>(new Set())
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // Postulación activa para los atajos de teclado
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [bulkStatus, setBulkStatus] = useState('')
+  const [showBulkMessage, setShowBulkMessage] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  // Avance de la descarga de currículums para el ZIP
+  const [zipProgress, setZipProgress] = useState<{ done: number; total: number } | null>(null)
+  const [pendingStatus, setPendingStatus] = useState('')
+  const [statusNote, setStatusNote] = useState('')
+  const [sortBy, setSortBy] = useState<'recent' | 'match'>('recent')
+  const [skillCatalog, setSkillCatalog] = useState<SkillCatalog | null>(null)
+  const [resumeSearch, setResumeSearch] = useState('')
+  // Ids de currículums cuyo texto coincide con la búsqueda; null si no hay búsqueda
+  const [matchingResumeIds, setMatchingResumeIds] = useState<Set<string> | null>(null)
+  const [questions, setQuestions] = useState<ScreeningQuestion[]>([])
+  // Respuestas de cada postulación, por id de pregunta
+  const [answers, setAnswers] = useState<Record<string, Record<string, ScreeningAnswer>>>({})
+  // Valor buscado en las respuestas de cada pregunta; vacío no filtra
+  const [answerFilters, setAnswerFilters] = useState<Record<string, string>>({})
 
   useEffect(() => {
     if (jobId) {
       loadJobAndApplications()
     }
-  }, [jobId, user])
+  }, [jobId, user, company?.company.id])
+
+  useEffect(() => {
+    const term = resumeSearch.trim()
+    if (!term) {
+      setMatchingResumeIds(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      const resumeIds = applications
+        .map(app => app.resume?.id)
+        .filter((id): id is string => Boolean(id))
+
+      try {
+        setMatchingResumeIds(new Set(await searchResumes(resumeIds, term)))
+      } catch (error) {
+        console.error('Error searching resumes:', error)
+        toast.error('Error al buscar en los currículums')
+      }
+    }, 400)
+
+    return () => clearTimeout(timeout)
+  }, [resumeSearch, applications])
 
   const loadJobAndApplications = async () => {
-    if (!user || !jobId) return
+    if (!user || !jobId || !company) return
 
     try {
-      // Cargar información del empleo
+      // Cargar información del empleo de la empresa
       const { data: jobData, error: jobError } = await supabase
         .from('jobs')
-        .select('id, title, location, employer_id')
+        .select('id, title, location, required_skills, nice_to_have_skills')
         .eq('id', jobId)
-        .eq('employer_id', user.id)
+        .eq('company_id', company.company.id)
         .single()
 
       if (jobError) throw jobError
       setJob(jobData)
 
+      // Cargar las etapas del proceso de selección de la empresa
+      setStages(await loadPipelineStages(company.company.id))
+
+      // Sin taxonomía la lista funciona igual, solo sin coincidencias
+      loadSkillCatalog()
+        .then(setSkillCatalog)
+        .catch(error => console.error('Error loading skills:', error))
+
       // Cargar postulaciones con información del candidato
       const { data: applicationsData, error: applicationsError } = await supabase
         .from('applications')
@@ -86,8 +183,12 @@ export function JobApplicationsPage() {
             phone,
             location,
             skills,
-            experience,
-            resume_url
+            experience
+          ),
+          resume:resumes!applications_resume_id_fkey (
+            id,
+            label,
+            file_path
           )
         `)
         .eq('job_id', jobId)
@@ -105,11 +206,18 @@ export function JobApplicationsPage() {
           location: app.profiles.location,
           skills: app.profiles.skills,
           experience: app.profiles.experience,
-          resume_url: app.profiles.resume_url,
-        }
+        },
+        resume: Array.isArray(app.resume) ? app.resume[0] || null : app.resume
       }))
 
       setApplications(applicationsWithApplicant)
+
+      const [questionsData, answersData] = await Promise.all([
+        fetchScreeningQuestions(jobId),
+        fetchApplicationAnswers(applicationsWithApplicant.map(app => app.id))
+      ])
+      setQuestions(questionsData)
+      setAnswers(answersData)
     } catch (error: any) {
       console.error('Error loading job and applications:', error)
       toast.error('Error al cargar las postulaciones')
@@ -119,58 +227,283 @@ export function JobApplicationsPage() {
     }
   }
 
-  const updateApplicationStatus = async (applicationId: string, newStatus: Application['status']) => {
-    if (updating) return
+  // Las URLs firmadas caducan en segundos, así que se piden al momento de descargar
+  const downloadResume = async (path?: string | null) => {
+    if (!path) return
+
+    try {
+      window.location.href = await getResumeSignedUrl(path, true)
+    } catch (error) {
+      console.error('Error downloading resume:', error)
+      toast.error('No se pudo descargar el currículum')
+    }
+  }
+
+  // Cambia la etapa de una o varias postulaciones. La lista se actualiza antes
+  // de guardar y, si Supabase rechaza el cambio, vuelve a la etapa anterior.
+  // Devuelve true si se guardó
+  const updateApplicationsStatus = async (
+    applicationIds: string[],
+    newStatus: Application['status'],
+    note?: string
+  ) => {
+    if (readOnly) return false
+
+    // Se omiten las que ya están en esa etapa o tienen otro cambio en curso
+    const previousStatuses = new Map(
+      applications
+        .filter(app => applicationIds.includes(app.id) && app.status !== newStatus && !savingIds.has(app.id))
+        .map(app => [app.id, app.status])
+    )
+    const ids = [...previousStatuses.keys()]
+    if (ids.length === 0) return false
+
+    setApplications(apps =>
+      apps.map(app => (previousStatuses.has(app.id) ? { ...app, status: newStatus } : app))
+    )
+    setSavingIds(prev => new Set([...prev, ...ids]))
 
     try {
-      setUpdating(true)
+      // status_note se copia al historial mediante el trigger de application_events
       const { error } = await supabase
         .from('applications')
-        .update({ status: newStatus })
-        .eq('id', applicationId)
+        .update({ status: newStatus, status_note: note?.trim() || null })
+        .in('id', ids)
 
       if (error) throw error
 
-      // Update local state
+      const stageLabel = getStageLabel(stages, newStatus)
+      toast.success(
+        ids.length === 1
+          ? `Postulación movida a "${stageLabel}"`
+          : `${ids.length} postulaciones movidas a "${stageLabel}"`
+      )
+      return true
+    } catch (error) {
+      console.error('Error updating applications:', error)
       setApplications(apps =>
         apps.map(app =>
-          app.id === applicationId ? { ...app, status: newStatus } : app
+          previousStatuses.has(app.id) && app.status === newStatus
+            ? { ...app, status: previousStatuses.get(app.id) ?? app.status }
+            : app
         )
       )
-
-      toast.success(
-        newStatus === 'accepted'
-          ? 'Candidato aceptado exitosamente'
-          : 'Candidato rechazado exitosamente'
+      toast.error(
+        ids.length === 1
+          ? 'Error al actualizar el estado de la postulación'
+          : 'Error al actualizar las postulaciones; no se cambió ninguna'
       )
-    } catch (error: any) {
-      console.error('Error updating application:', error)
-      toast.error('Error al actualizar el estado de la postulación')
+      return false
     } finally {
-      setUpdating(false)
+      setSavingIds(prev => new Set([...prev].filter(id => !previousStatuses.has(id))))
     }
   }
 
+  const updateApplicationStatus = (applicationId: string, newStatus: Application['status'], note?: string) =>
+    updateApplicationsStatus([applicationId], newStatus, note)
+
+  // Siguiente etapa abierta del proceso o, después de la última, la de contratación
+  const getNextStage = (status: string) => {
+    const current = stages.find(stage => stage.key === status)
+    if (!current || current.category !== 'open') return null
+    return stages.find(stage =>
+      stage.position > current.position && (stage.category === 'open' || stage.category === 'hired')
+    ) || null
+  }
+
+  const advanceApplication = (application: Application) => {
+    const nextStage = getNextStage(application.status)
+    if (nextStage) updateApplicationStatus(application.id, nextStage.key)
+  }
+
+  const toggleSelected = (applicationId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(applicationId)) {
+        next.delete(applicationId)
+      } else {
+        next.add(applicationId)
+      }
+      return next
+    })
+  }
+
+  const clearSelection = () => {
+    setSelectedIds(new Set())
+    setBulkStatus('')
+    setShowBulkMessage(false)
+  }
+
   const toggleApplicantDetails = (applicationId: string) => {
     setExpandedApplicationId(
       expandedApplicationId === applicationId ? null : applicationId
     )
+    setPendingStatus('')
+    setStatusNote('')
   }
 
+  const handleStatusChangeWithNote = async (application: Application) => {
+    if (!pendingStatus || pendingStatus === application.status) return
+    if (await updateApplicationStatus(application.id, pendingStatus, statusNote)) {
+      setPendingStatus('')
+      setStatusNote('')
+    }
+  }
 
-
+  const countByCategory = (category: string) =>
+    applications.filter(app => getStageCategory(stages, app.status) === category).length
 
   const stats = {
     total: applications.length,
-    pending: applications.filter(app => app.status === 'pending').length,
-    accepted: applications.filter(app => app.status === 'accepted').length,
-    rejected: applications.filter(app => app.status === 'rejected').length
+    inProgress: countByCategory('open'),
+    hired: countByCategory('hired'),
+    rejected: countByCategory('rejected')
   }
 
+  // Coincidencia de habilidades del candidato con las del empleo
+  const skillMatches = new Map<string, SkillMatch | null>(
+    applications.map(app => [
+      app.id,
+      job && skillCatalog
+        ? computeSkillMatch(job, resolveProfileSkills(app.applicant.skills, skillCatalog))
+        : null
+    ])
+  )
+
+  const activeAnswerFilters = questions.filter(question => answerFilters[question.id]?.trim())
+
   const filteredApplications = applications.filter(app => 
-    selectedStatus === 'all' || app.status === selectedStatus
+    (selectedStatus === 'all' || app.status === selectedStatus) &&
+    (!matchingResumeIds || (app.resume !== null && matchingResumeIds.has(app.resume.id))) &&
+    activeAnswerFilters.every(question =>
+      answerMatchesFilter(question, answers[app.id]?.[question.id], answerFilters[question.id].trim())
+    )
   )
 
+  // applications ya viene ordenado por fecha; sort es estable y conserva ese orden en los empates
+  if (sortBy === 'match') {
+    filteredApplications.sort((a, b) => compareSkillMatches(skillMatches.get(a.id) ?? null, skillMatches.get(b.id) ?? null))
+  }
+
+  // Las acciones en bloque solo afectan a las seleccionadas que siguen visibles
+  const selectedApplications = filteredApplications.filter(app => selectedIds.has(app.id))
+  const allVisibleSelected = filteredApplications.length > 0 && selectedApplications.length === filteredApplications.length
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredApplications.map(app => app.id)))
+  }
+
+  const handleBulkStatusChange = async (newStatus: string) => {
+    if (!newStatus || selectedApplications.length === 0) return
+    if (await updateApplicationsStatus(selectedApplications.map(app => app.id), newStatus)) {
+      clearSelection()
+    }
+  }
+
+  // Se exportan las seleccionadas o, si no hay selección, la lista filtrada
+  const exportableApplications = selectedApplications.length > 0 ? selectedApplications : filteredApplications
+  const exportContext = { jobTitle: job?.title || '', stages, questions, answers }
+
+  const handleExportResumes = async () => {
+    if (zipProgress) return
+
+    setZipProgress({ done: 0, total: exportableApplications.filter(app => app.resume).length })
+    try {
+      const { included, missing } = await exportResumesZip(
+        exportableApplications,
+        exportContext.jobTitle,
+        (done, total) => setZipProgress({ done, total })
+      )
+      if (included === 0) {
+        toast.error('Ninguna de estas postulaciones tiene un currículum descargable')
+      } else if (missing.length > 0) {
+        toast(`ZIP con ${included} currículums. Sin currículum: ${missing.join(', ')}`, { duration: 6000 })
+      } else {
+        toast.success(`ZIP con ${included} currículum${included !== 1 ? 's' : ''} descargado`)
+      }
+    } catch (error) {
+      console.error('Error exporting resumes:', error)
+      toast.error('Error al generar el ZIP de currículums')
+    } finally {
+      setZipProgress(null)
+    }
+  }
+
+  // Mueve el foco de teclado; si hay detalles abiertos, se abren los del nuevo candidato
+  const moveFocus = (offset: number) => {
+    if (filteredApplications.length === 0) return
+    const index = filteredApplications.findIndex(app => app.id === focusedId)
+    const nextIndex = index < 0
+      ? (offset > 0 ? 0 : filteredApplications.length - 1)
+      : Math.min(Math.max(index + offset, 0), filteredApplications.length - 1)
+    const nextId = filteredApplications[nextIndex].id
+
+    setFocusedId(nextId)
+    if (expandedApplicationId && expandedApplicationId !== nextId) {
+      toggleApplicantDetails(nextId)
+    }
+    document.getElementById(`application-${nextId}`)?.scrollIntoView({ block: 'nearest' })
+  }
+
+  // Atajos de teclado de la lista. Se ignoran mientras se escribe en un campo
+  useEffect(() => {
+    if (view !== 'list') return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (
+        event.metaKey || event.ctrlKey || event.altKey ||
+        target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+        (event.key === 'Enter' && ['BUTTON', 'A'].includes(target.tagName))
+      ) return
+
+      const focused = filteredApplications.find(app => app.id === focusedId)
+
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          moveFocus(1)
+          break
+        case 'k':
+        case 'ArrowUp':
+          moveFocus(-1)
+          break
+        case 'Enter':
+        case 'o':
+          if (focused) toggleApplicantDetails(focused.id)
+          break
+        case 'a':
+          if (focused && !readOnly) advanceApplication(focused)
+          break
+        case 'r':
+          if (focused && !readOnly && getStageCategory(stages, focused.status) === 'open') {
+            updateApplicationStatus(focused.id, 'rejected')
+          }
+          break
+        case 'x':
+          if (focused && !readOnly) toggleSelected(focused.id)
+          break
+        case 'Escape':
+          if (expandedApplicationId) {
+            toggleApplicantDetails(expandedApplicationId)
+          } else {
+            clearSelection()
+          }
+          break
+        case '?':
+          setShowShortcuts(show => !show)
+          break
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
   if (loading) {
     return (
       <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
@@ -237,8 +570,8 @@ export function JobApplicationsPage() {
               </div>
               <div className="ml-5 w-0 flex-1">
                 <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">Pendientes</dt>
-                  <dd className="text-lg font-medium text-gray-900">{stats.pending}</dd>
+                  <dt className="text-sm font-medium text-gray-500 truncate">En proceso</dt>
+                  <dd className="text-lg font-medium text-gray-900">{stats.inProgress}</dd>
                 </dl>
               </div>
             </div>
@@ -253,8 +586,8 @@ export function JobApplicationsPage() {
               </div>
               <div className="ml-5 w-0 flex-1">
                 <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">Aceptadas</dt>
-                  <dd className="text-lg font-medium text-gray-900">{stats.accepted}</dd>
+                  <dt className="text-sm font-medium text-gray-500 truncate">Contratados</dt>
+                  <dd className="text-lg font-medium text-gray-900">{stats.hired}</dd>
                 </dl>
               </div>
             </div>
@@ -284,26 +617,288 @@ export function JobApplicationsPage() {
             <h3 className="text-lg leading-6 font-medium text-gray-900">
               Postulaciones ({filteredApplications.length})
             </h3>
-            <div className="mt-3 sm:mt-0">
-              <select
-                value={selectedStatus}
-                onChange={(e) => setSelectedStatus(e.target.value)}
-                className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
-              >
-                <option value="all">Todos los estados</option>
-                <option value="pending">Pendientes</option>
-                <option value="accepted">Aceptadas</option>
-                <option value="rejected">Rechazadas</option>
-              </select>
+            <div className="mt-3 sm:mt-0 flex items-center space-x-3">
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => setView('list')}
+                  className={`px-3 py-2 text-sm ${view === 'list' ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  title="Vista de lista"
+                >
+                  <List className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setView('board')}
+                  className={`px-3 py-2 text-sm border-l border-gray-300 ${view === 'board' ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  title="Vista de tablero"
+                >
+                  <Columns className="h-4 w-4" />
+                </button>
+              </div>
+              {view === 'list' && (
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="text"
+                    value={resumeSearch}
+                    onChange={(e) => setResumeSearch(e.target.value)}
+                    placeholder="Buscar en currículums"
+                    title="Busca palabras en el texto de los currículums adjuntos"
+                    className="pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              )}
+              {view === 'list' && (
+                <select
+                  value={selectedStatus}
+                  onChange={(e) => setSelectedStatus(e.target.value)}
+                  className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="all">Todas las etapas</option>
+                  {stages.map(stage => (
+                    <option key={stage.key} value={stage.key}>{stage.label}</option>
+                  ))}
+                </select>
+              )}
+              {view === 'list' && (
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as 'recent' | 'match')}
+                  className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="recent">Más recientes</option>
+                  <option value="match">Mayor coincidencia</option>
+                </select>
+              )}
+              {view === 'list' && (
+                <div className="relative group">
+                  <button
+                    disabled={exportableApplications.length === 0}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 whitespace-nowrap disabled:opacity-50"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    {zipProgress ? `CV ${zipProgress.done}/${zipProgress.total}` : 'Exportar'}
+                  </button>
+                  {exportableApplications.length > 0 && (
+                    <div className="absolute right-0 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
+                      <p className="px-4 py-2 text-xs text-gray-500 border-b border-gray-100">
+                        {selectedApplications.length > 0
+                          ? `${selectedApplications.length} seleccionada${selectedApplications.length !== 1 ? 's' : ''}`
+                          : `${filteredApplications.length} postulacion${filteredApplications.length !== 1 ? 'es' : ''} de la lista`}
+                      </p>
+                      <button
+                        onClick={() => exportApplicationsCsv(exportableApplications, exportContext)}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        CSV
+                      </button>
+                      <button
+                        onClick={() => exportApplicationsXlsx(exportableApplications, exportContext)}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        Excel (XLSX)
+                      </button>
+                      <button
+                        onClick={handleExportResumes}
+                        disabled={!!zipProgress}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <FileArchive className="h-4 w-4 mr-2" />
+                        Currículums (ZIP)
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+              {view === 'list' && (
+                <button
+                  onClick={() => setShowShortcuts(show => !show)}
+                  className={`inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm whitespace-nowrap ${
+                    showShortcuts ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                  title="Atajos de teclado (?)"
+                >
+                  <Keyboard className="h-4 w-4" />
+                </button>
+              )}
+              {!readOnly && (
+                <Link
+                  to="/pipeline-settings"
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 whitespace-nowrap"
+                >
+                  <Settings className="h-4 w-4 mr-1" />
+                  Etapas
+                </Link>
+              )}
             </div>
           </div>
         </div>
-        
-        {/* Lista de postulaciones */}
+
+        {view === 'list' && showShortcuts && (
+          <div className="px-4 py-3 border-b border-gray-200 sm:px-6 bg-gray-50 text-sm text-gray-600">
+            <div className="flex flex-wrap gap-x-6 gap-y-1">
+              {[
+                ['j / ↓', 'Siguiente candidato'],
+                ['k / ↑', 'Candidato anterior'],
+                ['Enter / o', 'Abrir o cerrar detalles'],
+                ['a', 'Avanzar a la siguiente etapa'],
+                ['r', 'Rechazar'],
+                ['x', 'Seleccionar'],
+                ['Esc', 'Cerrar detalles o quitar la selección'],
+                ['?', 'Mostrar u ocultar esta ayuda'],
+              ].map(([keys, action]) => (
+                <span key={keys}>
+                  <kbd className="px-1.5 py-0.5 text-xs font-mono bg-white border border-gray-300 rounded">{keys}</kbd>
+                  <span className="ml-1">{action}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {view === 'list' && !readOnly && selectedApplications.length > 0 && (
+          <div className="px-4 py-3 border-b border-gray-200 sm:px-6 bg-blue-50 flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium text-blue-900">
+              {selectedApplications.length} seleccionada{selectedApplications.length !== 1 ? 's' : ''}
+            </span>
+            <select
+              value={bulkStatus}
+              onChange={(e) => setBulkStatus(e.target.value)}
+              className="block pl-3 pr-10 py-1.5 text-sm border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Mover a...</option>
+              {stages.map(stage => (
+                <option key={stage.key} value={stage.key}>{stage.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleBulkStatusChange(bulkStatus)}
+              disabled={!bulkStatus}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              Aplicar
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(`¿Rechazar ${selectedApplications.length} postulacion${selectedApplications.length !== 1 ? 'es' : ''}? Cada candidato recibirá una notificación.`)) {
+                  handleBulkStatusChange('rejected')
+                }
+              }}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Rechazar
+            </button>
+            <button
+              onClick={() => setShowBulkMessage(show => !show)}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <MessageSquare className="h-4 w-4 mr-1" />
+              Enviar mensaje
+            </button>
+            <button
+              onClick={clearSelection}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Quitar selección
+            </button>
+          </div>
+        )}
+
+        {view === 'list' && !readOnly && showBulkMessage && selectedApplications.length > 0 && (
+          <BulkMessagePanel
+            recipients={selectedApplications.map(app => ({
+              applicationId: app.id,
+              name: app.applicant.full_name
+            }))}
+            jobTitle={job.title}
+            onSent={clearSelection}
+            onCancel={() => setShowBulkMessage(false)}
+          />
+        )}
+
+        {view === 'list' && questions.length > 0 && (
+          <div className="px-4 py-4 border-b border-gray-200 sm:px-6 bg-gray-50">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="flex items-center text-sm font-medium text-gray-700">
+                <ListChecks className="h-4 w-4 mr-1" />
+                Filtrar por respuestas
+              </h4>
+              {activeAnswerFilters.length > 0 && (
+                <button
+                  onClick={() => setAnswerFilters({})}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Limpiar filtros
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {questions.map(question => {
+                const value = answerFilters[question.id] || ''
+                const setFilter = (newValue: string) =>
+                  setAnswerFilters(filters => ({ ...filters, [question.id]: newValue }))
+
+                return (
+                  <label key={question.id} className="block text-xs text-gray-500">
+                    <span className="block truncate mb-1" title={question.label}>{question.label}</span>
+                    {question.question_type === 'yes_no' || isChoiceQuestion(question.question_type) ? (
+                      <select
+                        value={value}
+                        onChange={(e) => setFilter(e.target.value)}
+                        className="block w-full pl-3 pr-10 py-1.5 text-sm border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Cualquier respuesta</option>
+                        {getQuestionOptions(question).map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type={question.question_type === 'number' ? 'number' : 'text'}
+                        value={value}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder={question.question_type === 'number' ? 'Valor mínimo' : 'Contiene...'}
+                        className="block w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    )}
+                  </label>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {view === 'board' ? (
+          <ApplicationsBoard
+            stages={stages}
+            applications={applications}
+            disabled={readOnly}
+            onMove={updateApplicationStatus}
+            onSelect={(applicationId) => {
+              setView('list')
+              setSelectedStatus('all')
+              setExpandedApplicationId(applicationId)
+            }}
+          />
+        ) : (
+        /* Lista de postulaciones */
         <div className="divide-y divide-gray-200">
           {/* Applications list header */}
           <div className="hidden sm:grid sm:grid-cols-12 gap-4 px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
-            <div className="col-span-3">Candidato</div>
+            <div className="col-span-3 flex items-center">
+              {!readOnly && filteredApplications.length > 0 && (
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleSelectAll}
+                  title="Seleccionar todas"
+                  className="h-4 w-4 mr-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+              )}
+              Candidato
+            </div>
             <div className="col-span-2">Ubicación</div>
             <div className="col-span-2">Fecha</div>
             <div className="col-span-2">Estado</div>
@@ -315,12 +910,29 @@ export function JobApplicationsPage() {
               <p className="text-gray-500 text-lg">No hay postulaciones que coincidan con los filtros seleccionados.</p>
             </div>
           ) : (
-            filteredApplications.map((application) => (
-              <div key={application.id} className="px-6 py-6">
+            filteredApplications.map((application) => {
+              const skillMatch = skillMatches.get(application.id)
+              return (
+              <div
+                key={application.id}
+                id={`application-${application.id}`}
+                onClick={() => setFocusedId(application.id)}
+                className={`px-6 py-6 ${
+                  focusedId === application.id ? 'bg-blue-50/50 shadow-[inset_3px_0_0_0_#2563eb]' : ''
+                } ${savingIds.has(application.id) ? 'opacity-70' : ''}`}
+              >
                 <div className="sm:grid sm:grid-cols-12 sm:gap-4">
                   {/* Candidate info */}
                   <div className="col-span-3 mb-4 sm:mb-0">
                     <div className="flex items-center">
+                      {!readOnly && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(application.id)}
+                          onChange={() => toggleSelected(application.id)}
+                          className="h-4 w-4 mr-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                      )}
                       <User className="h-10 w-10 text-gray-400 bg-gray-100 rounded-full p-2" />
                       <div className="ml-4">
                         <div className="font-medium text-gray-900">{application.applicant.full_name}</div>
@@ -329,6 +941,20 @@ export function JobApplicationsPage() {
                             {application.applicant.email}
                           </a>
                         </div>
+                        {skillMatch && (
+                          <span
+                            title={`Coincide con ${skillMatch.matchedCount} de ${skillMatch.totalCount} habilidades`}
+                            className={`mt-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                              skillMatch.score >= 75
+                                ? 'bg-green-100 text-green-800'
+                                : skillMatch.score >= 40
+                                  ? 'bg-yellow-100 text-yellow-800'
+                                  : 'bg-gray-100 text-gray-700'
+                            }`}
+                          >
+                            {skillMatch.score}% · {skillMatch.matchedCount}/{skillMatch.totalCount} habilidades
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -348,41 +974,35 @@ export function JobApplicationsPage() {
                   {/* Status */}
                   <div className="col-span-2">
                     <span
-                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        application.status === 'pending'
-                          ? 'bg-yellow-100 text-yellow-800'
-                          : application.status === 'accepted'
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-red-100 text-red-800'
-                      }`}
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStageBadgeClass(
+                        getStageCategory(stages, application.status),
+                        application.status
+                      )}`}
                     >
-                      {application.status === 'pending'
-                        ? 'Pendiente'
-                        : application.status === 'accepted'
-                        ? 'Aceptada'
-                        : 'Rechazada'}
+                      {getStageLabel(stages, application.status)}
                     </span>
                   </div>
 
                   {/* Actions */}
                   <div className="col-span-3 flex items-center space-x-3 mt-4 sm:mt-0">
-                    {application.status === 'pending' && (
-                      <>
-                        <button
-                          onClick={() => updateApplicationStatus(application.id, 'accepted')}
-                          className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
-                        >
-                          <Check className="h-4 w-4 mr-1" />
-                          Aceptar
-                        </button>
-                        <button
-                          onClick={() => updateApplicationStatus(application.id, 'rejected')}
-                          className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
-                        >
-                          <X className="h-4 w-4 mr-1" />
-                          Rechazar
-                        </button>
-                      </>
+                    <select
+                      value={application.status}
+                      disabled={readOnly || savingIds.has(application.id)}
+                      onChange={(e) => updateApplicationStatus(application.id, e.target.value)}
+                      className="block pl-2 pr-8 py-1.5 text-xs border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {stages.map(stage => (
+                        <option key={stage.key} value={stage.key}>{stage.label}</option>
+                      ))}
+                    </select>
+                    {!readOnly && getStageCategory(stages, application.status) === 'open' && (
+                      <button
+                        onClick={() => updateApplicationStatus(application.id, 'rejected')}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Rechazar
+                      </button>
                     )}
                     <button
                       onClick={() => toggleApplicantDetails(application.id)}
@@ -428,6 +1048,24 @@ export function JobApplicationsPage() {
                         </div>
                       )}
 
+                      {skillMatch && (skillMatch.missingRequired.length > 0 || skillMatch.missingNiceToHave.length > 0) && (
+                        <div className="mt-4">
+                          <h4 className="text-sm font-medium text-gray-900 mb-2">Habilidades que no indica</h4>
+                          <div className="flex flex-wrap gap-2">
+                            {skillMatch.missingRequired.map(id => (
+                              <span key={id} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                {getSkillName(id, skillCatalog)} (requerida)
+                              </span>
+                            ))}
+                            {skillMatch.missingNiceToHave.map(id => (
+                              <span key={id} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                                {getSkillName(id, skillCatalog)}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       {application.applicant.experience && (
                         <div className="mt-4">
                           <h4 className="text-sm font-medium text-gray-900 mb-2">Experiencia</h4>
@@ -435,6 +1073,22 @@ export function JobApplicationsPage() {
                         </div>
                       )}
 
+                      {questions.length > 0 && (
+                        <div className="mt-4">
+                          <h4 className="text-sm font-medium text-gray-900 mb-2">Preguntas de filtro</h4>
+                          <dl className="space-y-2">
+                            {questions.map(question => (
+                              <div key={question.id} className="text-sm">
+                                <dt className="text-gray-500">{question.label}</dt>
+                                <dd className="text-gray-900 whitespace-pre-line">
+                                  {formatScreeningAnswer(question, answers[application.id]?.[question.id])}
+                                </dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </div>
+                      )}
+
                       {application.cover_letter && (
                         <div className="mt-4">
                           <h4 className="text-sm font-medium text-gray-900 mb-2">Carta de presentación</h4>
@@ -442,26 +1096,76 @@ export function JobApplicationsPage() {
                         </div>
                       )}
 
-                      {application.applicant.resume_url && (
+                      {application.resume && (
                         <div className="mt-4">
-                          <a
-                            href={application.applicant.resume_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
+                          <button
+                            onClick={() => downloadResume(application.resume?.file_path)}
                             className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                           >
                             <Download className="h-4 w-4 mr-2" />
-                            Ver CV
-                          </a>
+                            Descargar CV ({application.resume.label})
+                          </button>
                         </div>
                       )}
+
+                      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-900 mb-2">Historial</h4>
+                          <ApplicationTimeline
+                            key={application.status}
+                            applicationId={application.id}
+                            stages={stages}
+                            audience="employer"
+                          />
+                        </div>
+
+                        {!readOnly && (
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-900 mb-2">Cambiar etapa</h4>
+                            <select
+                              value={pendingStatus || application.status}
+                              onChange={(e) => setPendingStatus(e.target.value)}
+                              className="block w-full pl-3 pr-10 py-2 text-sm border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              {stages.map(stage => (
+                                <option key={stage.key} value={stage.key}>{stage.label}</option>
+                              ))}
+                            </select>
+                            <textarea
+                              value={statusNote}
+                              onChange={(e) => setStatusNote(e.target.value)}
+                              rows={2}
+                              placeholder="Nota opcional (también la verá el candidato)..."
+                              className="mt-2 block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            />
+                            <button
+                              onClick={() => handleStatusChangeWithNote(application)}
+                              disabled={savingIds.has(application.id) || !pendingStatus || pendingStatus === application.status}
+                              className="mt-2 inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Guardar cambio
+                            </button>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="mt-6">
+                        <h4 className="text-sm font-medium text-gray-900 mb-2">Mensajes</h4>
+                        <MessageThread
+                          applicationId={application.id}
+                          counterpartName={application.applicant.full_name}
+                          readOnly={readOnly}
+                        />
+                      </div>
                     </div>
                   )}
                 </div>
               </div>
-            ))
+              )
+            })
           )}
         </div>
+        )}
       </div>
     </div>
   )
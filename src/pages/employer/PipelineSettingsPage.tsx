@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../../contexts/AuthContext'
+import { CompanyAccessNotice } from '../../components/CompanyAccessNotice'
+import { canManageJobs } from '../../lib/companies'
+import {
+  PipelineStage,
+  loadPipelineStages,
+  savePipelineStages,
+  stageKeyFromLabel,
+  SYSTEM_STAGE_KEYS
+} from '../../lib/pipeline'
+import { ArrowLeft, ArrowUp, ArrowDown, Plus, Trash2, Save } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+export function PipelineSettingsPage() {
+  const { company } = useAuth()
+  const navigate = useNavigate()
+  const [stages, setStages] = useState<PipelineStage[]>([])
+  const [newStageLabel, setNewStageLabel] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadStages()
+  }, [company?.company.id])
+
+  const loadStages = async () => {
+    if (!company) return
+
+    try {
+      setStages(await loadPipelineStages(company.company.id))
+    } catch (error) {
+      console.error('Error loading pipeline stages:', error)
+      toast.error('Error al cargar las etapas')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Las etapas por defecto no pertenecen a la empresa hasta que las guarda
+  const isCustom = stages.some(stage => stage.company_id === company?.company.id)
+
+  const updateStage = (index: number, changes: Partial<PipelineStage>) => {
+    setStages(stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)))
+  }
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= stages.length) return
+
+    const reordered = [...stages]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setStages(reordered)
+  }
+
+  const removeStage = (index: number) => {
+    setStages(stages.filter((_, i) => i !== index))
+  }
+
+  const addStage = () => {
+    const label = newStageLabel.trim()
+    if (!label) return
+
+    const baseKey = stageKeyFromLabel(label) || 'etapa'
+    let key = baseKey
+    let suffix = 2
+    while (stages.some(stage => stage.key === key)) {
+      key = `${baseKey}_${suffix++}`
+    }
+
+    // Las etapas nuevas se insertan antes de las etapas finales
+    const firstClosedIndex = stages.findIndex(stage => stage.category !== 'open')
+    const insertAt = firstClosedIndex === -1 ? stages.length : firstClosedIndex
+    const newStage: PipelineStage = {
+      key,
+      label,
+      applicant_label: 'En proceso',
+      category: 'open',
+      position: insertAt
+    }
+
+    setStages([...stages.slice(0, insertAt), newStage, ...stages.slice(insertAt)])
+    setNewStageLabel('')
+  }
+
+  const handleSave = async () => {
+    if (!company) return
+
+    if (stages.some(stage => !stage.label.trim() || !stage.applicant_label.trim())) {
+      toast.error('Todas las etapas necesitan un nombre')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await savePipelineStages(company.company.id, stages)
+      toast.success('Etapas guardadas exitosamente')
+      await loadStages()
+    } catch (error) {
+      console.error('Error saving pipeline stages:', error)
+      // El guardado es atómico: se conservan los cambios para corregirlos
+      toast.error((error as Error).message || 'Error al guardar las etapas')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!canManageJobs(company?.role)) {
+    return <CompanyAccessNotice hasCompany={!!company} />
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-3/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <button
+        onClick={() => navigate(-1)}
+        className="flex items-center text-blue-600 hover:text-blue-800 mb-6 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Volver
+      </button>
+
+      <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+        <div className="px-6 py-8 border-b border-gray-200">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Etapas del Proceso de Selección
+          </h1>
+          <p className="text-gray-600 mt-2">
+            {isCustom
+              ? `Estas etapas se aplican a todas las vacantes de ${company?.company.name}, sin importar quién las publicó.`
+              : `${company?.company.name} usa las etapas por defecto. Al guardar se crearán las etapas de la empresa para todas sus vacantes.`}
+          </p>
+        </div>
+
+        <div className="px-6 py-6">
+          <div className="hidden sm:grid sm:grid-cols-12 gap-4 pb-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <div className="col-span-4">Nombre interno</div>
+            <div className="col-span-4">Nombre visible para el candidato</div>
+            <div className="col-span-4">Acciones</div>
+          </div>
+
+          <div className="space-y-3">
+            {stages.map((stage, index) => (
+              <div key={stage.key} className="sm:grid sm:grid-cols-12 sm:gap-4 items-center">
+                <div className="col-span-4">
+                  <input
+                    type="text"
+                    value={stage.label}
+                    onChange={(e) => updateStage(index, { label: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="col-span-4 mt-2 sm:mt-0">
+                  <input
+                    type="text"
+                    value={stage.applicant_label}
+                    onChange={(e) => updateStage(index, { applicant_label: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="col-span-4 mt-2 sm:mt-0 flex items-center space-x-2">
+                  <button
+                    onClick={() => moveStage(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Subir"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === stages.length - 1}
+                    className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Bajar"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  {SYSTEM_STAGE_KEYS.includes(stage.key) ? (
+                    <span className="text-xs text-gray-400">Etapa del sistema</span>
+                  ) : (
+                    <button
+                      onClick={() => removeStage(index)}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Eliminar"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 flex items-center space-x-3">
+            <input
+              type="text"
+              value={newStageLabel}
+              onChange={(e) => setNewStageLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addStage()
+              }}
+              placeholder="ej. Prueba práctica"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={addStage}
+              className="flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Agregar etapa
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            <span>{saving ? 'Guardando...' : 'Guardar Etapas'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
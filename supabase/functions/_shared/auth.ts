@@ -0,0 +1,25 @@
+// Comprobación para las funciones edge que trabajan con la clave de servicio y
+// no deben poder invocarse con la clave anónima ni con la sesión de un usuario.
+// Quien las llama (un cron o un administrador) envía
+// `Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY>`.
+
+const timingSafeEqual = (a: string, b: string) => {
+  const left = new TextEncoder().encode(a)
+  const right = new TextEncoder().encode(b)
+  if (left.length !== right.length) return false
+
+  let diff = 0
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ right[i]
+  }
+  return diff === 0
+}
+
+export const isServiceRoleRequest = (req: Request) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+  return !!serviceRoleKey && !!token && timingSafeEqual(token, serviceRoleKey)
+}
+
+export const unauthorizedResponse = () =>
+  new Response(JSON.stringify({ error: 'No autorizado' }), { status: 401 })
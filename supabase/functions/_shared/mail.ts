@@ -0,0 +1,58 @@
+// Adaptadores de correo para las funciones edge.
+// MAIL_ADAPTER=console (por defecto) solo escribe el correo en los logs, útil en desarrollo.
+// MAIL_ADAPTER=resend envía el correo con la API de Resend (requiere RESEND_API_KEY y MAIL_FROM).
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailAdapter {
+  send: (message: MailMessage) => Promise<void>
+}
+
+export const consoleMailAdapter: MailAdapter = {
+  send: async (message) => {
+    console.log(`[mail] Para: ${message.to}\n[mail] Asunto: ${message.subject}\n${message.text}`)
+  }
+}
+
+export const createResendMailAdapter = (apiKey: string, from: string): MailAdapter => ({
+  send: async (message) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Error al enviar el correo: ${response.status} ${await response.text()}`)
+    }
+  }
+})
+
+export const getMailAdapter = (): MailAdapter => {
+  const adapter = Deno.env.get('MAIL_ADAPTER') || 'console'
+
+  if (adapter === 'resend') {
+    const apiKey = Deno.env.get('RESEND_API_KEY')
+    const from = Deno.env.get('MAIL_FROM')
+    if (!apiKey || !from) {
+      throw new Error('Faltan RESEND_API_KEY o MAIL_FROM para el adaptador de correo')
+    }
+    return createResendMailAdapter(apiKey, from)
+  }
+
+  return consoleMailAdapter
+}
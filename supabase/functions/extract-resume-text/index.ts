@@ -0,0 +1,66 @@
+// Extrae el texto plano de un currículum PDF y lo guarda en resumes.extracted_text.
+// Se invoca desde el navegador con la sesión del aspirante tras subir una versión;
+// todas las lecturas y escrituras usan esa sesión, así que RLS y las políticas
+// de storage limitan la extracción a los currículums propios.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const { resume_id: resumeId } = await req.json().catch(() => ({}))
+  if (!resumeId) {
+    return jsonResponse({ error: 'Falta resume_id' }, 400)
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: req.headers.get('Authorization') || '' } } }
+  )
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return jsonResponse({ error: 'No autenticado' }, 401)
+  }
+
+  // Los empleadores también pueden leer currículums adjuntos, así que se comprueba el dueño
+  const { data: resume, error } = await supabase
+    .from('resumes')
+    .select('id, file_path')
+    .eq('id', resumeId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) return jsonResponse({ error: error.message }, 500)
+  if (!resume) return jsonResponse({ error: 'Currículum no encontrado' }, 404)
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from('resumes')
+    .download(resume.file_path)
+
+  if (downloadError || !file) {
+    return jsonResponse({ error: downloadError?.message || 'No se pudo descargar el archivo' }, 500)
+  }
+
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()))
+    const { text } = await extractText(pdf, { mergePages: true })
+    const extractedText = (Array.isArray(text) ? text.join('\n') : text).trim()
+
+    const { error: updateError } = await supabase
+      .from('resumes')
+      .update({ extracted_text: extractedText })
+      .eq('id', resume.id)
+
+    if (updateError) throw updateError
+
+    return jsonResponse({ text: extractedText })
+  } catch (extractError) {
+    console.error(`Error extracting text from resume ${resume.id}:`, extractError)
+    return jsonResponse({ error: 'No se pudo leer el texto del PDF' }, 422)
+  }
+})
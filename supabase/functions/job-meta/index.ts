@@ -0,0 +1,74 @@
+// Devuelve una página mínima con las etiquetas Open Graph de un empleo y
+// redirige a la aplicación. Es el enlace que se comparte, porque las redes
+// sociales no ejecutan JavaScript y no verían las etiquetas de la SPA.
+// Se despliega sin verificación de JWT (--no-verify-jwt) y lee con la clave
+// anónima, así que solo expone empleos activos y sus columnas públicas.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173'
+const DESCRIPTION_LENGTH = 160
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const toDescription = (text: string) => {
+  const singleLine = text.replace(/\s+/g, ' ').trim()
+  return singleLine.length > DESCRIPTION_LENGTH
+    ? `${singleLine.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…`
+    : singleLine
+}
+
+Deno.serve(async (req) => {
+  const jobId = new URL(req.url).searchParams.get('id')
+  if (!jobId) {
+    return Response.redirect(`${APP_URL}/jobs`, 302)
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!
+  )
+
+  const { data: job } = await supabase
+    .from('jobs')
+    .select('id, title, description, location')
+    .eq('id', jobId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (!job) {
+    return Response.redirect(`${APP_URL}/jobs`, 302)
+  }
+
+  const jobUrl = `${APP_URL}/jobs/${job.id}`
+  const title = escapeHtml(`${job.title} · ${job.location}`)
+  const description = escapeHtml(toDescription(job.description))
+
+  const html = `<!doctype html>
+<html lang="es">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${title} | EmpleosPro</title>
+    <meta name="description" content="${description}" />
+    <meta property="og:type" content="website" />
+    <meta property="og:title" content="${title}" />
+    <meta property="og:description" content="${description}" />
+    <meta property="og:url" content="${escapeHtml(jobUrl)}" />
+    <meta name="twitter:card" content="summary" />
+    <link rel="canonical" href="${escapeHtml(jobUrl)}" />
+    <meta http-equiv="refresh" content="0; url=${escapeHtml(jobUrl)}" />
+  </head>
+  <body>
+    <a href="${escapeHtml(jobUrl)}">${title}</a>
+  </body>
+</html>`
+
+  return new Response(html, {
+    status: 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  })
+})
@@ -0,0 +1,60 @@
+// Mueve los currículums subidos antes de que el bucket fuera privado, que
+// están en la raíz de `resumes`, a la carpeta `<user_id>/` de su dueño y
+// actualiza resumes.file_path. Se ejecuta una sola vez tras las migraciones
+// quiet_vault y paper_trail; es idempotente, así que repetirla no mueve nada más.
+// Solo acepta llamadas con la clave de servicio en la cabecera Authorization.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isServiceRoleRequest, unauthorizedResponse } from '../_shared/auth.ts'
+
+interface LegacyResume {
+  id: string
+  user_id: string
+  file_path: string
+}
+
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return unauthorizedResponse()
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  )
+
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('id, user_id, file_path')
+    .not('file_path', 'like', '%/%')
+
+  if (error) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 })
+  }
+
+  let moved = 0
+  const failed: string[] = []
+  for (const resume of (data || []) as LegacyResume[]) {
+    const newPath = `${resume.user_id}/${resume.file_path}`
+
+    try {
+      const { error: moveError } = await supabase.storage
+        .from('resumes')
+        .move(resume.file_path, newPath)
+
+      if (moveError) throw moveError
+
+      const { error: updateError } = await supabase
+        .from('resumes')
+        .update({ file_path: newPath })
+        .eq('id', resume.id)
+
+      if (updateError) throw updateError
+      moved++
+    } catch (migrationError) {
+      console.error(`Error migrating resume ${resume.id}:`, migrationError)
+      failed.push(resume.id)
+    }
+  }
+
+  return new Response(JSON.stringify({ moved, failed }), { status: 200 })
+})
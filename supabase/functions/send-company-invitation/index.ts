@@ -0,0 +1,69 @@
+// Envía por correo una invitación para unirse a una empresa.
+// Se invoca desde el navegador con la sesión de quien invita justo después de
+// crear la invitación; la lectura usa esa sesión, así que RLS limita el envío
+// a invitaciones de empresas que el usuario administra.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { getMailAdapter } from '../_shared/mail.ts'
+
+const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173'
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'administrador',
+  recruiter: 'reclutador',
+  viewer: 'solo lectura'
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const { invitation_id: invitationId } = await req.json().catch(() => ({}))
+  if (!invitationId) {
+    return jsonResponse({ error: 'Falta invitation_id' }, 400)
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: req.headers.get('Authorization') || '' } } }
+  )
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return jsonResponse({ error: 'No autenticado' }, 401)
+  }
+
+  const { data: invitation, error } = await supabase
+    .from('company_invitations')
+    .select('id, email, role, accepted_at, company:companies (name)')
+    .eq('id', invitationId)
+    .eq('invited_by', user.id)
+    .maybeSingle()
+
+  if (error) return jsonResponse({ error: error.message }, 500)
+  if (!invitation || invitation.accepted_at) {
+    return jsonResponse({ error: 'Invitación no encontrada' }, 404)
+  }
+
+  const company = Array.isArray(invitation.company) ? invitation.company[0] : invitation.company
+  const companyName = company?.name || 'una empresa'
+
+  try {
+    await getMailAdapter().send({
+      to: invitation.email,
+      subject: `Te invitaron a unirte a ${companyName}`,
+      text: [
+        `Te invitaron a unirte al equipo de ${companyName} como ${ROLE_LABELS[invitation.role] || invitation.role}.`,
+        '',
+        `Crea una cuenta de empleador con este correo o inicia sesión y acepta la invitación en ${APP_URL}/company`
+      ].join('\n')
+    })
+  } catch (mailError) {
+    console.error(`Error sending company invitation ${invitation.id}:`, mailError)
+    return jsonResponse({ error: 'No se pudo enviar el correo' }, 502)
+  }
+
+  return jsonResponse({ sent: true })
+})
@@ -0,0 +1,98 @@
+// Envía por correo un resumen de las notificaciones pendientes de cada usuario.
+// Solo incluye los tipos elegidos en profiles.email_digest_events y marca
+// las notificaciones procesadas con emailed_at. Pensada para ejecutarse de forma programada;
+// el programador debe llamarla con la clave de servicio en la cabecera Authorization.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isServiceRoleRequest, unauthorizedResponse } from '../_shared/auth.ts'
+import { getMailAdapter } from '../_shared/mail.ts'
+
+interface PendingNotification {
+  id: string
+  user_id: string
+  type: string
+  title: string
+  body: string
+  created_at: string
+}
+
+interface DigestRecipient {
+  id: string
+  email: string
+  full_name: string
+  email_digest_events: string[] | null
+}
+
+const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173'
+
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return unauthorizedResponse()
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  )
+  const mail = getMailAdapter()
+
+  const { data: pending, error } = await supabase
+    .from('notifications')
+    .select('id, user_id, type, title, body, created_at')
+    .is('emailed_at', null)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 })
+  }
+
+  const notifications = (pending || []) as PendingNotification[]
+  const userIds = Array.from(new Set(notifications.map(n => n.user_id)))
+  if (userIds.length === 0) {
+    return new Response(JSON.stringify({ sent: 0 }), { status: 200 })
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, email_digest_events')
+    .in('id', userIds)
+
+  if (profilesError) {
+    return new Response(JSON.stringify({ error: profilesError.message }), { status: 500 })
+  }
+
+  let sent = 0
+  for (const recipient of (profiles || []) as DigestRecipient[]) {
+    const userNotifications = notifications.filter(n => n.user_id === recipient.id)
+    const events = recipient.email_digest_events || []
+    const included = userNotifications.filter(n => events.includes(n.type))
+
+    try {
+      if (included.length > 0) {
+        await mail.send({
+          to: recipient.email,
+          subject: `Tienes ${included.length} notificación${included.length !== 1 ? 'es' : ''} nueva${included.length !== 1 ? 's' : ''} en EmpleosPro`,
+          text: [
+            `Hola ${recipient.full_name},`,
+            '',
+            ...included.map(n => `• ${n.title}: ${n.body}`),
+            '',
+            `Revisa todos los detalles en ${APP_URL}`
+          ].join('\n')
+        })
+        sent++
+      }
+
+      // Las notificaciones excluidas por las preferencias también se marcan para no reprocesarlas
+      const { error: updateError } = await supabase
+        .from('notifications')
+        .update({ emailed_at: new Date().toISOString() })
+        .in('id', userNotifications.map(n => n.id))
+
+      if (updateError) throw updateError
+    } catch (sendError) {
+      console.error(`Error sending digest to ${recipient.id}:`, sendError)
+    }
+  }
+
+  return new Response(JSON.stringify({ sent }), { status: 200 })
+})
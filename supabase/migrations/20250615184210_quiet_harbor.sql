@@ -0,0 +1,46 @@
+/*
+  # Búsqueda de empleos en el servidor
+
+  1. Cambios
+    - Columna generada `search_vector` en `jobs` con título, descripción y requisitos
+    - Índice GIN para búsqueda de texto completo
+    - Índices para los filtros y el orden por salario
+
+  2. Funciones
+    - `search_jobs` devuelve los empleos activos que coinciden con el término,
+      ordenados por relevancia y luego por fecha de publicación. Los filtros,
+      el orden alternativo y la paginación se aplican sobre su resultado.
+*/
+
+-- Columna de búsqueda de texto completo
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('spanish', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('spanish', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('spanish', coalesce(requirements, '')), 'C')
+  ) STORED;
+
+-- Crear índices para búsqueda y filtros
+CREATE INDEX IF NOT EXISTS idx_jobs_search_vector ON jobs USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_jobs_job_type ON jobs(job_type);
+CREATE INDEX IF NOT EXISTS idx_jobs_experience_level ON jobs(experience_level);
+CREATE INDEX IF NOT EXISTS idx_jobs_salary ON jobs(salary);
+
+-- Función de búsqueda (respeta RLS al ejecutarse con los permisos del usuario)
+CREATE OR REPLACE FUNCTION search_jobs(search_term text DEFAULT '')
+RETURNS SETOF jobs AS $$
+  SELECT *
+  FROM jobs
+  WHERE is_active = true
+    AND (
+      coalesce(search_term, '') = ''
+      OR search_vector @@ websearch_to_tsquery('spanish', search_term)
+    )
+  ORDER BY
+    CASE
+      WHEN coalesce(search_term, '') = '' THEN 0
+      ELSE ts_rank(search_vector, websearch_to_tsquery('spanish', search_term))
+    END DESC,
+    created_at DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,146 @@
+/*
+  # Etapas configurables del proceso de selección
+
+  1. Nuevas Tablas
+    - `pipeline_stages` - Etapas del proceso de selección. Las filas con
+      `employer_id` nulo son el conjunto por defecto; un empleador que
+      personaliza su proceso tiene sus propias filas.
+
+  2. Cambios
+    - `applications.status` deja de estar limitado a pending/accepted/rejected
+      y guarda la clave (`key`) de una etapa
+    - Las postulaciones `accepted` pasan a la etapa `hired`
+    - Un trigger valida que el estado exista entre las etapas del empleador
+
+  3. Seguridad
+    - Cualquier usuario autenticado puede leer las etapas (los aspirantes
+      necesitan las etiquetas de sus postulaciones)
+    - Cada empleador gestiona solo sus propias etapas
+*/
+
+-- Crear tabla de etapas
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employer_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  label text NOT NULL,
+  applicant_label text NOT NULL,
+  category text NOT NULL DEFAULT 'open' CHECK (category IN ('open', 'hired', 'rejected', 'withdrawn')),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_stages_employer_key
+  ON pipeline_stages (coalesce(employer_id, '00000000-0000-0000-0000-000000000000'::uuid), key);
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_employer_id ON pipeline_stages(employer_id);
+
+-- Etapas por defecto
+INSERT INTO pipeline_stages (employer_id, key, label, applicant_label, category, position)
+SELECT NULL, v.key, v.label, v.applicant_label, v.category, v.position
+FROM (VALUES
+  ('pending', 'Nueva', 'Recibida', 'open', 0),
+  ('screening', 'Filtro inicial', 'En revisión', 'open', 1),
+  ('phone_interview', 'Entrevista telefónica', 'En entrevistas', 'open', 2),
+  ('technical_interview', 'Entrevista técnica', 'En entrevistas', 'open', 3),
+  ('offer', 'Oferta', 'Oferta en curso', 'open', 4),
+  ('hired', 'Contratado', '¡Contratado!', 'hired', 5),
+  ('rejected', 'Rechazado', 'No seleccionada', 'rejected', 6),
+  ('withdrawn', 'Retirada', 'Retirada', 'withdrawn', 7)
+) AS v(key, label, applicant_label, category, position)
+WHERE NOT EXISTS (
+  SELECT 1 FROM pipeline_stages
+  WHERE employer_id IS NULL AND pipeline_stages.key = v.key
+);
+
+-- Migrar la columna de estado de las postulaciones
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_status_check;
+UPDATE applications SET status = 'hired' WHERE status = 'accepted';
+
+-- Habilitar RLS
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para pipeline_stages
+CREATE POLICY "Authenticated users can read pipeline stages"
+  ON pipeline_stages
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Employers can create own pipeline stages"
+  ON pipeline_stages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (employer_id = auth.uid());
+
+CREATE POLICY "Employers can update own pipeline stages"
+  ON pipeline_stages
+  FOR UPDATE
+  TO authenticated
+  USING (employer_id = auth.uid());
+
+CREATE POLICY "Employers can delete own pipeline stages"
+  ON pipeline_stages
+  FOR DELETE
+  TO authenticated
+  USING (employer_id = auth.uid());
+
+-- Función para validar que el estado de una postulación sea una etapa válida
+CREATE OR REPLACE FUNCTION validate_application_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_employer_id uuid;
+  v_has_custom_stages boolean;
+BEGIN
+  SELECT employer_id INTO v_employer_id FROM jobs WHERE id = NEW.job_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM pipeline_stages WHERE employer_id = v_employer_id
+  ) INTO v_has_custom_stages;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pipeline_stages
+    WHERE key = NEW.status
+    AND (
+      (v_has_custom_stages AND employer_id = v_employer_id)
+      OR (NOT v_has_custom_stages AND employer_id IS NULL)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Etapa de postulación no válida: %', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_applications_status
+  BEFORE INSERT OR UPDATE OF status ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_application_status();
+
+-- Función para impedir eliminar etapas que todavía tienen postulaciones
+CREATE OR REPLACE FUNCTION prevent_used_stage_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.employer_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM applications
+    JOIN jobs ON jobs.id = applications.job_id
+    WHERE jobs.employer_id = OLD.employer_id
+    AND applications.status = OLD.key
+  ) THEN
+    RAISE EXCEPTION 'La etapa "%" tiene postulaciones y no se puede eliminar', OLD.label;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_pipeline_stages_delete
+  BEFORE DELETE ON pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_used_stage_delete();
+
+CREATE TRIGGER update_pipeline_stages_updated_at
+  BEFORE UPDATE ON pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,103 @@
+/*
+  # Historial de estados de las postulaciones
+
+  1. Nuevas Tablas
+    - `application_events` - Registro de auditoría de cada postulación: quién
+      hizo el cambio, de qué etapa a cuál, cuándo y una nota opcional
+
+  2. Cambios
+    - `applications.status_note` - Nota opcional que acompaña al último cambio
+      de etapa; el trigger la copia al evento correspondiente
+    - Triggers que registran la creación y cada cambio de etapa
+    - Se registra un evento de creación para las postulaciones existentes
+
+  3. Seguridad
+    - El aspirante y el empleador dueño del empleo pueden leer los eventos
+    - Los eventos solo se escriben desde los triggers
+*/
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS status_note text;
+
+-- Crear tabla de eventos
+CREATE TABLE IF NOT EXISTS application_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed')),
+  from_status text,
+  to_status text,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_events_application_id
+  ON application_events(application_id, created_at);
+
+-- Eventos de creación para las postulaciones existentes
+INSERT INTO application_events (application_id, actor_id, event_type, to_status, created_at)
+SELECT id, applicant_id, 'created', status, created_at
+FROM applications
+WHERE NOT EXISTS (
+  SELECT 1 FROM application_events WHERE application_events.application_id = applications.id
+);
+
+-- Habilitar RLS
+ALTER TABLE application_events ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para application_events
+CREATE POLICY "Applicants can read own application events"
+  ON application_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications
+      WHERE applications.id = application_events.application_id
+      AND applications.applicant_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Employers can read application events for their jobs"
+  ON application_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.id = application_events.application_id
+      AND jobs.employer_id = auth.uid()
+    )
+  );
+
+-- Función para registrar la creación de una postulación
+CREATE OR REPLACE FUNCTION log_application_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO application_events (application_id, actor_id, event_type, to_status, note)
+  VALUES (NEW.id, coalesce(auth.uid(), NEW.applicant_id), 'created', NEW.status, NEW.status_note);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para registrar los cambios de etapa
+CREATE OR REPLACE FUNCTION log_application_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO application_events (application_id, actor_id, event_type, from_status, to_status, note)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status, NEW.status, NEW.status_note);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_applications_created
+  AFTER INSERT ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION log_application_created();
+
+CREATE TRIGGER log_applications_status_change
+  AFTER UPDATE OF status ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION log_application_status_change();
@@ -0,0 +1,89 @@
+/*
+  # Mensajería entre empleador y aspirante
+
+  1. Nuevas Tablas
+    - `messages` - Mensajes de una postulación entre el aspirante y el
+      empleador dueño del empleo
+
+  2. Funciones
+    - `is_application_participant` indica si el usuario actual participa en
+      una postulación (aspirante o empleador del empleo)
+    - `mark_application_messages_read` marca como leídos los mensajes
+      recibidos en una postulación
+    - `unread_message_count` devuelve el total de mensajes sin leer
+
+  3. Seguridad
+    - Solo los participantes de la postulación pueden leer y enviar mensajes
+    - La tabla se publica en Realtime para recibir mensajes en vivo
+*/
+
+-- Crear tabla de mensajes
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_application_id ON messages(application_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(application_id) WHERE read_at IS NULL;
+
+-- Función para comprobar si el usuario participa en una postulación
+CREATE OR REPLACE FUNCTION is_application_participant(p_application_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications
+    JOIN jobs ON jobs.id = applications.job_id
+    WHERE applications.id = p_application_id
+    AND (applications.applicant_id = auth.uid() OR jobs.employer_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Habilitar RLS
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para messages
+CREATE POLICY "Participants can read application messages"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (is_application_participant(application_id));
+
+CREATE POLICY "Participants can send application messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (sender_id = auth.uid() AND is_application_participant(application_id));
+
+-- Función para marcar como leídos los mensajes recibidos
+CREATE OR REPLACE FUNCTION mark_application_messages_read(p_application_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_application_participant(p_application_id) THEN
+    RAISE EXCEPTION 'No tienes acceso a esta postulación';
+  END IF;
+
+  UPDATE messages
+  SET read_at = now()
+  WHERE application_id = p_application_id
+  AND sender_id <> auth.uid()
+  AND read_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para contar los mensajes sin leer del usuario actual
+CREATE OR REPLACE FUNCTION unread_message_count()
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM messages
+  JOIN applications ON applications.id = messages.application_id
+  JOIN jobs ON jobs.id = applications.job_id
+  WHERE messages.read_at IS NULL
+  AND messages.sender_id <> auth.uid()
+  AND (applications.applicant_id = auth.uid() OR jobs.employer_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Publicar la tabla en Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE messages;
@@ -0,0 +1,135 @@
+/*
+  # Centro de notificaciones
+
+  1. Nuevas Tablas
+    - `notifications` - Notificaciones dentro de la aplicación por usuario
+
+  2. Cambios
+    - `profiles.email_digest_events` - Tipos de notificación que el usuario
+      quiere recibir en el resumen por correo
+    - Triggers en `applications` que notifican al empleador de cada nueva
+      postulación y al aspirante de cada cambio de etapa
+
+  3. Seguridad
+    - Cada usuario lee y marca como leídas solo sus notificaciones; no puede
+      cambiar ninguna otra columna
+    - Las notificaciones se crean desde triggers
+    - La tabla se publica en Realtime
+
+  4. Correo
+    - La función `send-notification-digest` envía las notificaciones con
+      `emailed_at` nulo cuyo tipo está en las preferencias del usuario y las
+      marca como enviadas. Debe programarse (por ejemplo, cada hora).
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS email_digest_events text[]
+  DEFAULT ARRAY['application_received', 'application_status_changed'];
+
+-- Crear tabla de notificaciones
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  link text,
+  data jsonb DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  emailed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_pending_email ON notifications(user_id) WHERE emailed_at IS NULL;
+
+-- Habilitar RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para notifications
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Marcar como leída es el único cambio permitido; emailed_at lo mantiene el
+-- resumen por correo y el contenido lo escriben los triggers
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+-- Función para notificar al empleador de una nueva postulación
+CREATE OR REPLACE FUNCTION notify_application_received()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT
+    jobs.employer_id,
+    'application_received',
+    'Nueva postulación',
+    format('%s se postuló a "%s"', profiles.full_name, jobs.title),
+    '/job-applications/' || jobs.id,
+    jsonb_build_object('application_id', NEW.id, 'job_id', jobs.id)
+  FROM jobs
+  JOIN profiles ON profiles.id = NEW.applicant_id
+  WHERE jobs.id = NEW.job_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para notificar al aspirante de un cambio de etapa
+CREATE OR REPLACE FUNCTION notify_application_status_changed()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_job_title text;
+  v_employer_id uuid;
+  v_stage_label text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title, employer_id INTO v_job_title, v_employer_id FROM jobs WHERE id = NEW.job_id;
+
+  -- Etiqueta visible para el aspirante según las etapas del empleador
+  SELECT applicant_label INTO v_stage_label
+  FROM pipeline_stages
+  WHERE key = NEW.status
+  AND (employer_id = v_employer_id OR employer_id IS NULL)
+  ORDER BY employer_id NULLS LAST
+  LIMIT 1;
+
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  VALUES (
+    NEW.applicant_id,
+    'application_status_changed',
+    'Tu postulación cambió de estado',
+    format('Tu postulación a "%s" ahora está: %s', v_job_title, coalesce(v_stage_label, NEW.status)),
+    '/applications',
+    jsonb_build_object('application_id', NEW.id, 'job_id', NEW.job_id, 'status', NEW.status)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_applications_received
+  AFTER INSERT ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_application_received();
+
+CREATE TRIGGER notify_applications_status_changed
+  AFTER UPDATE OF status ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_application_status_changed();
+
+-- Publicar la tabla en Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
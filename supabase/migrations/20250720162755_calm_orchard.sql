@@ -0,0 +1,58 @@
+/*
+  # Empleos guardados
+
+  1. Nuevas Tablas
+    - `saved_jobs` - Empleos que un aspirante guardó para revisar después
+
+  2. Seguridad
+    - Cada usuario gestiona solo sus empleos guardados
+    - Los aspirantes pueden seguir leyendo los empleos que guardaron aunque
+      el empleador los haya desactivado, para mostrar que cerraron
+*/
+
+-- Crear tabla de empleos guardados
+CREATE TABLE IF NOT EXISTS saved_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_jobs_user_id ON saved_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_jobs_job_id ON saved_jobs(job_id);
+
+-- Habilitar RLS
+ALTER TABLE saved_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para saved_jobs
+CREATE POLICY "Users can read own saved jobs"
+  ON saved_jobs
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can save jobs"
+  ON saved_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove saved jobs"
+  ON saved_jobs
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Política para leer empleos guardados aunque estén inactivos
+CREATE POLICY "Users can read jobs they saved"
+  ON jobs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM saved_jobs
+      WHERE saved_jobs.job_id = jobs.id
+      AND saved_jobs.user_id = auth.uid()
+    )
+  );
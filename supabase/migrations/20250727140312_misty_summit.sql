@@ -0,0 +1,138 @@
+/*
+  # Búsquedas guardadas con alertas de nuevos empleos
+
+  1. Nuevas Tablas
+    - `saved_searches` - Búsquedas con nombre guardadas por un aspirante, con
+      los mismos criterios que los filtros de la página de empleos
+    - `saved_search_matches` - Empleos que coincidieron con cada búsqueda
+
+  2. Funciones
+    - `job_matches_saved_search` aplica los criterios de una búsqueda a un empleo
+      con la misma lógica que `search_jobs`
+    - Trigger en `jobs` que, al publicar o reactivar un empleo, registra las
+      coincidencias y crea una notificación `saved_search_match`
+
+  3. Seguridad
+    - Cada usuario gestiona solo sus búsquedas y lee solo sus coincidencias
+*/
+
+-- Crear tabla de búsquedas guardadas
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  search_term text NOT NULL DEFAULT '',
+  location text NOT NULL DEFAULT '',
+  job_type text CHECK (job_type IN ('full-time', 'part-time', 'contract', 'freelance')),
+  experience_level text CHECK (experience_level IN ('entry', 'mid', 'senior', 'lead')),
+  remote_work boolean,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Crear tabla de coincidencias
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(saved_search_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_search_id ON saved_search_matches(saved_search_id, created_at DESC);
+
+-- Habilitar RLS
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para saved_searches
+CREATE POLICY "Users can read own saved searches"
+  ON saved_searches
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create saved searches"
+  ON saved_searches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own saved searches"
+  ON saved_searches
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own saved searches"
+  ON saved_searches
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Políticas para saved_search_matches
+CREATE POLICY "Users can read matches of own saved searches"
+  ON saved_search_matches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM saved_searches
+      WHERE saved_searches.id = saved_search_matches.saved_search_id
+      AND saved_searches.user_id = auth.uid()
+    )
+  );
+
+-- Función que aplica los criterios de una búsqueda guardada a un empleo
+CREATE OR REPLACE FUNCTION job_matches_saved_search(p_job jobs, p_search saved_searches)
+RETURNS boolean AS $$
+  SELECT
+    (p_search.search_term = '' OR p_job.search_vector @@ websearch_to_tsquery('spanish', p_search.search_term))
+    AND (p_search.location = '' OR p_job.location ILIKE '%' || p_search.location || '%')
+    AND (p_search.job_type IS NULL OR p_job.job_type = p_search.job_type)
+    AND (p_search.experience_level IS NULL OR p_job.experience_level = p_search.experience_level)
+    AND (p_search.remote_work IS NULL OR p_job.remote_work = p_search.remote_work);
+$$ LANGUAGE sql STABLE;
+
+-- Función para registrar coincidencias al publicar o reactivar un empleo
+CREATE OR REPLACE FUNCTION match_saved_searches()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.is_active OR (TG_OP = 'UPDATE' AND OLD.is_active) THEN
+    RETURN NEW;
+  END IF;
+
+  WITH new_matches AS (
+    INSERT INTO saved_search_matches (saved_search_id, job_id)
+    SELECT saved_searches.id, NEW.id
+    FROM saved_searches
+    WHERE saved_searches.user_id <> NEW.employer_id
+    AND job_matches_saved_search(NEW, saved_searches)
+    ON CONFLICT (saved_search_id, job_id) DO NOTHING
+    RETURNING saved_search_id
+  )
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT
+    saved_searches.user_id,
+    'saved_search_match',
+    'Nuevo empleo para tu búsqueda',
+    format('"%s" coincide con tu búsqueda "%s"', NEW.title, saved_searches.name),
+    '/jobs/' || NEW.id,
+    jsonb_build_object('saved_search_id', saved_searches.id, 'job_id', NEW.id)
+  FROM new_matches
+  JOIN saved_searches ON saved_searches.id = new_matches.saved_search_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER match_jobs_saved_searches
+  AFTER INSERT OR UPDATE OF is_active ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION match_saved_searches();
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
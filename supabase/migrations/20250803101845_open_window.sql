@@ -0,0 +1,36 @@
+/*
+  # Bolsa de trabajo pública
+
+  1. Seguridad
+    - Los visitantes sin cuenta (`anon`) pueden leer los empleos activos
+    - Solo se les conceden las columnas públicas de `jobs`; el empleador
+      propietario y los datos internos siguen ocultos
+    - La lista de columnas debe coincidir con `PUBLIC_JOB_COLUMNS` en src/lib/jobs.ts
+*/
+
+-- Permisos por columna para visitantes anónimos
+REVOKE SELECT ON jobs FROM anon;
+
+GRANT SELECT (
+  id,
+  title,
+  description,
+  requirements,
+  benefits,
+  location,
+  salary,
+  currency,
+  job_type,
+  experience_level,
+  remote_work,
+  is_active,
+  created_at,
+  search_vector
+) ON jobs TO anon;
+
+-- Políticas para jobs
+CREATE POLICY "Anonymous users can read active jobs"
+  ON jobs
+  FOR SELECT
+  TO anon
+  USING (is_active = true);
@@ -0,0 +1,39 @@
+/*
+  # Rangos salariales y periodo de pago
+
+  1. Cambios
+    - `jobs.salary` se reemplaza por `salary_min` y `salary_max`; los empleos
+      existentes quedan con un rango de un solo valor
+    - `salary_period` indica si el salario es por hora, mensual o anual
+    - `salary_negotiable` marca el salario como "a convenir": no se publican cifras
+      y el rango queda vacío
+
+  2. Seguridad
+    - Los visitantes anónimos pueden leer las nuevas columnas públicas
+*/
+
+-- Nuevas columnas de salario
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS salary_min numeric,
+  ADD COLUMN IF NOT EXISTS salary_max numeric,
+  ADD COLUMN IF NOT EXISTS salary_period text NOT NULL DEFAULT 'monthly'
+    CHECK (salary_period IN ('hourly', 'monthly', 'yearly')),
+  ADD COLUMN IF NOT EXISTS salary_negotiable boolean NOT NULL DEFAULT false;
+
+-- Migrar el salario único a un rango
+UPDATE jobs SET salary_min = salary, salary_max = salary;
+
+DROP INDEX IF EXISTS idx_jobs_salary;
+ALTER TABLE jobs DROP COLUMN IF EXISTS salary;
+
+-- Un salario publicado necesita un rango válido; uno a convenir no lleva cifras
+ALTER TABLE jobs
+  ADD CONSTRAINT jobs_salary_range_check CHECK (
+    (salary_negotiable AND salary_min IS NULL AND salary_max IS NULL)
+    OR (NOT salary_negotiable AND salary_min > 0 AND salary_max >= salary_min)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_jobs_salary_range ON jobs(currency, salary_period, salary_min, salary_max);
+
+-- Permisos por columna para visitantes anónimos
+GRANT SELECT (salary_min, salary_max, salary_period, salary_negotiable) ON jobs TO anon;
@@ -0,0 +1,44 @@
+/*
+  # Currículums privados
+
+  1. Cambios
+    - El bucket `resumes` deja de ser público; los archivos se descargan con
+      URLs firmadas de corta duración
+    - `profiles.resume_url` (URL pública) se reemplaza por `profiles.resume_path`,
+      la ruta del archivo dentro del bucket con la forma `<user_id>/<archivo>.pdf`
+    - Los currículums antiguos guardados en la raíz del bucket conservan su
+      ruta hasta que la función edge `migrate-resumes` los mueva a la carpeta
+      de su dueño
+
+  2. Seguridad
+    - Cada usuario sigue gestionando solo los archivos de su carpeta
+    - Los empleadores pueden leer (y por tanto firmar URLs de) los currículums
+      de quienes se postularon a alguno de sus empleos
+*/
+
+-- Hacer privado el bucket de currículums
+UPDATE storage.buckets SET public = false WHERE id = 'resumes';
+
+-- Guardar la ruta del archivo en lugar de su URL pública
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS resume_path text;
+
+UPDATE profiles
+SET resume_path = substring(resume_url FROM '/object/public/resumes/(.+)$')
+WHERE resume_url IS NOT NULL AND resume_path IS NULL;
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS resume_url;
+
+-- Política de storage para empleadores
+CREATE POLICY "Employers can read resumes of their applicants"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.applicant_id::text = (storage.foldername(name))[1]
+      AND jobs.employer_id = auth.uid()
+    )
+  );
@@ -0,0 +1,155 @@
+/*
+  # Versiones de currículum
+
+  1. Nuevas Tablas
+    - `resumes` - Cada currículum subido por un aspirante, con nombre, tamaño
+      y cuál es el predeterminado
+
+  2. Cambios
+    - `applications.resume_id` guarda la versión exacta enviada en cada postulación
+    - El currículum de cada perfil se migra como su versión predeterminada y se
+      asigna a sus postulaciones existentes; `profiles.resume_path` se elimina
+    - Un currículum adjunto a una postulación no se puede eliminar
+
+  3. Seguridad
+    - Cada aspirante gestiona solo sus currículums
+    - Los empleadores solo pueden leer (y firmar URLs de) los currículums
+      adjuntos a postulaciones de sus empleos, en lugar de cualquier archivo
+      de la carpeta del aspirante
+*/
+
+-- Crear tabla de currículums
+CREATE TABLE IF NOT EXISTS resumes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  file_path text NOT NULL UNIQUE,
+  file_size integer NOT NULL DEFAULT 0,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resumes_user_id ON resumes(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resumes_one_default ON resumes(user_id) WHERE is_default;
+
+-- Versión enviada con cada postulación
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS resume_id uuid REFERENCES resumes(id) ON DELETE RESTRICT;
+
+-- Migrar el currículum único de cada perfil
+INSERT INTO resumes (user_id, label, file_path, file_size, is_default)
+SELECT
+  profiles.id,
+  'Currículum',
+  profiles.resume_path,
+  coalesce((objects.metadata->>'size')::integer, 0),
+  true
+FROM profiles
+LEFT JOIN storage.objects AS objects
+  ON objects.bucket_id = 'resumes' AND objects.name = profiles.resume_path
+WHERE profiles.resume_path IS NOT NULL
+ON CONFLICT (file_path) DO NOTHING;
+
+UPDATE applications
+SET resume_id = resumes.id
+FROM resumes
+WHERE resumes.user_id = applications.applicant_id
+AND resumes.is_default
+AND applications.resume_id IS NULL;
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS resume_path;
+
+-- Habilitar RLS
+ALTER TABLE resumes ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para resumes
+CREATE POLICY "Users can read own resumes"
+  ON resumes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Employers can read resumes attached to their applications"
+  ON resumes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.resume_id = resumes.id
+      AND jobs.employer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create own resumes"
+  ON resumes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND (storage.foldername(file_path))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can update own resumes"
+  ON resumes
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own resumes"
+  ON resumes
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Política de storage para empleadores: solo las versiones adjuntas
+DROP POLICY IF EXISTS "Employers can read resumes of their applicants" ON storage.objects;
+
+CREATE POLICY "Employers can read resumes attached to applications"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM resumes
+      JOIN applications ON applications.resume_id = resumes.id
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE resumes.file_path = storage.objects.name
+      AND jobs.employer_id = auth.uid()
+    )
+  );
+
+-- Función para mantener un solo currículum predeterminado por usuario
+CREATE OR REPLACE FUNCTION unset_other_default_resumes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE resumes
+    SET is_default = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER unset_other_default_resumes
+  BEFORE INSERT OR UPDATE OF is_default ON resumes
+  FOR EACH ROW
+  EXECUTE FUNCTION unset_other_default_resumes();
+
+-- Al postularse solo se puede adjuntar un currículum propio
+CREATE OR REPLACE FUNCTION check_application_resume_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.resume_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM resumes WHERE id = NEW.resume_id AND user_id = NEW.applicant_id
+  ) THEN
+    RAISE EXCEPTION 'El currículum no pertenece al aspirante';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_application_resume_owner
+  BEFORE INSERT OR UPDATE OF resume_id ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION check_application_resume_owner();
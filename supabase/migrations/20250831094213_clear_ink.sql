@@ -0,0 +1,24 @@
+/*
+  # Texto extraído de los currículums
+
+  1. Cambios
+    - `resumes.extracted_text` guarda el texto plano del PDF, extraído por la
+      función edge `extract-resume-text` tras cada subida
+    - Columna generada `search_vector` e índice GIN para que los empleadores
+      busquen dentro de los currículums de sus postulaciones
+
+  2. Seguridad
+    - Sin cambios: los empleadores solo leen los currículums adjuntos a
+      postulaciones de sus empleos
+*/
+
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS extracted_text text;
+
+-- Columna de búsqueda de texto completo
+ALTER TABLE resumes
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('spanish', coalesce(label, '') || ' ' || coalesce(extracted_text, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_resumes_search_vector ON resumes USING GIN(search_vector);
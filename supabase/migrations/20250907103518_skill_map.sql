@@ -0,0 +1,125 @@
+/*
+  # Taxonomía de habilidades
+
+  1. Nuevas Tablas
+    - `skills`
+      - `id` (text, clave legible, ej. `javascript`)
+      - `name` (text, nombre para mostrar)
+      - `aliases` (text[], variantes con las que se escribe la habilidad, ej. `JS`)
+      - `category` (text)
+
+  2. Cambios
+    - `jobs.required_skills` y `jobs.nice_to_have_skills` guardan ids de `skills`
+    - Un trigger rechaza ids desconocidos y habilidades repetidas en ambas listas
+    - `profiles.skills` sigue siendo texto libre; la aplicación lo resuelve contra
+      los nombres y alias de `skills` para calcular la coincidencia
+
+  3. Seguridad
+    - Habilitar RLS en `skills`; cualquiera puede leer la taxonomía
+    - Los visitantes anónimos pueden leer las habilidades de los empleos
+      (debe coincidir con `PUBLIC_JOB_COLUMNS` en src/lib/jobs.ts)
+*/
+
+-- Crear tabla de habilidades
+CREATE TABLE IF NOT EXISTS skills (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z0-9][a-z0-9-]*$'),
+  name text NOT NULL UNIQUE,
+  aliases text[] NOT NULL DEFAULT '{}',
+  category text NOT NULL DEFAULT 'general',
+  created_at timestamptz DEFAULT now()
+);
+
+-- Habilitar RLS
+ALTER TABLE skills ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para skills
+CREATE POLICY "Anyone can read skills"
+  ON skills
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Taxonomía inicial
+INSERT INTO skills (id, name, aliases, category) VALUES
+  ('javascript', 'JavaScript', ARRAY['js', 'ecmascript', 'es6'], 'lenguajes'),
+  ('typescript', 'TypeScript', ARRAY['ts'], 'lenguajes'),
+  ('python', 'Python', ARRAY['py', 'python3'], 'lenguajes'),
+  ('java', 'Java', ARRAY[]::text[], 'lenguajes'),
+  ('csharp', 'C#', ARRAY['c sharp', 'csharp'], 'lenguajes'),
+  ('php', 'PHP', ARRAY[]::text[], 'lenguajes'),
+  ('go', 'Go', ARRAY['golang'], 'lenguajes'),
+  ('ruby', 'Ruby', ARRAY[]::text[], 'lenguajes'),
+  ('kotlin', 'Kotlin', ARRAY[]::text[], 'lenguajes'),
+  ('swift', 'Swift', ARRAY[]::text[], 'lenguajes'),
+  ('sql', 'SQL', ARRAY[]::text[], 'datos'),
+  ('html', 'HTML', ARRAY['html5'], 'frontend'),
+  ('css', 'CSS', ARRAY['css3'], 'frontend'),
+  ('react', 'React', ARRAY['reactjs', 'react.js'], 'frontend'),
+  ('vue', 'Vue.js', ARRAY['vue', 'vuejs'], 'frontend'),
+  ('angular', 'Angular', ARRAY['angularjs'], 'frontend'),
+  ('tailwind', 'Tailwind CSS', ARRAY['tailwind', 'tailwindcss'], 'frontend'),
+  ('nodejs', 'Node.js', ARRAY['node', 'node js'], 'backend'),
+  ('express', 'Express', ARRAY['expressjs', 'express.js'], 'backend'),
+  ('django', 'Django', ARRAY[]::text[], 'backend'),
+  ('spring', 'Spring Boot', ARRAY['spring'], 'backend'),
+  ('laravel', 'Laravel', ARRAY[]::text[], 'backend'),
+  ('dotnet', '.NET', ARRAY['dotnet', 'asp.net', 'net core'], 'backend'),
+  ('graphql', 'GraphQL', ARRAY[]::text[], 'backend'),
+  ('rest', 'APIs REST', ARRAY['rest', 'api rest', 'restful'], 'backend'),
+  ('postgresql', 'PostgreSQL', ARRAY['postgres', 'psql'], 'datos'),
+  ('mysql', 'MySQL', ARRAY[]::text[], 'datos'),
+  ('mongodb', 'MongoDB', ARRAY['mongo'], 'datos'),
+  ('excel', 'Excel', ARRAY['microsoft excel', 'ms excel'], 'datos'),
+  ('power-bi', 'Power BI', ARRAY['powerbi'], 'datos'),
+  ('aws', 'AWS', ARRAY['amazon web services'], 'infraestructura'),
+  ('azure', 'Azure', ARRAY['microsoft azure'], 'infraestructura'),
+  ('gcp', 'Google Cloud', ARRAY['gcp', 'google cloud platform'], 'infraestructura'),
+  ('docker', 'Docker', ARRAY[]::text[], 'infraestructura'),
+  ('kubernetes', 'Kubernetes', ARRAY['k8s'], 'infraestructura'),
+  ('git', 'Git', ARRAY['github', 'gitlab'], 'herramientas'),
+  ('figma', 'Figma', ARRAY[]::text[], 'diseño'),
+  ('scrum', 'Scrum', ARRAY['agile', 'metodologías ágiles'], 'gestión'),
+  ('project-management', 'Gestión de proyectos', ARRAY['project management', 'pm'], 'gestión'),
+  ('english', 'Inglés', ARRAY['english', 'ingles'], 'idiomas'),
+  ('customer-service', 'Atención al cliente', ARRAY['servicio al cliente', 'customer service'], 'negocio'),
+  ('sales', 'Ventas', ARRAY['sales', 'ventas consultivas'], 'negocio'),
+  ('digital-marketing', 'Marketing digital', ARRAY['digital marketing', 'seo', 'sem'], 'negocio'),
+  ('accounting', 'Contabilidad', ARRAY['accounting'], 'negocio')
+ON CONFLICT (id) DO NOTHING;
+
+-- Habilidades de cada empleo
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS required_skills text[] NOT NULL DEFAULT '{}';
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS nice_to_have_skills text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_required_skills ON jobs USING GIN(required_skills);
+
+-- Los arreglos no admiten claves foráneas, así que se validan con un trigger
+CREATE OR REPLACE FUNCTION validate_job_skills()
+RETURNS TRIGGER AS $$
+DECLARE
+  unknown_skill text;
+BEGIN
+  SELECT s INTO unknown_skill
+  FROM unnest(NEW.required_skills || NEW.nice_to_have_skills) AS s
+  WHERE NOT EXISTS (SELECT 1 FROM skills WHERE skills.id = s)
+  LIMIT 1;
+
+  IF unknown_skill IS NOT NULL THEN
+    RAISE EXCEPTION 'Habilidad desconocida: %', unknown_skill;
+  END IF;
+
+  IF NEW.required_skills && NEW.nice_to_have_skills THEN
+    RAISE EXCEPTION 'Una habilidad no puede ser requerida y deseable a la vez';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_job_skills
+  BEFORE INSERT OR UPDATE OF required_skills, nice_to_have_skills ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_job_skills();
+
+-- Permisos por columna para visitantes anónimos
+GRANT SELECT (required_skills, nice_to_have_skills) ON jobs TO anon;
@@ -0,0 +1,25 @@
+/*
+  # Preferencias de empleo del aspirante
+
+  1. Cambios
+    - `profiles` guarda las preferencias con las que se arma la vista
+      "Recomendados" de la bolsa de trabajo:
+      - `preferred_job_type` y `preferred_experience_level`
+      - `preferred_remote_work` (null = indiferente)
+      - `min_salary`, `min_salary_currency` y `min_salary_period`: salario
+        mínimo aceptable en la moneda y periodo que elija el aspirante
+
+  2. Seguridad
+    - Sin cambios: cada usuario solo lee y actualiza su propio perfil
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS preferred_job_type text
+    CHECK (preferred_job_type IN ('full-time', 'part-time', 'contract', 'freelance')),
+  ADD COLUMN IF NOT EXISTS preferred_experience_level text
+    CHECK (preferred_experience_level IN ('entry', 'mid', 'senior', 'lead')),
+  ADD COLUMN IF NOT EXISTS preferred_remote_work boolean,
+  ADD COLUMN IF NOT EXISTS min_salary numeric CHECK (min_salary > 0),
+  ADD COLUMN IF NOT EXISTS min_salary_currency text NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS min_salary_period text NOT NULL DEFAULT 'monthly'
+    CHECK (min_salary_period IN ('hourly', 'monthly', 'yearly'));
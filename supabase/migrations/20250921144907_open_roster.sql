@@ -0,0 +1,266 @@
+/*
+  # Búsqueda de candidatos y grupos de talento
+
+  1. Nuevas Tablas
+    - `talent_pools` - Grupos con nombre en los que el empleador guarda candidatos
+    - `talent_pool_members` - Candidatos de cada grupo
+    - `job_invitations` - Invitaciones de un empleador a un candidato para
+      postularse a un empleo concreto
+
+  2. Cambios
+    - `profiles.visible_to_recruiters` - El aspirante acepta aparecer en la
+      búsqueda de candidatos (desactivado por defecto)
+    - `search_candidates` devuelve solo datos públicos de los aspirantes
+      visibles: nombre, ubicación, habilidades y experiencia. El correo y el
+      teléfono siguen ocultos hasta que el candidato se postula
+    - Cada invitación crea una notificación `job_invitation` para el candidato
+    - Al postularse a un empleo, las invitaciones pendientes a ese empleo
+      pasan a `applied`
+
+  3. Seguridad
+    - Habilitar RLS en las tablas nuevas
+    - Cada empleador solo ve y modifica sus grupos y sus invitaciones
+    - Solo se puede invitar o guardar a candidatos visibles, a empleos propios
+    - El candidato lee sus invitaciones y puede rechazarlas
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS visible_to_recruiters boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_visible_to_recruiters
+  ON profiles(id) WHERE visible_to_recruiters = true;
+
+-- Crear tabla de grupos de talento
+CREATE TABLE IF NOT EXISTS talent_pools (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(employer_id, name)
+);
+
+-- Crear tabla de miembros de los grupos
+CREATE TABLE IF NOT EXISTS talent_pool_members (
+  pool_id uuid NOT NULL REFERENCES talent_pools(id) ON DELETE CASCADE,
+  candidate_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (pool_id, candidate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_talent_pool_members_candidate_id ON talent_pool_members(candidate_id);
+
+-- Crear tabla de invitaciones
+CREATE TABLE IF NOT EXISTS job_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  employer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  candidate_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'declined')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(job_id, candidate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_invitations_candidate_id ON job_invitations(candidate_id);
+CREATE INDEX IF NOT EXISTS idx_job_invitations_employer_id ON job_invitations(employer_id);
+
+-- Habilitar RLS
+ALTER TABLE talent_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE talent_pool_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Las políticas no pueden leer perfiles ajenos, así que la visibilidad se comprueba aquí
+CREATE OR REPLACE FUNCTION is_visible_candidate(p_candidate_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_candidate_id
+    AND user_type = 'applicant'
+    AND visible_to_recruiters = true
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Políticas para talent_pools
+CREATE POLICY "Employers can manage own talent pools"
+  ON talent_pools
+  FOR ALL
+  TO authenticated
+  USING (employer_id = auth.uid())
+  WITH CHECK (
+    employer_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'employer')
+  );
+
+-- Políticas para talent_pool_members
+CREATE POLICY "Employers can read members of own pools"
+  ON talent_pool_members
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM talent_pools
+      WHERE talent_pools.id = talent_pool_members.pool_id
+      AND talent_pools.employer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Employers can add visible candidates to own pools"
+  ON talent_pool_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_visible_candidate(candidate_id)
+    AND EXISTS (
+      SELECT 1 FROM talent_pools
+      WHERE talent_pools.id = talent_pool_members.pool_id
+      AND talent_pools.employer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Employers can remove members from own pools"
+  ON talent_pool_members
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM talent_pools
+      WHERE talent_pools.id = talent_pool_members.pool_id
+      AND talent_pools.employer_id = auth.uid()
+    )
+  );
+
+-- Políticas para job_invitations
+CREATE POLICY "Employers can read own invitations"
+  ON job_invitations
+  FOR SELECT
+  TO authenticated
+  USING (employer_id = auth.uid());
+
+CREATE POLICY "Candidates can read their invitations"
+  ON job_invitations
+  FOR SELECT
+  TO authenticated
+  USING (candidate_id = auth.uid());
+
+CREATE POLICY "Employers can invite visible candidates to own jobs"
+  ON job_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    employer_id = auth.uid()
+    AND status = 'pending'
+    AND is_visible_candidate(candidate_id)
+    AND EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_invitations.job_id
+      AND jobs.employer_id = auth.uid()
+      AND jobs.is_active = true
+    )
+  );
+
+CREATE POLICY "Candidates can decline their invitations"
+  ON job_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (candidate_id = auth.uid())
+  WITH CHECK (candidate_id = auth.uid() AND status = 'declined');
+
+-- Búsqueda de candidatos visibles. `skill_groups` es un arreglo JSON de
+-- arreglos: cada grupo son las variantes (nombre y alias en minúsculas) de
+-- una habilidad buscada, y el candidato debe tener al menos una de cada grupo.
+CREATE OR REPLACE FUNCTION search_candidates(
+  skill_groups jsonb DEFAULT '[]'::jsonb,
+  search_location text DEFAULT '',
+  search_experience text DEFAULT '',
+  pool uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  location text,
+  skills text[],
+  experience text,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND user_type = 'employer') THEN
+    RAISE EXCEPTION 'Solo los empleadores pueden buscar candidatos';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.full_name, p.location, p.skills, p.experience, p.updated_at
+  FROM profiles p
+  WHERE p.user_type = 'applicant'
+    AND p.visible_to_recruiters = true
+    AND (coalesce(search_location, '') = '' OR p.location ILIKE '%' || search_location || '%')
+    AND (
+      coalesce(search_experience, '') = ''
+      OR to_tsvector('spanish', coalesce(p.experience, '')) @@ websearch_to_tsquery('spanish', search_experience)
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(coalesce(skill_groups, '[]'::jsonb)) AS grp
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM unnest(coalesce(p.skills, ARRAY[]::text[])) AS s
+        WHERE lower(trim(s)) IN (SELECT jsonb_array_elements_text(grp))
+      )
+    )
+    AND (
+      pool IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM talent_pool_members m
+        JOIN talent_pools tp ON tp.id = m.pool_id
+        WHERE m.pool_id = pool
+        AND m.candidate_id = p.id
+        AND tp.employer_id = auth.uid()
+      )
+    )
+  ORDER BY p.updated_at DESC
+  LIMIT 100;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Función para notificar al candidato de una invitación
+CREATE OR REPLACE FUNCTION notify_job_invitation()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT
+    NEW.candidate_id,
+    'job_invitation',
+    'Te invitaron a postularte',
+    format('%s te invita a postularte a "%s"', coalesce(profiles.company_name, profiles.full_name), jobs.title),
+    '/jobs/' || jobs.id,
+    jsonb_build_object('invitation_id', NEW.id, 'job_id', jobs.id)
+  FROM jobs
+  JOIN profiles ON profiles.id = NEW.employer_id
+  WHERE jobs.id = NEW.job_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_job_invitations
+  AFTER INSERT ON job_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_job_invitation();
+
+-- Función para marcar como aceptadas las invitaciones al postularse
+CREATE OR REPLACE FUNCTION mark_invitation_applied()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE job_invitations
+  SET status = 'applied'
+  WHERE job_id = NEW.job_id
+  AND candidate_id = NEW.applicant_id
+  AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER mark_job_invitations_applied
+  AFTER INSERT ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_invitation_applied();
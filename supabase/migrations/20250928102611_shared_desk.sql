@@ -0,0 +1,757 @@
+/*
+  # Empresas con varios reclutadores
+
+  1. Nuevas Tablas
+    - `companies` - Datos de la empresa: nombre, logo, sitio web, sector,
+      tamaño y descripción
+    - `company_members` - Usuarios de cada empresa con su rol:
+      - `owner` administra la empresa y a los demás propietarios
+      - `admin` edita la empresa, invita y gestiona miembros
+      - `recruiter` publica empleos y gestiona postulaciones
+      - `viewer` solo consulta empleos y postulaciones
+      Cada usuario pertenece como máximo a una empresa
+    - `company_invitations` - Invitaciones por correo para unirse a una empresa
+
+  2. Cambios
+    - `jobs.company_id` - La empresa dueña del empleo. `jobs.employer_id` se
+      conserva como el reclutador que lo creó y queda nulo si se elimina su
+      cuenta; el empleo y sus postulaciones siguen siendo de la empresa
+    - Se crea una empresa por cada empleador existente a partir de
+      `profiles.company_name` y `profiles.company_description`, con el
+      empleador como propietario, y se asignan sus empleos. Después se
+      eliminan esas columnas de `profiles`
+    - `talent_pools.company_id` reemplaza a `employer_id`: los grupos de
+      talento son de la empresa y los comparten todos sus miembros. Los grupos
+      existentes pasan a la empresa de quien los creó
+    - `job_invitations.employer_id` se conserva como el reclutador que envió
+      la invitación y queda nulo si se elimina su cuenta
+    - `create_company` crea la empresa y su primer propietario
+    - `accept_company_invitation` une al usuario invitado con el rol indicado
+    - Las notificaciones de nuevas postulaciones llegan a todos los miembros
+      que gestionan empleos, y las invitaciones a empleos usan el nombre de la
+      empresa
+
+  3. Seguridad
+    - Habilitar RLS en las tablas nuevas
+    - Cualquiera puede leer las empresas; solo propietarios y administradores
+      las editan
+    - Todos los miembros leen los empleos, postulaciones, historial,
+      mensajes, currículums, grupos de talento e invitaciones de su empresa;
+      propietarios, administradores y reclutadores además crean y actualizan
+      empleos y postulaciones, gestionan los grupos e invitan candidatos
+    - Los miembros de una empresa pueden leer los perfiles de sus compañeros
+      y de los aspirantes que se postularon a sus empleos
+    - Siempre queda al menos un propietario, y solo otro propietario puede
+      nombrar o quitar propietarios. De un miembro solo se puede editar el rol
+*/
+
+-- Crear tabla de empresas
+CREATE TABLE IF NOT EXISTS companies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  logo_url text,
+  website text,
+  industry text,
+  size text CHECK (size IN ('1-10', '11-50', '51-200', '201-500', '500+')),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Crear tabla de miembros de las empresas
+CREATE TABLE IF NOT EXISTS company_members (
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('owner', 'admin', 'recruiter', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (company_id, user_id)
+);
+
+-- Crear tabla de invitaciones a empresas
+CREATE TABLE IF NOT EXISTS company_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email = lower(trim(email)) AND length(email) > 0),
+  role text NOT NULL CHECK (role IN ('admin', 'recruiter', 'viewer')),
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Solo una invitación pendiente por correo en cada empresa
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_invitations_pending
+  ON company_invitations(company_id, email) WHERE accepted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_company_invitations_email ON company_invitations(email);
+
+-- Empresa dueña de cada empleo
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE CASCADE;
+
+-- Migrar los datos de empresa de cada empleador
+DO $$
+DECLARE
+  v_employer record;
+  v_company_id uuid;
+BEGIN
+  FOR v_employer IN
+    SELECT id, full_name, company_name, company_description
+    FROM profiles
+    WHERE user_type = 'employer'
+    AND NOT EXISTS (SELECT 1 FROM company_members WHERE company_members.user_id = profiles.id)
+  LOOP
+    INSERT INTO companies (name, description)
+    VALUES (
+      coalesce(nullif(trim(v_employer.company_name), ''), v_employer.full_name),
+      nullif(trim(v_employer.company_description), '')
+    )
+    RETURNING id INTO v_company_id;
+
+    INSERT INTO company_members (company_id, user_id, role)
+    VALUES (v_company_id, v_employer.id, 'owner');
+  END LOOP;
+END $$;
+
+UPDATE jobs
+SET company_id = company_members.company_id
+FROM company_members
+WHERE company_members.user_id = jobs.employer_id
+AND jobs.company_id IS NULL;
+
+ALTER TABLE jobs ALTER COLUMN company_id SET NOT NULL;
+
+-- Eliminar la cuenta del reclutador ya no elimina los empleos de la empresa
+ALTER TABLE jobs ALTER COLUMN employer_id DROP NOT NULL;
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_employer_id_fkey;
+ALTER TABLE jobs
+  ADD CONSTRAINT jobs_employer_id_fkey
+  FOREIGN KEY (employer_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_company_id ON jobs(company_id);
+
+ALTER TABLE profiles
+  DROP COLUMN IF EXISTS company_name,
+  DROP COLUMN IF EXISTS company_description;
+
+-- Los visitantes anónimos ven a qué empresa pertenece cada empleo
+GRANT SELECT (company_id) ON jobs TO anon;
+
+-- Habilitar RLS
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Rol del usuario actual en una empresa (null si no es miembro).
+-- Las políticas de company_members la usan, así que no puede pasar por RLS
+CREATE OR REPLACE FUNCTION company_role(p_company_id uuid)
+RETURNS text AS $$
+  SELECT role FROM company_members
+  WHERE company_id = p_company_id
+  AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Propietarios, administradores y reclutadores gestionan empleos y postulaciones
+CREATE OR REPLACE FUNCTION can_manage_company_jobs(p_company_id uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(company_role(p_company_id) IN ('owner', 'admin', 'recruiter'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Propietarios y administradores gestionan la empresa y sus miembros
+CREATE OR REPLACE FUNCTION is_company_admin(p_company_id uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(company_role(p_company_id) IN ('owner', 'admin'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- El usuario comparte empresa con el usuario actual
+CREATE OR REPLACE FUNCTION is_company_teammate(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM company_members mine
+    JOIN company_members theirs ON theirs.company_id = mine.company_id
+    WHERE mine.user_id = auth.uid()
+    AND theirs.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- El usuario se postuló a algún empleo de la empresa del usuario actual
+CREATE OR REPLACE FUNCTION is_company_applicant(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications
+    JOIN jobs ON jobs.id = applications.job_id
+    WHERE applications.applicant_id = p_user_id
+    AND company_role(jobs.company_id) IS NOT NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Políticas para companies
+CREATE POLICY "Anyone can read companies"
+  ON companies
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Company admins can update company"
+  ON companies
+  FOR UPDATE
+  TO authenticated
+  USING (is_company_admin(id))
+  WITH CHECK (is_company_admin(id));
+
+-- Políticas para company_members
+CREATE POLICY "Members can read company members"
+  ON company_members
+  FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IS NOT NULL);
+
+CREATE POLICY "Company admins can update members"
+  ON company_members
+  FOR UPDATE
+  TO authenticated
+  USING (is_company_admin(company_id))
+  WITH CHECK (is_company_admin(company_id));
+
+-- De un miembro solo se cambia el rol: mover la fila a otro usuario u otra
+-- empresa se saltaría protect_company_owners, que solo vigila `role`
+REVOKE UPDATE ON company_members FROM anon, authenticated;
+GRANT UPDATE (role) ON company_members TO authenticated;
+
+CREATE POLICY "Company admins can remove members"
+  ON company_members
+  FOR DELETE
+  TO authenticated
+  USING (is_company_admin(company_id) OR user_id = auth.uid());
+
+-- Políticas para company_invitations
+CREATE POLICY "Company admins can read invitations"
+  ON company_invitations
+  FOR SELECT
+  TO authenticated
+  USING (is_company_admin(company_id));
+
+CREATE POLICY "Invitees can read their invitations"
+  ON company_invitations
+  FOR SELECT
+  TO authenticated
+  USING (email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Company admins can invite"
+  ON company_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    invited_by = auth.uid()
+    AND accepted_at IS NULL
+    AND is_company_admin(company_id)
+  );
+
+CREATE POLICY "Company admins and invitees can delete invitations"
+  ON company_invitations
+  FOR DELETE
+  TO authenticated
+  USING (
+    accepted_at IS NULL
+    AND (is_company_admin(company_id) OR email = lower(auth.jwt() ->> 'email'))
+  );
+
+-- Políticas para profiles
+CREATE POLICY "Company members can read teammates profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_company_teammate(id));
+
+CREATE POLICY "Company members can read profiles of applicants"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_company_applicant(id));
+
+-- Políticas para jobs
+DROP POLICY IF EXISTS "Employers can read own jobs" ON jobs;
+DROP POLICY IF EXISTS "Employers can create jobs" ON jobs;
+DROP POLICY IF EXISTS "Employers can update own jobs" ON jobs;
+
+CREATE POLICY "Company members can read company jobs"
+  ON jobs
+  FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IS NOT NULL);
+
+CREATE POLICY "Recruiters can create company jobs"
+  ON jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (employer_id = auth.uid() AND can_manage_company_jobs(company_id));
+
+CREATE POLICY "Recruiters can update company jobs"
+  ON jobs
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_company_jobs(company_id))
+  WITH CHECK (can_manage_company_jobs(company_id));
+
+-- Políticas para applications
+DROP POLICY IF EXISTS "Employers can read applications for their jobs" ON applications;
+DROP POLICY IF EXISTS "Employers can update applications for their jobs" ON applications;
+
+CREATE POLICY "Company members can read applications for company jobs"
+  ON applications
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = applications.job_id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Recruiters can update applications for company jobs"
+  ON applications
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = applications.job_id
+      AND can_manage_company_jobs(jobs.company_id)
+    )
+  );
+
+-- Políticas para application_events
+DROP POLICY IF EXISTS "Employers can read application events for their jobs" ON application_events;
+
+CREATE POLICY "Company members can read application events for company jobs"
+  ON application_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.id = application_events.application_id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+-- Participantes de una postulación: el aspirante y los miembros de la empresa
+CREATE OR REPLACE FUNCTION is_application_participant(p_application_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications
+    JOIN jobs ON jobs.id = applications.job_id
+    WHERE applications.id = p_application_id
+    AND (applications.applicant_id = auth.uid() OR company_role(jobs.company_id) IS NOT NULL)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Los miembros con rol `viewer` leen los mensajes pero no escriben
+CREATE OR REPLACE FUNCTION can_message_application(p_application_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications
+    JOIN jobs ON jobs.id = applications.job_id
+    WHERE applications.id = p_application_id
+    AND (applications.applicant_id = auth.uid() OR can_manage_company_jobs(jobs.company_id))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Participants can send application messages" ON messages;
+
+CREATE POLICY "Participants can send application messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (sender_id = auth.uid() AND can_message_application(application_id));
+
+CREATE OR REPLACE FUNCTION unread_message_count()
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM messages
+  JOIN applications ON applications.id = messages.application_id
+  JOIN jobs ON jobs.id = applications.job_id
+  WHERE messages.read_at IS NULL
+  AND messages.sender_id <> auth.uid()
+  AND (applications.applicant_id = auth.uid() OR company_role(jobs.company_id) IS NOT NULL);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Políticas para resumes
+DROP POLICY IF EXISTS "Employers can read resumes attached to their applications" ON resumes;
+
+CREATE POLICY "Company members can read resumes attached to company applications"
+  ON resumes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.resume_id = resumes.id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+-- Política de storage para los miembros de la empresa
+DROP POLICY IF EXISTS "Employers can read resumes attached to applications" ON storage.objects;
+
+CREATE POLICY "Company members can read resumes attached to applications"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM resumes
+      JOIN applications ON applications.resume_id = resumes.id
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE resumes.file_path = storage.objects.name
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+-- Políticas para job_invitations
+DROP POLICY IF EXISTS "Employers can read own invitations" ON job_invitations;
+DROP POLICY IF EXISTS "Employers can invite visible candidates to own jobs" ON job_invitations;
+
+CREATE POLICY "Company members can read invitations to company jobs"
+  ON job_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_invitations.job_id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Recruiters can invite visible candidates to company jobs"
+  ON job_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    employer_id = auth.uid()
+    AND status = 'pending'
+    AND is_visible_candidate(candidate_id)
+    AND EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_invitations.job_id
+      AND can_manage_company_jobs(jobs.company_id)
+      AND jobs.is_active = true
+    )
+  );
+
+-- Las invitaciones se conservan aunque se elimine la cuenta de quien las envió
+ALTER TABLE job_invitations ALTER COLUMN employer_id DROP NOT NULL;
+ALTER TABLE job_invitations DROP CONSTRAINT IF EXISTS job_invitations_employer_id_fkey;
+ALTER TABLE job_invitations
+  ADD CONSTRAINT job_invitations_employer_id_fkey
+  FOREIGN KEY (employer_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Grupos de talento de la empresa. Solo los empleadores podían crear grupos y
+-- todos tienen ya una empresa, así que cada grupo pasa a la de su creador
+DROP POLICY IF EXISTS "Employers can manage own talent pools" ON talent_pools;
+DROP POLICY IF EXISTS "Employers can read members of own pools" ON talent_pool_members;
+DROP POLICY IF EXISTS "Employers can add visible candidates to own pools" ON talent_pool_members;
+DROP POLICY IF EXISTS "Employers can remove members from own pools" ON talent_pool_members;
+
+ALTER TABLE talent_pools ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE CASCADE;
+
+UPDATE talent_pools
+SET company_id = company_members.company_id
+FROM company_members
+WHERE company_members.user_id = talent_pools.employer_id
+AND talent_pools.company_id IS NULL;
+
+ALTER TABLE talent_pools ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE talent_pools DROP COLUMN IF EXISTS employer_id;
+ALTER TABLE talent_pools ADD CONSTRAINT talent_pools_company_id_name_key UNIQUE (company_id, name);
+
+-- Políticas para talent_pools
+CREATE POLICY "Company members can read talent pools"
+  ON talent_pools
+  FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IS NOT NULL);
+
+CREATE POLICY "Recruiters can create talent pools"
+  ON talent_pools
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_company_jobs(company_id));
+
+CREATE POLICY "Recruiters can update talent pools"
+  ON talent_pools
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_company_jobs(company_id))
+  WITH CHECK (can_manage_company_jobs(company_id));
+
+CREATE POLICY "Recruiters can delete talent pools"
+  ON talent_pools
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_company_jobs(company_id));
+
+-- Políticas para talent_pool_members
+CREATE POLICY "Company members can read talent pool members"
+  ON talent_pool_members
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM talent_pools
+      WHERE talent_pools.id = talent_pool_members.pool_id
+      AND company_role(talent_pools.company_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Recruiters can add visible candidates to talent pools"
+  ON talent_pool_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_visible_candidate(candidate_id)
+    AND EXISTS (
+      SELECT 1 FROM talent_pools
+      WHERE talent_pools.id = talent_pool_members.pool_id
+      AND can_manage_company_jobs(talent_pools.company_id)
+    )
+  );
+
+CREATE POLICY "Recruiters can remove members from talent pools"
+  ON talent_pool_members
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM talent_pools
+      WHERE talent_pools.id = talent_pool_members.pool_id
+      AND can_manage_company_jobs(talent_pools.company_id)
+    )
+  );
+
+-- La búsqueda filtra por los grupos de la empresa del usuario actual
+CREATE OR REPLACE FUNCTION search_candidates(
+  skill_groups jsonb DEFAULT '[]'::jsonb,
+  search_location text DEFAULT '',
+  search_experience text DEFAULT '',
+  pool uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  location text,
+  skills text[],
+  experience text,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND user_type = 'employer') THEN
+    RAISE EXCEPTION 'Solo los empleadores pueden buscar candidatos';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.full_name, p.location, p.skills, p.experience, p.updated_at
+  FROM profiles p
+  WHERE p.user_type = 'applicant'
+    AND p.visible_to_recruiters = true
+    AND (coalesce(search_location, '') = '' OR p.location ILIKE '%' || search_location || '%')
+    AND (
+      coalesce(search_experience, '') = ''
+      OR to_tsvector('spanish', coalesce(p.experience, '')) @@ websearch_to_tsquery('spanish', search_experience)
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(coalesce(skill_groups, '[]'::jsonb)) AS grp
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM unnest(coalesce(p.skills, ARRAY[]::text[])) AS s
+        WHERE lower(trim(s)) IN (SELECT jsonb_array_elements_text(grp))
+      )
+    )
+    AND (
+      pool IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM talent_pool_members m
+        JOIN talent_pools tp ON tp.id = m.pool_id
+        WHERE m.pool_id = pool
+        AND m.candidate_id = p.id
+        AND company_role(tp.company_id) IS NOT NULL
+      )
+    )
+  ORDER BY p.updated_at DESC
+  LIMIT 100;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Función para crear una empresa con el usuario actual como propietario
+CREATE OR REPLACE FUNCTION create_company(p_name text, p_description text DEFAULT NULL)
+RETURNS uuid AS $$
+DECLARE
+  v_company_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'employer') THEN
+    RAISE EXCEPTION 'Solo los empleadores pueden crear una empresa';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM company_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Ya perteneces a una empresa';
+  END IF;
+
+  INSERT INTO companies (name, description)
+  VALUES (trim(p_name), nullif(trim(p_description), ''))
+  RETURNING id INTO v_company_id;
+
+  INSERT INTO company_members (company_id, user_id, role)
+  VALUES (v_company_id, auth.uid(), 'owner');
+
+  RETURN v_company_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para aceptar una invitación dirigida al correo del usuario actual
+CREATE OR REPLACE FUNCTION accept_company_invitation(p_invitation_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_invitation company_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM company_invitations
+  WHERE id = p_invitation_id
+  AND accepted_at IS NULL
+  AND email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitación no encontrada';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'employer') THEN
+    RAISE EXCEPTION 'Solo los empleadores pueden unirse a una empresa';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM company_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Ya perteneces a una empresa';
+  END IF;
+
+  INSERT INTO company_members (company_id, user_id, role)
+  VALUES (v_invitation.company_id, auth.uid(), v_invitation.role);
+
+  UPDATE company_invitations SET accepted_at = now() WHERE id = v_invitation.id;
+
+  RETURN v_invitation.company_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para proteger a los propietarios de la empresa.
+-- Las eliminaciones en cascada (sin usuario en sesión) no se comprueban
+CREATE OR REPLACE FUNCTION protect_company_owners()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  -- Un propietario puede dejar de serlo él mismo, pero nadie más que otro propietario
+  IF (TG_OP = 'UPDATE' AND NEW.role = 'owner' AND OLD.role <> 'owner')
+    OR (OLD.role = 'owner' AND OLD.user_id <> auth.uid())
+  THEN
+    IF company_role(OLD.company_id) IS DISTINCT FROM 'owner' THEN
+      RAISE EXCEPTION 'Solo un propietario puede nombrar o quitar propietarios';
+    END IF;
+  END IF;
+
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND NOT EXISTS (
+      SELECT 1 FROM company_members
+      WHERE company_id = OLD.company_id
+      AND role = 'owner'
+      AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'La empresa debe tener al menos un propietario';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_company_members_owners
+  BEFORE UPDATE OF role OR DELETE ON company_members
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_company_owners();
+
+-- Función para avisar al invitado si ya tiene cuenta
+CREATE OR REPLACE FUNCTION notify_company_invitation()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT
+    profiles.id,
+    'company_invitation',
+    'Te invitaron a una empresa',
+    format('%s te invita a unirte a su equipo', companies.name),
+    '/company',
+    jsonb_build_object('invitation_id', NEW.id, 'company_id', companies.id)
+  FROM companies
+  JOIN profiles ON lower(profiles.email) = NEW.email
+  WHERE companies.id = NEW.company_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_company_invitations
+  AFTER INSERT ON company_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_company_invitation();
+
+-- Función para notificar a la empresa de una nueva postulación
+CREATE OR REPLACE FUNCTION notify_application_received()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT
+    company_members.user_id,
+    'application_received',
+    'Nueva postulación',
+    format('%s se postuló a "%s"', profiles.full_name, jobs.title),
+    '/job-applications/' || jobs.id,
+    jsonb_build_object('application_id', NEW.id, 'job_id', jobs.id)
+  FROM jobs
+  JOIN company_members ON company_members.company_id = jobs.company_id
+  JOIN profiles ON profiles.id = NEW.applicant_id
+  WHERE jobs.id = NEW.job_id
+  AND company_members.role IN ('owner', 'admin', 'recruiter');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para notificar al candidato de una invitación
+CREATE OR REPLACE FUNCTION notify_job_invitation()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT
+    NEW.candidate_id,
+    'job_invitation',
+    'Te invitaron a postularte',
+    format('%s te invita a postularte a "%s"', companies.name, jobs.title),
+    '/jobs/' || jobs.id,
+    jsonb_build_object('invitation_id', NEW.id, 'job_id', jobs.id)
+  FROM jobs
+  JOIN companies ON companies.id = jobs.company_id
+  WHERE jobs.id = NEW.job_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger para actualizar updated_at
+CREATE TRIGGER update_companies_updated_at
+  BEFORE UPDATE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
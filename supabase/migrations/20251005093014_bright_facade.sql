@@ -0,0 +1,129 @@
+/*
+  # Páginas públicas de empresa
+
+  1. Cambios
+    - `companies.slug` - Identificador de la página pública `/companies/:slug`.
+      Se genera a partir del nombre al crear la empresa (con sufijo numérico
+      si ya existe) y los administradores pueden cambiarlo
+    - `companies.location` - Ubicación de la empresa
+    - Bucket público `company-logos` para los logos; cada empresa sube los
+      suyos a la carpeta `{company_id}/`
+
+  2. Seguridad
+    - Las empresas y sus empleos activos ya son legibles sin sesión
+    - Solo propietarios y administradores suben, cambian o borran los logos
+      de su empresa
+*/
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS slug text,
+  ADD COLUMN IF NOT EXISTS location text;
+
+-- Convierte un texto en un slug: minúsculas, sin acentos y con guiones
+CREATE OR REPLACE FUNCTION slugify(p_text text)
+RETURNS text AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(
+    translate(lower(coalesce(p_text, '')), 'áàäâãéèëêíìïîóòöôõúùüûñç', 'aaaaaeeeeiiiiooooouuuunc'),
+    '[^a-z0-9]+', '-', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Slug libre para una empresa a partir de su nombre (empresa, empresa-2, ...)
+CREATE OR REPLACE FUNCTION unique_company_slug(p_name text, p_company_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_base text := coalesce(nullif(slugify(p_name), ''), 'empresa');
+  v_slug text := v_base;
+  v_suffix integer := 1;
+BEGIN
+  WHILE EXISTS (SELECT 1 FROM companies WHERE slug = v_slug AND id <> p_company_id) LOOP
+    v_suffix := v_suffix + 1;
+    v_slug := v_base || '-' || v_suffix;
+  END LOOP;
+
+  RETURN v_slug;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Generar el slug de las empresas existentes una a una para evitar duplicados
+DO $$
+DECLARE
+  v_company record;
+BEGIN
+  FOR v_company IN SELECT id, name FROM companies WHERE slug IS NULL ORDER BY created_at LOOP
+    UPDATE companies SET slug = unique_company_slug(v_company.name, v_company.id) WHERE id = v_company.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE companies ALTER COLUMN slug SET NOT NULL;
+ALTER TABLE companies ADD CONSTRAINT companies_slug_key UNIQUE (slug);
+ALTER TABLE companies ADD CONSTRAINT companies_slug_format_check
+  CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
+
+-- Función para generar el slug si no se indica uno
+CREATE OR REPLACE FUNCTION set_company_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(NEW.slug, '') = '' THEN
+    NEW.slug := unique_company_slug(NEW.name, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_companies_slug
+  BEFORE INSERT OR UPDATE OF slug ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION set_company_slug();
+
+-- Crear bucket para los logos de las empresas si no existe
+DO $$
+BEGIN
+  INSERT INTO storage.buckets (id, name, public)
+  VALUES ('company-logos', 'company-logos', true)
+  ON CONFLICT (id) DO NOTHING;
+END $$;
+
+-- Políticas de storage para los logos
+CREATE POLICY "Company admins can upload logos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'company-logos'
+    AND EXISTS (
+      SELECT 1 FROM company_members
+      WHERE company_members.company_id::text = (storage.foldername(name))[1]
+      AND company_members.user_id = auth.uid()
+      AND company_members.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Company admins can update logos"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'company-logos'
+    AND EXISTS (
+      SELECT 1 FROM company_members
+      WHERE company_members.company_id::text = (storage.foldername(name))[1]
+      AND company_members.user_id = auth.uid()
+      AND company_members.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Company admins can delete logos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'company-logos'
+    AND EXISTS (
+      SELECT 1 FROM company_members
+      WHERE company_members.company_id::text = (storage.foldername(name))[1]
+      AND company_members.user_id = auth.uid()
+      AND company_members.role IN ('owner', 'admin')
+    )
+  );
@@ -0,0 +1,294 @@
+/*
+  # Preguntas de filtro en las vacantes
+
+  1. Nuevas Tablas
+    - `screening_questions` - Preguntas que el aspirante responde al
+      postularse. Tipos: texto corto, texto largo, sí/no, opción única,
+      opción múltiple y número; cada una puede ser obligatoria
+    - `screening_knockouts` - Respuestas eliminatorias de cada pregunta: las
+      opciones que descartan al candidato o, en las numéricas, el valor
+      mínimo aceptado. Van en una tabla aparte para que los aspirantes no
+      puedan leerlas
+    - `application_answers` - Respuestas de cada postulación
+
+  2. Cambios
+    - `save_screening_questions` reemplaza las preguntas de un empleo
+      conservando las que mantienen su id (y sus respuestas)
+    - `submit_application` crea la postulación con sus respuestas. Valida las
+      preguntas obligatorias y, si alguna respuesta es eliminatoria, la
+      postulación entra directamente en la etapa `rejected`
+
+  3. Seguridad
+    - Habilitar RLS en las tablas nuevas
+    - Las preguntas de los empleos activos son legibles por cualquier usuario
+      autenticado; las respuestas eliminatorias solo por los miembros de la
+      empresa
+    - Los aspirantes ya no insertan postulaciones directamente: lo hacen con
+      `submit_application`, para que no puedan saltarse las preguntas
+    - Cada aspirante lee sus propias respuestas; los miembros de la empresa
+      leen las de sus empleos
+*/
+
+-- Crear tabla de preguntas
+CREATE TABLE IF NOT EXISTS screening_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  question_type text NOT NULL CHECK (
+    question_type IN ('short_text', 'long_text', 'yes_no', 'single_choice', 'multiple_choice', 'number')
+  ),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  options text[] NOT NULL DEFAULT '{}',
+  required boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_screening_questions_job_id ON screening_questions(job_id, position);
+
+-- Crear tabla de respuestas eliminatorias
+CREATE TABLE IF NOT EXISTS screening_knockouts (
+  question_id uuid PRIMARY KEY REFERENCES screening_questions(id) ON DELETE CASCADE,
+  rejected_answers text[] NOT NULL DEFAULT '{}',
+  min_number numeric
+);
+
+-- Crear tabla de respuestas
+CREATE TABLE IF NOT EXISTS application_answers (
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES screening_questions(id) ON DELETE CASCADE,
+  answer jsonb NOT NULL,
+  PRIMARY KEY (application_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_answers_question_id ON application_answers(question_id);
+
+-- Habilitar RLS
+ALTER TABLE screening_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE screening_knockouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_answers ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para screening_questions
+CREATE POLICY "Authenticated users can read questions of active jobs"
+  ON screening_questions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = screening_questions.job_id
+      AND (jobs.is_active = true OR company_role(jobs.company_id) IS NOT NULL)
+    )
+  );
+
+-- Políticas para screening_knockouts
+CREATE POLICY "Company members can read knockouts"
+  ON screening_knockouts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM screening_questions
+      JOIN jobs ON jobs.id = screening_questions.job_id
+      WHERE screening_questions.id = screening_knockouts.question_id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+-- Políticas para application_answers
+CREATE POLICY "Applicants can read own answers"
+  ON application_answers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications
+      WHERE applications.id = application_answers.application_id
+      AND applications.applicant_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Company members can read answers for company jobs"
+  ON application_answers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.id = application_answers.application_id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+-- Las postulaciones se crean con submit_application
+DROP POLICY IF EXISTS "Applicants can create applications" ON applications;
+
+-- Función para guardar las preguntas de un empleo. Cada elemento de
+-- p_questions trae id (opcional), question_type, label, options, required,
+-- rejected_answers y min_number
+CREATE OR REPLACE FUNCTION save_screening_questions(p_job_id uuid, p_questions jsonb)
+RETURNS void AS $$
+DECLARE
+  v_question jsonb;
+  v_question_id uuid;
+  v_position integer := 0;
+  v_kept uuid[] := '{}';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM jobs WHERE id = p_job_id AND can_manage_company_jobs(company_id)
+  ) THEN
+    RAISE EXCEPTION 'No puedes editar las preguntas de este empleo';
+  END IF;
+
+  FOR v_question IN SELECT * FROM jsonb_array_elements(coalesce(p_questions, '[]'::jsonb)) LOOP
+    v_question_id := nullif(v_question->>'id', '')::uuid;
+
+    -- Solo se conservan ids que ya pertenecen a este empleo
+    IF v_question_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM screening_questions WHERE id = v_question_id AND job_id = p_job_id
+    ) THEN
+      v_question_id := NULL;
+    END IF;
+
+    IF v_question_id IS NULL THEN
+      INSERT INTO screening_questions (job_id, position, question_type, label, options, required)
+      VALUES (
+        p_job_id,
+        v_position,
+        v_question->>'question_type',
+        trim(v_question->>'label'),
+        ARRAY(SELECT jsonb_array_elements_text(coalesce(v_question->'options', '[]'::jsonb))),
+        coalesce((v_question->>'required')::boolean, false)
+      )
+      RETURNING id INTO v_question_id;
+    ELSE
+      UPDATE screening_questions
+      SET position = v_position,
+          question_type = v_question->>'question_type',
+          label = trim(v_question->>'label'),
+          options = ARRAY(SELECT jsonb_array_elements_text(coalesce(v_question->'options', '[]'::jsonb))),
+          required = coalesce((v_question->>'required')::boolean, false)
+      WHERE id = v_question_id;
+    END IF;
+
+    INSERT INTO screening_knockouts (question_id, rejected_answers, min_number)
+    VALUES (
+      v_question_id,
+      ARRAY(SELECT jsonb_array_elements_text(coalesce(v_question->'rejected_answers', '[]'::jsonb))),
+      nullif(v_question->>'min_number', '')::numeric
+    )
+    ON CONFLICT (question_id) DO UPDATE
+    SET rejected_answers = EXCLUDED.rejected_answers,
+        min_number = EXCLUDED.min_number;
+
+    v_kept := v_kept || v_question_id;
+    v_position := v_position + 1;
+  END LOOP;
+
+  DELETE FROM screening_questions
+  WHERE job_id = p_job_id AND NOT (id = ANY (v_kept));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Indica si una respuesta está vacía (texto en blanco o ninguna opción elegida)
+CREATE OR REPLACE FUNCTION is_blank_answer(p_answer jsonb)
+RETURNS boolean AS $$
+  SELECT p_answer IS NULL
+    OR jsonb_typeof(p_answer) = 'null'
+    OR (jsonb_typeof(p_answer) = 'string' AND trim(p_answer #>> '{}') = '')
+    OR (jsonb_typeof(p_answer) = 'array' AND jsonb_array_length(p_answer) = 0);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Función para postularse respondiendo las preguntas de filtro.
+-- p_answers es un objeto { question_id: respuesta }
+CREATE OR REPLACE FUNCTION submit_application(
+  p_job_id uuid,
+  p_cover_letter text DEFAULT NULL,
+  p_resume_id uuid DEFAULT NULL,
+  p_answers jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_answers jsonb := coalesce(p_answers, '{}'::jsonb);
+  v_question record;
+  v_answer jsonb;
+  v_knocked_out boolean := false;
+  v_application_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'applicant') THEN
+    RAISE EXCEPTION 'Solo los aspirantes pueden postularse';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM jobs WHERE id = p_job_id AND is_active = true) THEN
+    RAISE EXCEPTION 'Este empleo ya no acepta postulaciones';
+  END IF;
+
+  IF p_resume_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM resumes WHERE id = p_resume_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Currículum no válido';
+  END IF;
+
+  FOR v_question IN
+    SELECT screening_questions.*, screening_knockouts.rejected_answers, screening_knockouts.min_number
+    FROM screening_questions
+    LEFT JOIN screening_knockouts ON screening_knockouts.question_id = screening_questions.id
+    WHERE screening_questions.job_id = p_job_id
+  LOOP
+    v_answer := v_answers->(v_question.id::text);
+
+    IF is_blank_answer(v_answer) THEN
+      IF v_question.required THEN
+        RAISE EXCEPTION 'Falta responder: %', v_question.label;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_question.question_type = 'number' THEN
+      IF jsonb_typeof(v_answer) <> 'number' THEN
+        RAISE EXCEPTION 'La respuesta a "%" debe ser un número', v_question.label;
+      END IF;
+      IF v_question.min_number IS NOT NULL AND (v_answer #>> '{}')::numeric < v_question.min_number THEN
+        v_knocked_out := true;
+      END IF;
+    ELSIF v_question.question_type = 'multiple_choice' THEN
+      IF jsonb_typeof(v_answer) <> 'array' THEN
+        RAISE EXCEPTION 'Respuesta no válida para "%"', v_question.label;
+      END IF;
+      IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(v_answer) AS value
+        WHERE value = ANY (coalesce(v_question.rejected_answers, '{}'))
+      ) THEN
+        v_knocked_out := true;
+      END IF;
+    ELSIF v_question.question_type IN ('yes_no', 'single_choice') THEN
+      IF jsonb_typeof(v_answer) <> 'string' THEN
+        RAISE EXCEPTION 'Respuesta no válida para "%"', v_question.label;
+      END IF;
+      IF (v_answer #>> '{}') = ANY (coalesce(v_question.rejected_answers, '{}')) THEN
+        v_knocked_out := true;
+      END IF;
+    END IF;
+  END LOOP;
+
+  INSERT INTO applications (job_id, applicant_id, cover_letter, resume_id, status, status_note)
+  VALUES (
+    p_job_id,
+    auth.uid(),
+    nullif(trim(p_cover_letter), ''),
+    p_resume_id,
+    CASE WHEN v_knocked_out THEN 'rejected' ELSE 'pending' END,
+    CASE WHEN v_knocked_out THEN 'Descartada automáticamente por las preguntas de filtro' END
+  )
+  RETURNING id INTO v_application_id;
+
+  -- Solo se guardan respuestas de preguntas de este empleo
+  INSERT INTO application_answers (application_id, question_id, answer)
+  SELECT v_application_id, screening_questions.id, v_answers->(screening_questions.id::text)
+  FROM screening_questions
+  WHERE screening_questions.job_id = p_job_id
+  AND NOT is_blank_answer(v_answers->(screening_questions.id::text));
+
+  RETURN v_application_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
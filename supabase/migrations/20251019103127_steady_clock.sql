@@ -0,0 +1,164 @@
+/*
+  # Ciclo de vida de las vacantes
+
+  1. Cambios
+    - `jobs.status` - Estado de la vacante:
+      - `draft` borrador, solo visible para la empresa
+      - `scheduled` se publica sola en `publish_at`
+      - `published` visible y recibiendo postulaciones
+      - `paused` oculta temporalmente
+      - `closed` cerrada por la empresa
+      - `expired` vencida al llegar `expires_at`
+    - `jobs.publish_at` y `jobs.expires_at` - Fechas de publicación y vencimiento
+    - `jobs.is_active` se conserva como reflejo de `status = 'published'`; lo
+      mantiene un trigger y ya no se escribe directamente
+    - Los empleos activos pasan a `published` y los inactivos a `paused`
+    - `transition_job_statuses` publica los empleos programados y vence los
+      publicados. Se ejecuta cada cinco minutos con pg_cron
+    - `close_job` cierra la vacante y rechaza las postulaciones que siguen en
+      proceso con una nota para el candidato; cada candidato recibe la
+      notificación de cambio de estado
+    - Las coincidencias con búsquedas guardadas se registran también cuando un
+      empleo se publica al cambiar de estado
+
+  2. Seguridad
+    - Las políticas de lectura pública de `jobs` usan `status = 'published'`
+    - Los visitantes anónimos pueden leer `status` y `expires_at`
+*/
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'published',
+  ADD COLUMN IF NOT EXISTS publish_at timestamptz,
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+UPDATE jobs SET status = CASE WHEN is_active THEN 'published' ELSE 'paused' END;
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_status_check
+  CHECK (status IN ('draft', 'scheduled', 'published', 'paused', 'closed', 'expired'));
+ALTER TABLE jobs ADD CONSTRAINT jobs_scheduled_publish_at_check
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+CREATE INDEX IF NOT EXISTS idx_jobs_publish_at ON jobs(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_jobs_expires_at ON jobs(expires_at) WHERE status = 'published';
+
+-- Función para aplicar las fechas y mantener is_active en sincronía con el estado
+CREATE OR REPLACE FUNCTION sync_job_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'scheduled' AND NEW.publish_at <= now() THEN
+    NEW.status := 'published';
+  END IF;
+
+  IF NEW.status = 'published' AND NEW.expires_at <= now() THEN
+    NEW.status := 'expired';
+  END IF;
+
+  NEW.is_active := NEW.status = 'published';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_jobs_status
+  BEFORE INSERT OR UPDATE ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_job_status();
+
+-- is_active ahora cambia junto con status, así que el trigger también escucha status
+DROP TRIGGER IF EXISTS match_jobs_saved_searches ON jobs;
+
+CREATE TRIGGER match_jobs_saved_searches
+  AFTER INSERT OR UPDATE OF is_active, status ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION match_saved_searches();
+
+-- Función para publicar los empleos programados y vencer los publicados
+CREATE OR REPLACE FUNCTION transition_job_statuses()
+RETURNS integer AS $$
+DECLARE
+  v_published integer;
+  v_expired integer;
+BEGIN
+  UPDATE jobs SET status = 'published'
+  WHERE status = 'scheduled' AND publish_at <= now();
+  GET DIAGNOSTICS v_published = ROW_COUNT;
+
+  UPDATE jobs SET status = 'expired'
+  WHERE status = 'published' AND expires_at <= now();
+  GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+  RETURN v_published + v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION transition_job_statuses() FROM PUBLIC, anon, authenticated;
+
+-- Programar las transiciones cada cinco minutos
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'transition-job-statuses',
+  '*/5 * * * *',
+  'SELECT public.transition_job_statuses()'
+);
+
+-- Función para cerrar una vacante y rechazar las postulaciones que siguen en proceso
+CREATE OR REPLACE FUNCTION close_job(p_job_id uuid, p_message text DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_employer_id uuid;
+  v_has_custom_stages boolean;
+  v_rejected integer;
+BEGIN
+  SELECT employer_id INTO v_employer_id
+  FROM jobs
+  WHERE id = p_job_id AND can_manage_company_jobs(company_id);
+
+  IF v_employer_id IS NULL THEN
+    RAISE EXCEPTION 'No puedes cerrar este empleo';
+  END IF;
+
+  UPDATE jobs SET status = 'closed' WHERE id = p_job_id;
+
+  -- Mismas etapas que valida validate_application_status
+  SELECT EXISTS (
+    SELECT 1 FROM pipeline_stages WHERE employer_id = v_employer_id
+  ) INTO v_has_custom_stages;
+
+  UPDATE applications
+  SET status = 'rejected',
+      status_note = coalesce(nullif(trim(p_message), ''), 'La vacante se cerró y ya no continúa el proceso de selección')
+  WHERE job_id = p_job_id
+  AND status IN (
+    SELECT key FROM pipeline_stages
+    WHERE category = 'open'
+    AND (
+      (v_has_custom_stages AND employer_id = v_employer_id)
+      OR (NOT v_has_custom_stages AND employer_id IS NULL)
+    )
+  );
+  GET DIAGNOSTICS v_rejected = ROW_COUNT;
+
+  RETURN v_rejected;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Políticas para jobs
+DROP POLICY IF EXISTS "Anyone can read active jobs" ON jobs;
+DROP POLICY IF EXISTS "Anonymous users can read active jobs" ON jobs;
+
+CREATE POLICY "Anyone can read published jobs"
+  ON jobs
+  FOR SELECT
+  TO authenticated
+  USING (status = 'published');
+
+CREATE POLICY "Anonymous users can read published jobs"
+  ON jobs
+  FOR SELECT
+  TO anon
+  USING (status = 'published');
+
+-- Los visitantes ven el estado y la fecha de vencimiento
+GRANT SELECT (status, expires_at) ON jobs TO anon;
@@ -0,0 +1,371 @@
+/*
+  # Analítica de reclutamiento
+
+  1. Nuevas Tablas
+    - `job_views` - Visitas a la página de cada empleo, una por visitante y día.
+      `viewer_key` es el id del usuario o, para visitantes sin sesión, un
+      identificador anónimo generado en el navegador
+
+  2. Cambios
+    - `record_job_view` registra la visita a un empleo publicado. Las visitas
+      de los miembros de la empresa no cuentan
+    - `stage_category` devuelve la categoría de una etapa según el pipeline
+      del empleador (personalizado o por defecto)
+    - Vista `application_analytics` con los datos de cada postulación que usan
+      los reportes: origen, primera respuesta y fecha de contratación.
+      El origen es `invitation` si el candidato fue invitado al empleo,
+      `saved_search` si le llegó por una búsqueda guardada y `direct` en otro caso
+    - Funciones de reporte por empresa, rango de fechas y empleo opcional:
+      - `analytics_summary` - Totales del periodo
+      - `analytics_daily_activity` - Visitas y postulaciones por día y empleo
+      - `analytics_funnel` - Postulaciones que alcanzaron cada etapa
+      - `analytics_sources` - Postulaciones por origen
+      - `analytics_job_comparison` - Indicadores por empleo
+
+  3. Seguridad
+    - Habilitar RLS en `job_views`; solo los miembros de la empresa leen sus visitas
+    - Las visitas solo se escriben con `record_job_view`
+    - `application_analytics` no es accesible directamente; los reportes
+      comprueban que el usuario pertenezca a la empresa
+*/
+
+-- Crear tabla de visitas
+CREATE TABLE IF NOT EXISTS job_views (
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  viewer_key text NOT NULL,
+  viewed_on date NOT NULL DEFAULT current_date,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (job_id, viewer_key, viewed_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_views_job_id_viewed_on ON job_views(job_id, viewed_on);
+
+-- Habilitar RLS
+ALTER TABLE job_views ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para job_views
+CREATE POLICY "Company members can read job views"
+  ON job_views
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_views.job_id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+-- Función para registrar una visita. p_visitor_id identifica a los
+-- visitantes sin sesión; con sesión se usa el id del usuario
+CREATE OR REPLACE FUNCTION record_job_view(p_job_id uuid, p_visitor_id text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_viewer_key text;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    v_viewer_key := auth.uid()::text;
+  ELSIF length(trim(coalesce(p_visitor_id, ''))) BETWEEN 1 AND 64 THEN
+    v_viewer_key := 'anon:' || trim(p_visitor_id);
+  ELSE
+    RETURN;
+  END IF;
+
+  INSERT INTO job_views (job_id, viewer_key)
+  SELECT id, v_viewer_key
+  FROM jobs
+  WHERE id = p_job_id
+  AND status = 'published'
+  AND (auth.uid() IS NULL OR company_role(company_id) IS NULL)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_job_view(uuid, text) TO anon, authenticated;
+
+-- Categoría de una etapa en el pipeline del empleador
+CREATE OR REPLACE FUNCTION stage_category(p_employer_id uuid, p_key text)
+RETURNS text AS $$
+  SELECT coalesce(
+    (SELECT category FROM pipeline_stages WHERE employer_id = p_employer_id AND key = p_key),
+    (SELECT category FROM pipeline_stages WHERE employer_id IS NULL AND key = p_key),
+    'open'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Vista con los datos de cada postulación que usan los reportes
+CREATE OR REPLACE VIEW application_analytics AS
+SELECT
+  applications.id,
+  applications.job_id,
+  jobs.company_id,
+  applications.applicant_id,
+  applications.status,
+  applications.created_at,
+  applications.created_at::date AS created_on,
+  CASE
+    WHEN EXISTS (
+      SELECT 1 FROM job_invitations
+      WHERE job_invitations.job_id = applications.job_id
+      AND job_invitations.candidate_id = applications.applicant_id
+      AND job_invitations.created_at <= applications.created_at
+    ) THEN 'invitation'
+    WHEN EXISTS (
+      SELECT 1 FROM saved_search_matches
+      JOIN saved_searches ON saved_searches.id = saved_search_matches.saved_search_id
+      WHERE saved_search_matches.job_id = applications.job_id
+      AND saved_searches.user_id = applications.applicant_id
+      AND saved_search_matches.created_at <= applications.created_at
+    ) THEN 'saved_search'
+    ELSE 'direct'
+  END AS source,
+  -- Primer cambio de etapa o mensaje de la empresa
+  (
+    SELECT min(responded_at) FROM (
+      SELECT min(application_events.created_at) AS responded_at
+      FROM application_events
+      WHERE application_events.application_id = applications.id
+      AND application_events.event_type = 'status_changed'
+      AND application_events.actor_id IS DISTINCT FROM applications.applicant_id
+      UNION ALL
+      SELECT min(messages.created_at)
+      FROM messages
+      WHERE messages.application_id = applications.id
+      AND messages.sender_id <> applications.applicant_id
+    ) AS responses
+  ) AS first_response_at,
+  (
+    SELECT min(application_events.created_at)
+    FROM application_events
+    WHERE application_events.application_id = applications.id
+    AND application_events.event_type = 'status_changed'
+    AND stage_category(jobs.employer_id, application_events.to_status) = 'hired'
+  ) AS hired_at
+FROM applications
+JOIN jobs ON jobs.id = applications.job_id;
+
+REVOKE ALL ON application_analytics FROM anon, authenticated;
+
+-- Comprueba que el usuario pertenezca a la empresa del reporte
+CREATE OR REPLACE FUNCTION assert_company_analytics_access(p_company_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF company_role(p_company_id) IS NULL THEN
+    RAISE EXCEPTION 'No tienes acceso a los reportes de esta empresa';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Totales del periodo
+CREATE OR REPLACE FUNCTION analytics_summary(
+  p_company_id uuid,
+  p_from date,
+  p_to date,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  views bigint,
+  applications bigint,
+  responded bigint,
+  avg_response_hours numeric,
+  hired bigint,
+  avg_days_to_hire numeric
+) AS $$
+BEGIN
+  PERFORM assert_company_analytics_access(p_company_id);
+
+  RETURN QUERY
+  SELECT
+    (
+      SELECT count(*)
+      FROM job_views
+      JOIN jobs ON jobs.id = job_views.job_id
+      WHERE jobs.company_id = p_company_id
+      AND (p_job_id IS NULL OR job_views.job_id = p_job_id)
+      AND job_views.viewed_on BETWEEN p_from AND p_to
+    ),
+    count(*),
+    count(a.first_response_at),
+    round(avg(extract(epoch FROM a.first_response_at - a.created_at) / 3600)::numeric, 1),
+    count(a.hired_at),
+    round(avg(extract(epoch FROM a.hired_at - a.created_at) / 86400)::numeric, 1)
+  FROM application_analytics a
+  WHERE a.company_id = p_company_id
+  AND (p_job_id IS NULL OR a.job_id = p_job_id)
+  AND a.created_on BETWEEN p_from AND p_to;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Visitas y postulaciones por día y empleo; solo los días con actividad
+CREATE OR REPLACE FUNCTION analytics_daily_activity(
+  p_company_id uuid,
+  p_from date,
+  p_to date,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  day date,
+  job_id uuid,
+  views bigint,
+  applications bigint
+) AS $$
+BEGIN
+  PERFORM assert_company_analytics_access(p_company_id);
+
+  RETURN QUERY
+  SELECT activity.day, activity.job_id, sum(activity.views)::bigint, sum(activity.applications)::bigint
+  FROM (
+    SELECT job_views.viewed_on AS day, job_views.job_id, count(*) AS views, 0::bigint AS applications
+    FROM job_views
+    JOIN jobs ON jobs.id = job_views.job_id
+    WHERE jobs.company_id = p_company_id
+    AND (p_job_id IS NULL OR job_views.job_id = p_job_id)
+    AND job_views.viewed_on BETWEEN p_from AND p_to
+    GROUP BY job_views.viewed_on, job_views.job_id
+    UNION ALL
+    SELECT a.created_on, a.job_id, 0, count(*)
+    FROM application_analytics a
+    WHERE a.company_id = p_company_id
+    AND (p_job_id IS NULL OR a.job_id = p_job_id)
+    AND a.created_on BETWEEN p_from AND p_to
+    GROUP BY a.created_on, a.job_id
+  ) AS activity
+  GROUP BY activity.day, activity.job_id
+  ORDER BY activity.day;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Postulaciones del periodo que alcanzaron cada etapa y las que siguen en ella.
+-- Las etapas se agrupan por clave entre los pipelines de la empresa
+CREATE OR REPLACE FUNCTION analytics_funnel(
+  p_company_id uuid,
+  p_from date,
+  p_to date,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  stage_key text,
+  stage_label text,
+  category text,
+  stage_position integer,
+  reached bigint,
+  current_count bigint
+) AS $$
+BEGIN
+  PERFORM assert_company_analytics_access(p_company_id);
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT a.id, a.status
+    FROM application_analytics a
+    WHERE a.company_id = p_company_id
+    AND (p_job_id IS NULL OR a.job_id = p_job_id)
+    AND a.created_on BETWEEN p_from AND p_to
+  ),
+  employers AS (
+    SELECT DISTINCT jobs.employer_id FROM jobs WHERE jobs.company_id = p_company_id
+  ),
+  stages AS (
+    SELECT
+      pipeline_stages.key,
+      min(pipeline_stages.label) AS label,
+      min(pipeline_stages.category) AS category,
+      min(pipeline_stages.position) AS position
+    FROM employers
+    JOIN pipeline_stages ON (
+      pipeline_stages.employer_id = employers.employer_id
+      OR (
+        pipeline_stages.employer_id IS NULL
+        AND NOT EXISTS (SELECT 1 FROM pipeline_stages own WHERE own.employer_id = employers.employer_id)
+      )
+    )
+    GROUP BY pipeline_stages.key
+  ),
+  reached_stages AS (
+    SELECT DISTINCT application_events.application_id, application_events.to_status
+    FROM application_events
+    JOIN scoped ON scoped.id = application_events.application_id
+    WHERE application_events.to_status IS NOT NULL
+  )
+  SELECT
+    stages.key,
+    stages.label,
+    stages.category,
+    stages.position,
+    (SELECT count(*) FROM reached_stages WHERE reached_stages.to_status = stages.key),
+    (SELECT count(*) FROM scoped WHERE scoped.status = stages.key)
+  FROM stages
+  ORDER BY stages.position, stages.key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Postulaciones del periodo por origen
+CREATE OR REPLACE FUNCTION analytics_sources(
+  p_company_id uuid,
+  p_from date,
+  p_to date,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  source text,
+  applications bigint,
+  hired bigint
+) AS $$
+BEGIN
+  PERFORM assert_company_analytics_access(p_company_id);
+
+  RETURN QUERY
+  SELECT a.source, count(*), count(a.hired_at)
+  FROM application_analytics a
+  WHERE a.company_id = p_company_id
+  AND (p_job_id IS NULL OR a.job_id = p_job_id)
+  AND a.created_on BETWEEN p_from AND p_to
+  GROUP BY a.source
+  ORDER BY count(*) DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Indicadores de cada empleo de la empresa en el periodo
+CREATE OR REPLACE FUNCTION analytics_job_comparison(
+  p_company_id uuid,
+  p_from date,
+  p_to date
+)
+RETURNS TABLE (
+  job_id uuid,
+  title text,
+  status text,
+  views bigint,
+  applications bigint,
+  responded bigint,
+  avg_response_hours numeric,
+  hired bigint,
+  avg_days_to_hire numeric
+) AS $$
+BEGIN
+  PERFORM assert_company_analytics_access(p_company_id);
+
+  RETURN QUERY
+  SELECT
+    jobs.id,
+    jobs.title,
+    jobs.status,
+    (
+      SELECT count(*) FROM job_views
+      WHERE job_views.job_id = jobs.id
+      AND job_views.viewed_on BETWEEN p_from AND p_to
+    ),
+    count(a.id),
+    count(a.first_response_at),
+    round(avg(extract(epoch FROM a.first_response_at - a.created_at) / 3600)::numeric, 1),
+    count(a.hired_at),
+    round(avg(extract(epoch FROM a.hired_at - a.created_at) / 86400)::numeric, 1)
+  FROM jobs
+  LEFT JOIN application_analytics a
+    ON a.job_id = jobs.id
+    AND a.created_on BETWEEN p_from AND p_to
+  WHERE jobs.company_id = p_company_id
+  GROUP BY jobs.id
+  ORDER BY count(a.id) DESC, jobs.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
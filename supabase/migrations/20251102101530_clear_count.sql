@@ -0,0 +1,126 @@
+/*
+  # Clics en postularse y estadísticas por empleo
+
+  1. Nuevas Tablas
+    - `job_apply_clicks` - Intentos de postularse a cada empleo, uno por
+      visitante y día. Incluye a los visitantes sin sesión que van a iniciar
+      sesión o crear una cuenta para postularse
+
+  2. Cambios
+    - `job_viewer_key` calcula la clave del visitante: el id del usuario o el
+      identificador anónimo del navegador. `record_job_view` pasa a usarla
+    - `record_job_apply_click` registra el clic en postularse
+    - Vista `job_stats` con las visitas, visitantes únicos, clics en
+      postularse, postulaciones y la tasa de visitas que terminan en
+      postulación de cada empleo
+
+  3. Seguridad
+    - Habilitar RLS en `job_apply_clicks`; solo los miembros de la empresa
+      leen sus clics
+    - `job_stats` se consulta con los permisos del usuario, así que cada
+      empresa solo ve las cifras de sus empleos
+*/
+
+-- Crear tabla de clics
+CREATE TABLE IF NOT EXISTS job_apply_clicks (
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  viewer_key text NOT NULL,
+  clicked_on date NOT NULL DEFAULT current_date,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (job_id, viewer_key, clicked_on)
+);
+
+-- Habilitar RLS
+ALTER TABLE job_apply_clicks ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para job_apply_clicks
+CREATE POLICY "Company members can read job apply clicks"
+  ON job_apply_clicks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_apply_clicks.job_id
+      AND company_role(jobs.company_id) IS NOT NULL
+    )
+  );
+
+-- Clave del visitante; NULL si no hay sesión ni un identificador anónimo válido
+CREATE OR REPLACE FUNCTION job_viewer_key(p_visitor_id text)
+RETURNS text AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN auth.uid()::text;
+  ELSIF length(trim(coalesce(p_visitor_id, ''))) BETWEEN 1 AND 64 THEN
+    RETURN 'anon:' || trim(p_visitor_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_job_view(p_job_id uuid, p_visitor_id text DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO job_views (job_id, viewer_key)
+  SELECT id, job_viewer_key(p_visitor_id)
+  FROM jobs
+  WHERE id = p_job_id
+  AND status = 'published'
+  AND job_viewer_key(p_visitor_id) IS NOT NULL
+  AND (auth.uid() IS NULL OR company_role(company_id) IS NULL)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para registrar el clic en postularse
+CREATE OR REPLACE FUNCTION record_job_apply_click(p_job_id uuid, p_visitor_id text DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO job_apply_clicks (job_id, viewer_key)
+  SELECT id, job_viewer_key(p_visitor_id)
+  FROM jobs
+  WHERE id = p_job_id
+  AND status = 'published'
+  AND job_viewer_key(p_visitor_id) IS NOT NULL
+  AND (auth.uid() IS NULL OR company_role(company_id) IS NULL)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_job_apply_click(uuid, text) TO anon, authenticated;
+
+-- Vista de estadísticas por empleo
+CREATE OR REPLACE VIEW job_stats
+WITH (security_invoker = true) AS
+SELECT
+  jobs.id AS job_id,
+  jobs.company_id,
+  coalesce(views.total, 0) AS views,
+  coalesce(views.unique_viewers, 0) AS unique_viewers,
+  coalesce(clicks.total, 0) AS apply_clicks,
+  coalesce(applications.total, 0) AS applications,
+  CASE
+    WHEN coalesce(views.total, 0) > 0
+    THEN round(coalesce(applications.total, 0) * 100.0 / views.total, 1)
+  END AS view_to_apply_rate
+FROM jobs
+LEFT JOIN (
+  SELECT job_id, count(*) AS total, count(DISTINCT viewer_key) AS unique_viewers
+  FROM job_views
+  GROUP BY job_id
+) AS views ON views.job_id = jobs.id
+LEFT JOIN (
+  SELECT job_id, count(*) AS total
+  FROM job_apply_clicks
+  GROUP BY job_id
+) AS clicks ON clicks.job_id = jobs.id
+LEFT JOIN (
+  SELECT job_id, count(*) AS total
+  FROM applications
+  GROUP BY job_id
+) AS applications ON applications.job_id = jobs.id;
+
+REVOKE ALL ON job_stats FROM anon;
+GRANT SELECT ON job_stats TO authenticated;
@@ -0,0 +1,59 @@
+/*
+  # Plantillas de mensajes
+
+  1. Nuevas Tablas
+    - `message_templates` - Mensajes reutilizables de una empresa para
+      escribir a varios candidatos a la vez. El cuerpo admite los marcadores
+      `{{nombre}}`, `{{empleo}}` y `{{empresa}}`, que se reemplazan al enviar
+
+  2. Seguridad
+    - Habilitar RLS en `message_templates`
+    - Todos los miembros de la empresa leen sus plantillas; propietarios,
+      administradores y reclutadores las crean, editan y eliminan
+*/
+
+-- Crear tabla de plantillas
+CREATE TABLE IF NOT EXISTS message_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(company_id, name)
+);
+
+-- Habilitar RLS
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para message_templates
+CREATE POLICY "Company members can read message templates"
+  ON message_templates
+  FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IS NOT NULL);
+
+CREATE POLICY "Company recruiters can create message templates"
+  ON message_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND can_manage_company_jobs(company_id));
+
+CREATE POLICY "Company recruiters can update message templates"
+  ON message_templates
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_company_jobs(company_id))
+  WITH CHECK (can_manage_company_jobs(company_id));
+
+CREATE POLICY "Company recruiters can delete message templates"
+  ON message_templates
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_company_jobs(company_id));
+
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
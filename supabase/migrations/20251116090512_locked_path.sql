@@ -0,0 +1,20 @@
+/*
+  # Ruta fija de los currículums
+
+  1. Seguridad
+    - La política de actualización de `resumes` comprueba también la fila
+      resultante: el aspirante no puede apuntar `file_path` a un archivo fuera
+      de su carpeta del bucket `resumes`. Antes podía enlazar el archivo de
+      otro usuario, adjuntarlo a una postulación y la política de storage de
+      la empresa lo servía como si fuera suyo
+*/
+
+-- Políticas para resumes
+DROP POLICY IF EXISTS "Users can update own resumes" ON resumes;
+
+CREATE POLICY "Users can update own resumes"
+  ON resumes
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND (storage.foldername(file_path))[1] = auth.uid()::text);
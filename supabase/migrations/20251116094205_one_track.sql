@@ -0,0 +1,334 @@
+/*
+  # Un proceso de selección por empresa
+
+  1. Cambios
+    - `pipeline_stages.company_id` reemplaza a `employer_id`: las etapas
+      personalizadas pertenecen a la empresa y se aplican a todos sus empleos,
+      sin importar qué reclutador los creó. Las filas con `company_id` nulo
+      siguen siendo el conjunto por defecto
+    - Migración de las etapas existentes: cada empresa adopta las etapas
+      personalizadas del miembro de mayor rango que las tenga (propietario,
+      administrador, reclutador y después los creadores de empleos que ya no
+      son miembros). Las etapas de los demás pipelines que todavía usan
+      postulaciones de la empresa se agregan, para que ninguna quede con un
+      estado inválido
+    - `company_pipeline_stages` devuelve las etapas de una empresa o las por
+      defecto; la usan `validate_application_status`,
+      `prevent_used_stage_delete`, `close_job`,
+      `notify_application_status_changed`, `stage_category` y
+      `analytics_funnel`
+    - `stage_category` recibe la empresa en lugar del empleador, así que se
+      vuelve a crear la vista `application_analytics`
+
+  2. Seguridad
+    - Propietarios, administradores y reclutadores gestionan las etapas de
+      su empresa
+*/
+
+-- Empresa dueña de cada conjunto de etapas
+ALTER TABLE pipeline_stages ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE CASCADE;
+
+-- La clave única pasa a ser por empresa; se vuelve a crear al final
+DROP INDEX IF EXISTS idx_pipeline_stages_employer_key;
+
+-- Cada empresa adopta las etapas personalizadas del miembro de mayor rango
+INSERT INTO pipeline_stages (company_id, key, label, applicant_label, category, position)
+SELECT sources.company_id, stage.key, stage.label, stage.applicant_label, stage.category, stage.position
+FROM (
+  SELECT DISTINCT ON (candidates.company_id) candidates.company_id, candidates.employer_id
+  FROM (
+    SELECT
+      company_id,
+      user_id AS employer_id,
+      CASE role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 WHEN 'recruiter' THEN 2 ELSE 3 END AS rank,
+      created_at
+    FROM company_members
+    UNION ALL
+    SELECT company_id, employer_id, 4, min(created_at)
+    FROM jobs
+    GROUP BY company_id, employer_id
+  ) AS candidates
+  WHERE EXISTS (SELECT 1 FROM pipeline_stages WHERE pipeline_stages.employer_id = candidates.employer_id)
+  ORDER BY candidates.company_id, candidates.rank, candidates.created_at
+) AS sources
+JOIN pipeline_stages stage ON stage.employer_id = sources.employer_id;
+
+-- Etapas de otros pipelines que todavía usan postulaciones de la empresa
+INSERT INTO pipeline_stages (company_id, key, label, applicant_label, category, position)
+SELECT DISTINCT ON (jobs.company_id, applications.status)
+  jobs.company_id, stage.key, stage.label, stage.applicant_label, stage.category, stage.position
+FROM applications
+JOIN jobs ON jobs.id = applications.job_id
+JOIN pipeline_stages stage ON stage.key = applications.status
+  AND (stage.employer_id = jobs.employer_id OR (stage.employer_id IS NULL AND stage.company_id IS NULL))
+WHERE EXISTS (SELECT 1 FROM pipeline_stages own WHERE own.company_id = jobs.company_id)
+AND NOT EXISTS (
+  SELECT 1 FROM pipeline_stages own
+  WHERE own.company_id = jobs.company_id AND own.key = applications.status
+)
+ORDER BY jobs.company_id, applications.status, stage.employer_id NULLS LAST;
+
+-- Las etapas agregadas se ordenan antes de las etapas finales
+UPDATE pipeline_stages
+SET position = ordered.position
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY company_id
+    ORDER BY category <> 'open', position, key
+  ) - 1 AS position
+  FROM pipeline_stages
+  WHERE company_id IS NOT NULL
+) AS ordered
+WHERE pipeline_stages.id = ordered.id;
+
+-- Función para impedir eliminar etapas que todavía tienen postulaciones
+CREATE OR REPLACE FUNCTION prevent_used_stage_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.company_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM applications
+    JOIN jobs ON jobs.id = applications.job_id
+    WHERE jobs.company_id = OLD.company_id
+    AND applications.status = OLD.key
+  ) THEN
+    RAISE EXCEPTION 'La etapa "%" tiene postulaciones y no se puede eliminar', OLD.label;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Eliminar las etapas por empleador, ya copiadas a su empresa
+DELETE FROM pipeline_stages WHERE employer_id IS NOT NULL;
+
+DROP POLICY IF EXISTS "Employers can create own pipeline stages" ON pipeline_stages;
+DROP POLICY IF EXISTS "Employers can update own pipeline stages" ON pipeline_stages;
+DROP POLICY IF EXISTS "Employers can delete own pipeline stages" ON pipeline_stages;
+
+ALTER TABLE pipeline_stages DROP COLUMN IF EXISTS employer_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_stages_company_key
+  ON pipeline_stages (coalesce(company_id, '00000000-0000-0000-0000-000000000000'::uuid), key);
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_company_id ON pipeline_stages(company_id);
+
+-- Políticas para pipeline_stages
+CREATE POLICY "Company recruiters can create pipeline stages"
+  ON pipeline_stages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_company_jobs(company_id));
+
+CREATE POLICY "Company recruiters can update pipeline stages"
+  ON pipeline_stages
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_company_jobs(company_id))
+  WITH CHECK (can_manage_company_jobs(company_id));
+
+CREATE POLICY "Company recruiters can delete pipeline stages"
+  ON pipeline_stages
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_company_jobs(company_id));
+
+-- Etapas de la empresa o, si no las ha personalizado, las por defecto
+CREATE OR REPLACE FUNCTION company_pipeline_stages(p_company_id uuid)
+RETURNS SETOF pipeline_stages AS $$
+  SELECT * FROM pipeline_stages WHERE company_id = p_company_id
+  UNION ALL
+  SELECT * FROM pipeline_stages
+  WHERE company_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM pipeline_stages own WHERE own.company_id = p_company_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Función para validar que el estado de una postulación sea una etapa válida
+CREATE OR REPLACE FUNCTION validate_application_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_company_id uuid;
+BEGIN
+  SELECT company_id INTO v_company_id FROM jobs WHERE id = NEW.job_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM company_pipeline_stages(v_company_id) WHERE key = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Etapa de postulación no válida: %', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para notificar al aspirante de un cambio de etapa
+CREATE OR REPLACE FUNCTION notify_application_status_changed()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_job_title text;
+  v_company_id uuid;
+  v_stage_label text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title, company_id INTO v_job_title, v_company_id FROM jobs WHERE id = NEW.job_id;
+
+  -- Etiqueta visible para el aspirante según las etapas de la empresa
+  SELECT applicant_label INTO v_stage_label
+  FROM company_pipeline_stages(v_company_id)
+  WHERE key = NEW.status;
+
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  VALUES (
+    NEW.applicant_id,
+    'application_status_changed',
+    'Tu postulación cambió de estado',
+    format('Tu postulación a "%s" ahora está: %s', v_job_title, coalesce(v_stage_label, NEW.status)),
+    '/applications',
+    jsonb_build_object('application_id', NEW.id, 'job_id', NEW.job_id, 'status', NEW.status)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Función para cerrar una vacante y rechazar las postulaciones que siguen en proceso
+CREATE OR REPLACE FUNCTION close_job(p_job_id uuid, p_message text DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_company_id uuid;
+  v_rejected integer;
+BEGIN
+  SELECT company_id INTO v_company_id
+  FROM jobs
+  WHERE id = p_job_id AND can_manage_company_jobs(company_id);
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'No puedes cerrar este empleo';
+  END IF;
+
+  UPDATE jobs SET status = 'closed' WHERE id = p_job_id;
+
+  UPDATE applications
+  SET status = 'rejected',
+      status_note = coalesce(nullif(trim(p_message), ''), 'La vacante se cerró y ya no continúa el proceso de selección')
+  WHERE job_id = p_job_id
+  AND status IN (
+    SELECT key FROM company_pipeline_stages(v_company_id) WHERE category = 'open'
+  );
+  GET DIAGNOSTICS v_rejected = ROW_COUNT;
+
+  RETURN v_rejected;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- stage_category cambia de parámetro; la vista que la usa se vuelve a crear
+DROP VIEW IF EXISTS application_analytics;
+DROP FUNCTION IF EXISTS stage_category(uuid, text);
+
+-- Categoría de una etapa en el pipeline de la empresa
+CREATE OR REPLACE FUNCTION stage_category(p_company_id uuid, p_key text)
+RETURNS text AS $$
+  SELECT coalesce(
+    (SELECT category FROM company_pipeline_stages(p_company_id) WHERE key = p_key),
+    (SELECT category FROM pipeline_stages WHERE company_id IS NULL AND key = p_key),
+    'open'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Vista con los datos de cada postulación que usan los reportes
+CREATE OR REPLACE VIEW application_analytics AS
+SELECT
+  applications.id,
+  applications.job_id,
+  jobs.company_id,
+  applications.applicant_id,
+  applications.status,
+  applications.created_at,
+  applications.created_at::date AS created_on,
+  CASE
+    WHEN EXISTS (
+      SELECT 1 FROM job_invitations
+      WHERE job_invitations.job_id = applications.job_id
+      AND job_invitations.candidate_id = applications.applicant_id
+      AND job_invitations.created_at <= applications.created_at
+    ) THEN 'invitation'
+    WHEN EXISTS (
+      SELECT 1 FROM saved_search_matches
+      JOIN saved_searches ON saved_searches.id = saved_search_matches.saved_search_id
+      WHERE saved_search_matches.job_id = applications.job_id
+      AND saved_searches.user_id = applications.applicant_id
+      AND saved_search_matches.created_at <= applications.created_at
+    ) THEN 'saved_search'
+    ELSE 'direct'
+  END AS source,
+  -- Primer cambio de etapa o mensaje de la empresa
+  (
+    SELECT min(responded_at) FROM (
+      SELECT min(application_events.created_at) AS responded_at
+      FROM application_events
+      WHERE application_events.application_id = applications.id
+      AND application_events.event_type = 'status_changed'
+      AND application_events.actor_id IS DISTINCT FROM applications.applicant_id
+      UNION ALL
+      SELECT min(messages.created_at)
+      FROM messages
+      WHERE messages.application_id = applications.id
+      AND messages.sender_id <> applications.applicant_id
+    ) AS responses
+  ) AS first_response_at,
+  (
+    SELECT min(application_events.created_at)
+    FROM application_events
+    WHERE application_events.application_id = applications.id
+    AND application_events.event_type = 'status_changed'
+    AND stage_category(jobs.company_id, application_events.to_status) = 'hired'
+  ) AS hired_at
+FROM applications
+JOIN jobs ON jobs.id = applications.job_id;
+
+REVOKE ALL ON application_analytics FROM anon, authenticated;
+
+-- Postulaciones del periodo que alcanzaron cada etapa y las que siguen en ella
+CREATE OR REPLACE FUNCTION analytics_funnel(
+  p_company_id uuid,
+  p_from date,
+  p_to date,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  stage_key text,
+  stage_label text,
+  category text,
+  stage_position integer,
+  reached bigint,
+  current_count bigint
+) AS $$
+BEGIN
+  PERFORM assert_company_analytics_access(p_company_id);
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT a.id, a.status
+    FROM application_analytics a
+    WHERE a.company_id = p_company_id
+    AND (p_job_id IS NULL OR a.job_id = p_job_id)
+    AND a.created_on BETWEEN p_from AND p_to
+  ),
+  reached_stages AS (
+    SELECT DISTINCT application_events.application_id, application_events.to_status
+    FROM application_events
+    JOIN scoped ON scoped.id = application_events.application_id
+    WHERE application_events.to_status IS NOT NULL
+  )
+  SELECT
+    stages.key,
+    stages.label,
+    stages.category,
+    stages.position,
+    (SELECT count(*) FROM reached_stages WHERE reached_stages.to_status = stages.key),
+    (SELECT count(*) FROM scoped WHERE scoped.status = stages.key)
+  FROM company_pipeline_stages(p_company_id) AS stages
+  ORDER BY stages.position, stages.key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
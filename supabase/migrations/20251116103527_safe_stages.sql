@@ -0,0 +1,103 @@
+/*
+  # Guardado atómico de las etapas
+
+  1. Cambios
+    - `save_pipeline_stages` reemplaza el conjunto de etapas de una empresa en
+      una sola transacción: crea, actualiza, reordena y elimina etapas. Si algo
+      falla no se guarda nada
+    - Rechaza el conjunto si falta una etapa del sistema o una etapa que
+      todavía usan postulaciones de la empresa. Esto también vale la primera
+      vez que la empresa reemplaza las etapas por defecto, cuando todavía no
+      hay filas propias que proteja `prevent_used_stage_delete`
+
+  2. Seguridad
+    - Las etapas ya no se escriben directamente; solo con `save_pipeline_stages`,
+      que comprueba que el usuario gestione los empleos de la empresa
+*/
+
+DROP POLICY IF EXISTS "Company recruiters can create pipeline stages" ON pipeline_stages;
+DROP POLICY IF EXISTS "Company recruiters can update pipeline stages" ON pipeline_stages;
+DROP POLICY IF EXISTS "Company recruiters can delete pipeline stages" ON pipeline_stages;
+
+-- Función para guardar las etapas de una empresa. Cada elemento de p_stages
+-- trae key, label, applicant_label y category; el orden define la posición
+CREATE OR REPLACE FUNCTION save_pipeline_stages(p_company_id uuid, p_stages jsonb)
+RETURNS void AS $$
+DECLARE
+  v_stage jsonb;
+  v_position integer := 0;
+  v_keys text[] := '{}';
+  v_missing text;
+BEGIN
+  IF NOT can_manage_company_jobs(p_company_id) THEN
+    RAISE EXCEPTION 'No puedes editar las etapas de esta empresa';
+  END IF;
+
+  -- Un guardado a la vez por empresa
+  PERFORM 1 FROM companies WHERE id = p_company_id FOR UPDATE;
+
+  FOR v_stage IN SELECT * FROM jsonb_array_elements(coalesce(p_stages, '[]'::jsonb)) LOOP
+    IF coalesce(trim(v_stage->>'key'), '') = ''
+      OR coalesce(trim(v_stage->>'label'), '') = ''
+      OR coalesce(trim(v_stage->>'applicant_label'), '') = '' THEN
+      RAISE EXCEPTION 'Todas las etapas necesitan un nombre';
+    END IF;
+
+    IF v_stage->>'key' = ANY (v_keys) THEN
+      RAISE EXCEPTION 'La etapa "%" está repetida', v_stage->>'label';
+    END IF;
+
+    v_keys := v_keys || (v_stage->>'key');
+  END LOOP;
+
+  SELECT key INTO v_missing
+  FROM unnest(ARRAY['pending', 'hired', 'rejected', 'withdrawn']) AS key
+  WHERE NOT (key = ANY (v_keys))
+  LIMIT 1;
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'La etapa del sistema "%" no se puede eliminar', v_missing;
+  END IF;
+
+  -- Las postulaciones de la empresa no pueden quedar en una etapa que ya no existe
+  SELECT coalesce(stages.label, applications.status) INTO v_missing
+  FROM applications
+  JOIN jobs ON jobs.id = applications.job_id
+  LEFT JOIN company_pipeline_stages(p_company_id) AS stages ON stages.key = applications.status
+  WHERE jobs.company_id = p_company_id
+  AND NOT (applications.status = ANY (v_keys))
+  LIMIT 1;
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'La etapa "%" tiene postulaciones y no se puede eliminar', v_missing;
+  END IF;
+
+  DELETE FROM pipeline_stages
+  WHERE company_id = p_company_id AND NOT (key = ANY (v_keys));
+
+  FOR v_stage IN SELECT * FROM jsonb_array_elements(p_stages) LOOP
+    IF EXISTS (
+      SELECT 1 FROM pipeline_stages WHERE company_id = p_company_id AND key = v_stage->>'key'
+    ) THEN
+      UPDATE pipeline_stages
+      SET label = trim(v_stage->>'label'),
+          applicant_label = trim(v_stage->>'applicant_label'),
+          category = v_stage->>'category',
+          position = v_position
+      WHERE company_id = p_company_id AND key = v_stage->>'key';
+    ELSE
+      INSERT INTO pipeline_stages (company_id, key, label, applicant_label, category, position)
+      VALUES (
+        p_company_id,
+        v_stage->>'key',
+        trim(v_stage->>'label'),
+        trim(v_stage->>'applicant_label'),
+        v_stage->>'category',
+        v_position
+      );
+    END IF;
+
+    v_position := v_position + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,44 @@
+/*
+  # Postulaciones en lugar de clics en postularse
+
+  1. Cambios
+    - Se elimina `job_apply_clicks` y `record_job_apply_click`. Se registraban
+      al hacer clic, antes de saber si la postulación se enviaba, y contaban a
+      los visitantes sin sesión con una clave distinta a la de su cuenta, así
+      que la cifra no medía postulaciones enviadas
+    - El envío del formulario queda registrado en `applications`: la fila solo
+      se crea si la postulación se guarda y hay una por candidato y empleo
+    - La vista `job_stats` se vuelve a crear sin la columna `apply_clicks`
+*/
+
+DROP VIEW IF EXISTS job_stats;
+DROP FUNCTION IF EXISTS record_job_apply_click(uuid, text);
+DROP TABLE IF EXISTS job_apply_clicks;
+
+-- Vista de estadísticas por empleo
+CREATE OR REPLACE VIEW job_stats
+WITH (security_invoker = true) AS
+SELECT
+  jobs.id AS job_id,
+  jobs.company_id,
+  coalesce(views.total, 0) AS views,
+  coalesce(views.unique_viewers, 0) AS unique_viewers,
+  coalesce(applications.total, 0) AS applications,
+  CASE
+    WHEN coalesce(views.total, 0) > 0
+    THEN round(coalesce(applications.total, 0) * 100.0 / views.total, 1)
+  END AS view_to_apply_rate
+FROM jobs
+LEFT JOIN (
+  SELECT job_id, count(*) AS total, count(DISTINCT viewer_key) AS unique_viewers
+  FROM job_views
+  GROUP BY job_id
+) AS views ON views.job_id = jobs.id
+LEFT JOIN (
+  SELECT job_id, count(*) AS total
+  FROM applications
+  GROUP BY job_id
+) AS applications ON applications.job_id = jobs.id;
+
+REVOKE ALL ON job_stats FROM anon;
+GRANT SELECT ON job_stats TO authenticated;